@@ -0,0 +1,274 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "./IForeclosureAuction.sol";
+import "./IInsuranceFund.sol";
+import "./PropertyNFT.sol";
+import "./MortgagePool.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title ForeclosureAuction
+ * @notice Dutch auctions for foreclosed properties
+ * @dev The price falls linearly from the start price to a reserve covering the defaulted debt.
+ *      Proceeds repay the pool's principal and fees first, then the insurance fund's claim payout,
+ *      and any surplus goes to the defaulted borrower.
+ */
+contract ForeclosureAuction is IForeclosureAuction, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    
+    PropertyNFT public propertyNFT;
+    MortgagePool public mortgagePool;
+    IInsuranceFund public insuranceFund; // Repaid the claim it paid on the defaulted loan
+    IERC20 public immutable asset; // Currency bids are paid in, the pool's asset
+    
+    enum AuctionStatus {
+        None,
+        Active,
+        Sold
+    }
+    
+    struct Auction {
+        uint256 propertyId;
+        address borrower;
+        uint256 principalOwed; // Uncovered principal owed to the pool
+        uint256 feesOwed; // Interest and late fees owed to the pool
+        uint256 insuranceOwed; // Claim payout to repay to the insurance fund
+        uint256 startPrice;
+        uint256 reservePrice; // Lowest price the auction will accept
+        uint256 startTimestamp;
+        uint256 endTimestamp;
+        address buyer;
+        uint256 salePrice;
+        AuctionStatus status;
+    }
+    
+    // propertyId => latest auction
+    mapping(uint256 => Auction) internal auctions;
+    uint256[] internal auctionedProperties;
+    
+    uint256 public auctionDuration = 7 days;
+    
+    // Contracts allowed to start auctions (MortgageManager)
+    mapping(address => bool) public authorizedManagers;
+    
+    // Constants
+    uint256 public constant MIN_AUCTION_DURATION = 1 days;
+    
+    // Events
+    event AuctionStarted(
+        uint256 indexed propertyId,
+        address indexed borrower,
+        uint256 startPrice,
+        uint256 reservePrice,
+        uint256 endTimestamp
+    );
+    
+    event AuctionRestarted(uint256 indexed propertyId, uint256 reservePrice, uint256 endTimestamp);
+    
+    event AuctionSettled(
+        uint256 indexed propertyId,
+        address indexed buyer,
+        uint256 salePrice,
+        uint256 toPool,
+        uint256 toInsurance,
+        uint256 toBorrower
+    );
+    
+    event AuctionDurationUpdated(uint256 duration);
+    
+    modifier onlyManager() {
+        require(authorizedManagers[msg.sender], "Not authorized manager");
+        _;
+    }
+    
+    constructor(address _propertyNFT, address _mortgagePool, address _insuranceFund) Ownable(msg.sender) {
+        propertyNFT = PropertyNFT(_propertyNFT);
+        mortgagePool = MortgagePool(_mortgagePool);
+        insuranceFund = IInsuranceFund(_insuranceFund);
+        asset = IERC20(mortgagePool.asset());
+        
+        // The pool and the insurance fund pull their shares of the proceeds
+        asset.forceApprove(_mortgagePool, type(uint256).max);
+        asset.forceApprove(_insuranceFund, type(uint256).max);
+    }
+    
+    /**
+     * @inheritdoc IForeclosureAuction
+     * @dev The reserve is the full defaulted debt, so a sale at any price repays the pool and the reserve
+     */
+    function startAuction(
+        uint256 propertyId,
+        address borrower,
+        uint256 principalOwed,
+        uint256 feesOwed,
+        uint256 insuranceOwed,
+        uint256 startPrice
+    ) external onlyManager {
+        require(propertyNFT.ownerOf(propertyId) == address(this), "Property not held by auction");
+        Auction storage auction = auctions[propertyId];
+        require(auction.status != AuctionStatus.Active, "Auction already active");
+        
+        if (auction.status == AuctionStatus.None) {
+            auctionedProperties.push(propertyId);
+        }
+        
+        uint256 reservePrice = principalOwed + feesOwed + insuranceOwed;
+        
+        auction.propertyId = propertyId;
+        auction.borrower = borrower;
+        auction.principalOwed = principalOwed;
+        auction.feesOwed = feesOwed;
+        auction.insuranceOwed = insuranceOwed;
+        auction.startPrice = startPrice > reservePrice ? startPrice : reservePrice;
+        auction.reservePrice = reservePrice;
+        auction.startTimestamp = block.timestamp;
+        auction.endTimestamp = block.timestamp + auctionDuration;
+        auction.buyer = address(0);
+        auction.salePrice = 0;
+        auction.status = AuctionStatus.Active;
+        
+        emit AuctionStarted(propertyId, borrower, auction.startPrice, reservePrice, auction.endTimestamp);
+    }
+    
+    /**
+     * @notice Buy the property at the current auction price
+     * @dev Pulls the current price from the buyer (approve first); the price only falls,
+     *      so approving the quoted price is always enough
+     * @param maxPrice Highest price the buyer accepts
+     */
+    function buy(uint256 propertyId, uint256 maxPrice) external nonReentrant {
+        Auction storage auction = auctions[propertyId];
+        require(auction.status == AuctionStatus.Active, "Auction not active");
+        require(block.timestamp < auction.endTimestamp, "Auction ended");
+        
+        uint256 price = currentPrice(propertyId);
+        require(maxPrice >= price, "Bid below current price");
+        asset.safeTransferFrom(msg.sender, address(this), price);
+        
+        auction.status = AuctionStatus.Sold;
+        auction.buyer = msg.sender;
+        auction.salePrice = price;
+        
+        propertyNFT.transferFrom(address(this), msg.sender, propertyId);
+        
+        (uint256 toPoolPrincipal, uint256 toPoolFees, uint256 toInsurance, uint256 toBorrower) = previewWaterfall(
+            propertyId,
+            price
+        );
+        
+        // The pool wrote the uncovered principal off at default; what the sale repays is a recovery
+        mortgagePool.receiveForeclosureProceeds(propertyId, toPoolPrincipal, toPoolFees);
+        if (toInsurance > 0) {
+            insuranceFund.receiveRecovery(propertyId, toInsurance);
+        }
+        
+        if (toBorrower > 0) {
+            asset.safeTransfer(auction.borrower, toBorrower);
+        }
+        
+        emit AuctionSettled(propertyId, msg.sender, price, toPoolPrincipal + toPoolFees, toInsurance, toBorrower);
+    }
+    
+    /**
+     * @notice Run an unsold auction again with a new reserve (owner only)
+     * @dev A reserve below the debt accepts a shortfall, which the waterfall takes from the borrower surplus,
+     *      then the insurance fund, then the pool's fees and principal
+     */
+    function restartAuction(uint256 propertyId, uint256 reservePrice) external onlyOwner {
+        Auction storage auction = auctions[propertyId];
+        require(auction.status == AuctionStatus.Active, "Auction not active");
+        require(block.timestamp >= auction.endTimestamp, "Auction still running");
+        require(reservePrice > 0, "Reserve must be > 0");
+        
+        auction.reservePrice = reservePrice;
+        if (auction.startPrice < reservePrice) {
+            auction.startPrice = reservePrice;
+        }
+        auction.startTimestamp = block.timestamp;
+        auction.endTimestamp = block.timestamp + auctionDuration;
+        
+        emit AuctionRestarted(propertyId, reservePrice, auction.endTimestamp);
+    }
+    
+    /**
+     * @notice Current Dutch auction price, falling linearly to the reserve
+     */
+    function currentPrice(uint256 propertyId) public view returns (uint256) {
+        Auction storage auction = auctions[propertyId];
+        if (auction.status != AuctionStatus.Active) return 0;
+        if (block.timestamp >= auction.endTimestamp) return auction.reservePrice;
+        
+        uint256 elapsed = block.timestamp - auction.startTimestamp;
+        uint256 duration = auction.endTimestamp - auction.startTimestamp;
+        return auction.startPrice - ((auction.startPrice - auction.reservePrice) * elapsed) / duration;
+    }
+    
+    /**
+     * @notice Split sale proceeds between the pool, the insurance fund and the borrower
+     * @param propertyId Auctioned property
+     * @param salePrice Proceeds to distribute
+     * @return toPoolPrincipal Repays the uncovered principal
+     * @return toPoolFees Repays interest and late fees
+     * @return toInsurance Repays the insurance fund's claim payout
+     * @return toBorrower Surplus returned to the defaulted borrower
+     */
+    function previewWaterfall(uint256 propertyId, uint256 salePrice) public view returns (
+        uint256 toPoolPrincipal,
+        uint256 toPoolFees,
+        uint256 toInsurance,
+        uint256 toBorrower
+    ) {
+        Auction storage auction = auctions[propertyId];
+        uint256 remaining = salePrice;
+        
+        toPoolPrincipal = remaining < auction.principalOwed ? remaining : auction.principalOwed;
+        remaining -= toPoolPrincipal;
+        
+        toPoolFees = remaining < auction.feesOwed ? remaining : auction.feesOwed;
+        remaining -= toPoolFees;
+        
+        toInsurance = remaining < auction.insuranceOwed ? remaining : auction.insuranceOwed;
+        toBorrower = remaining - toInsurance;
+    }
+    
+    /**
+     * @notice Get the latest auction for a property
+     */
+    function getAuction(uint256 propertyId) external view returns (Auction memory) {
+        return auctions[propertyId];
+    }
+    
+    /**
+     * @notice Get every property that has been auctioned
+     */
+    function getAuctionedProperties() external view returns (uint256[] memory) {
+        return auctionedProperties;
+    }
+    
+    /**
+     * @notice Set how long new and restarted auctions run (owner only)
+     */
+    function setAuctionDuration(uint256 duration) external onlyOwner {
+        require(duration >= MIN_AUCTION_DURATION, "Duration too short (min 1 day)");
+        auctionDuration = duration;
+        emit AuctionDurationUpdated(duration);
+    }
+    
+    /**
+     * @notice Authorize a contract to start auctions (only owner)
+     * @param manager Address to authorize (typically MortgageManager)
+     */
+    function authorizeManager(address manager) external onlyOwner {
+        authorizedManagers[manager] = true;
+    }
+    
+    /**
+     * @notice Revoke auction authorization
+     */
+    function revokeManager(address manager) external onlyOwner {
+        authorizedManagers[manager] = false;
+    }
+}
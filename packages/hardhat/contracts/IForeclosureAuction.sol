@@ -0,0 +1,27 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title IForeclosureAuction
+ * @notice Sells foreclosed properties and pays the proceeds out to the pool and the borrower
+ * @dev MortgageManager hands over the property NFT before starting the auction
+ */
+interface IForeclosureAuction {
+    /**
+     * @notice Start selling a foreclosed property
+     * @param propertyId Property NFT held by the auction contract
+     * @param borrower Defaulted borrower, paid any surplus after the debt is settled
+     * @param principalOwed Written-off principal the pool has not recovered from the insurance claim
+     * @param feesOwed Accrued interest, deferred interest and late fees owed to the pool
+     * @param insuranceOwed Claim payout the insurance fund made for this loan, repaid to the fund
+     * @param startPrice Opening price, normally the property's appraised value
+     */
+    function startAuction(
+        uint256 propertyId,
+        address borrower,
+        uint256 principalOwed,
+        uint256 feesOwed,
+        uint256 insuranceOwed,
+        uint256 startPrice
+    ) external;
+}
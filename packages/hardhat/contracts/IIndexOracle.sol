@@ -0,0 +1,14 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title IIndexOracle
+ * @notice Reference index (e.g. SOFR) that adjustable-rate mortgages reset against
+ */
+interface IIndexOracle {
+    /**
+     * @notice Current index rate
+     * @return rateBPS Annual index rate in basis points (300 = 3%)
+     */
+    function getIndexRate() external view returns (uint256 rateBPS);
+}
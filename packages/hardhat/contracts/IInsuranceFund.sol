@@ -0,0 +1,46 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title IInsuranceFund
+ * @notice Mortgage default insurance: collects premiums from borrowers and pays claims to the pool
+ * @dev MortgageManager reports insured balances, forwards premiums and files a claim per default
+ */
+interface IInsuranceFund {
+    /**
+     * @notice Monthly premium for a loan balance
+     * @param principal Outstanding principal of the insured loan
+     * @return premium Amount added to the borrower's monthly payment
+     */
+    function premiumFor(uint256 principal) external view returns (uint256 premium);
+    
+    /**
+     * @notice Pay a premium collected from a borrower (pulled from the caller)
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param amount Premium paid
+     */
+    function payPremium(uint256 loanId, uint256 amount) external;
+    
+    /**
+     * @notice Report an insured loan's outstanding principal; 0 once it is repaid or defaults
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param principal Outstanding principal
+     */
+    function updateCoverage(uint256 loanId, uint256 principal) external;
+    
+    /**
+     * @notice File a claim for a defaulted loan; the payout goes straight to the pool
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param loss Principal outstanding at default
+     * @return claimId Index of the claim
+     * @return payout Amount paid, less than the covered amount when reserves fall short
+     */
+    function fileClaim(uint256 loanId, uint256 loss) external returns (uint256 claimId, uint256 payout);
+    
+    /**
+     * @notice Return a claim payout recovered from a foreclosure sale (pulled from the caller)
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param amount Amount recovered
+     */
+    function receiveRecovery(uint256 loanId, uint256 amount) external;
+}
@@ -0,0 +1,26 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title ILienholder
+ * @notice Loan details a lender exposes for the properties it holds liens on
+ * @dev PropertyNFT reads these for token metadata; lenders that don't implement them are skipped
+ */
+interface ILienholder {
+    /**
+     * @notice Quote the amount needed to pay off the loan secured by a property right now
+     * @return payoffAmount Total due (principal + accrued interest)
+     * @return principal Outstanding principal
+     * @return accruedInterest Interest accrued since the last payment
+     */
+    function getPayoffQuote(uint256 propertyId) external view returns (
+        uint256 payoffAmount,
+        uint256 principal,
+        uint256 accruedInterest
+    );
+    
+    /**
+     * @notice Borrower's equity in the property as a whole percentage (0-100)
+     */
+    function getOwnershipPercentage(uint256 propertyId) external view returns (uint256);
+}
@@ -0,0 +1,32 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title IPropertyShares
+ * @notice Fractional ownership shares of mortgaged properties
+ * @dev MortgageManager keeps each property's shares split between the borrower's equity and the pool
+ */
+interface IPropertyShares {
+    /**
+     * @notice Issue or rebalance a property's shares to match the borrower's equity
+     * @dev The first call mints the property's full share count; later calls move shares between
+     *      the borrower and the pool by burning and minting
+     * @param propertyId Property NFT ID, also the share token ID
+     * @param borrower Holder of the equity shares
+     * @param equityBPS Borrower's equity in basis points (10000 = owned outright)
+     */
+    function updateEquity(uint256 propertyId, address borrower, uint256 equityBPS) external;
+    
+    /**
+     * @notice Burn every share of a foreclosed property
+     * @param propertyId Property NFT ID, also the share token ID
+     * @param borrower Defaulted borrower holding the equity shares
+     */
+    function retire(uint256 propertyId, address borrower) external;
+    
+    /**
+     * @notice Whether an account holds every issued share of a property (true if none are issued)
+     * @dev PropertyNFT only lets the holder of all shares transfer the property itself
+     */
+    function holdsAllShares(uint256 propertyId, address account) external view returns (bool);
+}
@@ -0,0 +1,22 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title IRateModel
+ * @notice Prices a mortgage from its risk characteristics
+ * @dev Plugged into MortgageManager so pricing can change without redeploying the manager
+ */
+interface IRateModel {
+    /**
+     * @notice Quote an annual interest rate for a loan
+     * @param ltvBPS Loan-to-value ratio in basis points (8000 = 80%)
+     * @param termMonths Loan duration in months
+     * @param utilizationBPS Pool utilization in basis points, including the new loan
+     * @return rateBPS Annual interest rate in basis points (500 = 5%)
+     */
+    function getRate(
+        uint256 ltvBPS,
+        uint256 termMonths,
+        uint256 utilizationBPS
+    ) external view returns (uint256 rateBPS);
+}
@@ -0,0 +1,47 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "./IIndexOracle.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title IndexOracle
+ * @notice Owner-published index rate for adjustable-rate mortgage resets
+ * @dev Simplified manual feed for hackathon demo; production would read a rate oracle
+ */
+contract IndexOracle is IIndexOracle, Ownable {
+    
+    uint256 public indexRateBPS;
+    uint256 public lastUpdated;
+    
+    // Constants
+    uint256 public constant MAX_INDEX_BPS = 2000; // 20% sanity bound
+    
+    // Events
+    event IndexRateUpdated(uint256 rateBPS, uint256 timestamp);
+    
+    constructor(uint256 _indexRateBPS) Ownable(msg.sender) {
+        _setIndexRate(_indexRateBPS);
+    }
+    
+    /**
+     * @inheritdoc IIndexOracle
+     */
+    function getIndexRate() external view returns (uint256) {
+        return indexRateBPS;
+    }
+    
+    /**
+     * @notice Publish a new index rate (owner only)
+     */
+    function setIndexRate(uint256 rateBPS) external onlyOwner {
+        _setIndexRate(rateBPS);
+    }
+    
+    function _setIndexRate(uint256 rateBPS) internal {
+        require(rateBPS <= MAX_INDEX_BPS, "Index too high (max 20%)");
+        indexRateBPS = rateBPS;
+        lastUpdated = block.timestamp;
+        emit IndexRateUpdated(rateBPS, block.timestamp);
+    }
+}
@@ -0,0 +1,234 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "./IInsuranceFund.sol";
+import "./MortgagePool.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title InsuranceFund
+ * @notice Default insurance for pool mortgages, funded by borrower premiums
+ * @dev Reserves are the assets the fund actually holds. A claim covers a share of the defaulted principal
+ *      and pays out what the reserves allow, so the fund can never owe more than it has.
+ */
+contract InsuranceFund is IInsuranceFund, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    
+    MortgagePool public mortgagePool; // Receives claim payouts
+    IERC20 public immutable asset; // Premiums and payouts are in the pool's asset
+    
+    struct Claim {
+        address manager;
+        uint256 loanId;
+        uint256 loss; // Principal outstanding at default
+        uint256 covered; // Share of the loss the policy covers
+        uint256 paid; // Amount actually paid, capped by reserves at filing
+        uint256 filedTimestamp;
+    }
+    
+    Claim[] internal claims;
+    
+    // Insured loans: manager => loan ID => outstanding principal
+    mapping(address => mapping(uint256 => uint256)) public insuredPrincipalOf;
+    uint256 public insuredPrincipal; // Total outstanding principal of insured loans
+    
+    // Policy terms
+    uint256 public premiumRateBPS = 50; // 0.5% of outstanding principal per year
+    uint256 public coverageBPS = 5000; // 50% of a defaulted loan's principal
+    uint256 public targetCoverageRatioBPS = 200; // Reserves of 2% of insured principal count as solvent
+    
+    // Totals
+    uint256 public totalPremiums;
+    uint256 public totalClaimsPaid;
+    uint256 public totalRecovered; // Payouts returned from foreclosure sales
+    
+    // Contracts allowed to pay premiums and file claims (MortgageManager)
+    mapping(address => bool) public authorizedManagers;
+    
+    // Constants
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MONTHS_PER_YEAR = 12;
+    uint256 public constant MAX_PREMIUM_RATE_BPS = 500; // 5% per year
+    
+    // Events
+    event PremiumPaid(address indexed manager, uint256 indexed loanId, uint256 amount);
+    event CoverageUpdated(address indexed manager, uint256 indexed loanId, uint256 principal);
+    event ClaimFiled(
+        uint256 indexed claimId,
+        address indexed manager,
+        uint256 indexed loanId,
+        uint256 loss,
+        uint256 covered,
+        uint256 paid
+    );
+    event RecoveryReceived(uint256 indexed loanId, uint256 amount);
+    event PremiumRateUpdated(uint256 rateBPS);
+    event CoverageTermsUpdated(uint256 coverageBPS, uint256 targetCoverageRatioBPS);
+    
+    modifier onlyManager() {
+        require(authorizedManagers[msg.sender], "Not authorized manager");
+        _;
+    }
+    
+    constructor(address _mortgagePool) Ownable(msg.sender) {
+        mortgagePool = MortgagePool(_mortgagePool);
+        asset = IERC20(mortgagePool.asset());
+        
+        // The pool pulls claim payouts
+        asset.forceApprove(_mortgagePool, type(uint256).max);
+    }
+    
+    /**
+     * @inheritdoc IInsuranceFund
+     */
+    function premiumFor(uint256 principal) external view returns (uint256 premium) {
+        return (principal * premiumRateBPS) / BASIS_POINTS / MONTHS_PER_YEAR;
+    }
+    
+    /**
+     * @inheritdoc IInsuranceFund
+     */
+    function payPremium(uint256 loanId, uint256 amount) external onlyManager nonReentrant {
+        asset.safeTransferFrom(msg.sender, address(this), amount);
+        totalPremiums += amount;
+        
+        emit PremiumPaid(msg.sender, loanId, amount);
+    }
+    
+    /**
+     * @inheritdoc IInsuranceFund
+     */
+    function updateCoverage(uint256 loanId, uint256 principal) external onlyManager {
+        insuredPrincipal = insuredPrincipal - insuredPrincipalOf[msg.sender][loanId] + principal;
+        insuredPrincipalOf[msg.sender][loanId] = principal;
+        
+        emit CoverageUpdated(msg.sender, loanId, principal);
+    }
+    
+    /**
+     * @inheritdoc IInsuranceFund
+     * @dev The loan stops being insured once its claim is filed
+     */
+    function fileClaim(uint256 loanId, uint256 loss) external onlyManager nonReentrant returns (
+        uint256 claimId,
+        uint256 payout
+    ) {
+        insuredPrincipal -= insuredPrincipalOf[msg.sender][loanId];
+        insuredPrincipalOf[msg.sender][loanId] = 0;
+        
+        uint256 covered = (loss * coverageBPS) / BASIS_POINTS;
+        uint256 available = reserves();
+        payout = covered < available ? covered : available;
+        
+        claimId = claims.length;
+        claims.push(
+            Claim({
+                manager: msg.sender,
+                loanId: loanId,
+                loss: loss,
+                covered: covered,
+                paid: payout,
+                filedTimestamp: block.timestamp
+            })
+        );
+        totalClaimsPaid += payout;
+        
+        if (payout > 0) {
+            mortgagePool.receiveInsurancePayout(loanId, payout);
+        }
+        
+        emit ClaimFiled(claimId, msg.sender, loanId, loss, covered, payout);
+    }
+    
+    /**
+     * @inheritdoc IInsuranceFund
+     * @dev Open to anyone: the foreclosure auction returns payouts here out of sale proceeds
+     */
+    function receiveRecovery(uint256 loanId, uint256 amount) external nonReentrant {
+        asset.safeTransferFrom(msg.sender, address(this), amount);
+        totalRecovered += amount;
+        
+        emit RecoveryReceived(loanId, amount);
+    }
+    
+    /**
+     * @notice Assets available to pay claims
+     */
+    function reserves() public view returns (uint256) {
+        return asset.balanceOf(address(this));
+    }
+    
+    /**
+     * @notice Most the fund could owe if every insured loan defaulted at once
+     */
+    function maxExposure() public view returns (uint256) {
+        return (insuredPrincipal * coverageBPS) / BASIS_POINTS;
+    }
+    
+    /**
+     * @notice Reserves as a share of insured principal
+     * @return Basis points; type(uint256).max when nothing is insured
+     */
+    function coverageRatioBPS() public view returns (uint256) {
+        if (insuredPrincipal == 0) return type(uint256).max;
+        return (reserves() * BASIS_POINTS) / insuredPrincipal;
+    }
+    
+    /**
+     * @notice Whether reserves meet the target coverage ratio
+     */
+    function isSolvent() external view returns (bool) {
+        return coverageRatioBPS() >= targetCoverageRatioBPS;
+    }
+    
+    /**
+     * @notice Get a claim
+     */
+    function getClaim(uint256 claimId) external view returns (Claim memory) {
+        require(claimId < claims.length, "Invalid claim ID");
+        return claims[claimId];
+    }
+    
+    /**
+     * @notice Get the number of claims ever filed
+     */
+    function claimCount() external view returns (uint256) {
+        return claims.length;
+    }
+    
+    /**
+     * @notice Set the annual premium rate charged on outstanding principal (only owner)
+     */
+    function setPremiumRate(uint256 rateBPS) external onlyOwner {
+        require(rateBPS <= MAX_PREMIUM_RATE_BPS, "Premium rate too high");
+        premiumRateBPS = rateBPS;
+        emit PremiumRateUpdated(rateBPS);
+    }
+    
+    /**
+     * @notice Set the covered share of defaulted principal and the solvency target (only owner)
+     */
+    function setCoverageTerms(uint256 _coverageBPS, uint256 _targetCoverageRatioBPS) external onlyOwner {
+        require(_coverageBPS <= BASIS_POINTS, "Coverage above 100%");
+        coverageBPS = _coverageBPS;
+        targetCoverageRatioBPS = _targetCoverageRatioBPS;
+        emit CoverageTermsUpdated(_coverageBPS, _targetCoverageRatioBPS);
+    }
+    
+    /**
+     * @notice Authorize a contract to pay premiums and file claims (only owner)
+     * @param manager Address to authorize (typically MortgageManager)
+     */
+    function authorizeManager(address manager) external onlyOwner {
+        authorizedManagers[manager] = true;
+    }
+    
+    /**
+     * @notice Revoke manager authorization
+     */
+    function revokeManager(address manager) external onlyOwner {
+        authorizedManagers[manager] = false;
+    }
+}
@@ -0,0 +1,153 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title LoanProductRegistry
+ * @notice Catalog of loan products borrowers can choose from when applying for a mortgage
+ * @dev MortgageManager copies a product's terms into each loan at application time,
+ *      so later product changes never alter existing mortgages
+ */
+contract LoanProductRegistry is Ownable {
+    
+    enum ScheduleType {
+        Amortizing,
+        InterestOnly,
+        Balloon
+    }
+    
+    // Adjustable-rate settings; resetIntervalMonths == 0 means fixed rate
+    struct ArmConfig {
+        uint256 initialFixedMonths; // Months before the first reset
+        uint256 resetIntervalMonths; // Months between resets after that
+        uint256 marginBPS; // Added to the index at each reset
+        uint256 perResetCapBPS; // Max rate change at a single reset
+        uint256 lifetimeCapBPS; // Max rate change over the life of the loan
+    }
+    
+    struct LoanProduct {
+        string name;
+        uint256 minDownPaymentBPS; // Minimum down payment as a share of property value
+        uint256[] allowedTerms; // Loan durations in months
+        address rateModel; // Prices the loan; address(0) uses MortgageManager's rate model
+        uint256 lateFeeBPS; // Late fee as a share of the scheduled payment
+        uint256 gracePeriod; // Seconds after a missed due date before the late fee applies
+        uint256 defaultPeriod; // Seconds without payment before the loan defaults
+        ScheduleType scheduleType;
+        uint256 interestOnlyMonths; // InterestOnly: months of interest-only payments before amortization
+        uint256 balloonAmortizationMonths; // Balloon: months the level payment is sized over; the rest is due at maturity
+        ArmConfig arm;
+        bool active;
+    }
+    
+    // State
+    mapping(uint256 => LoanProduct) internal products; // productId => LoanProduct (read via getProduct)
+    uint256 public productCount;
+    
+    // Constants
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_LATE_FEE_BPS = 1000; // 10% of the scheduled payment
+    
+    // Events
+    event ProductUpdated(uint256 indexed productId, string name, bool active);
+    
+    constructor() Ownable(msg.sender) {}
+    
+    /**
+     * @notice Create or update a loan product (owner only)
+     * @param productId Existing product ID to update, or productCount to add a new one
+     * @param product Product terms
+     */
+    function setProduct(uint256 productId, LoanProduct calldata product) external onlyOwner {
+        require(productId <= productCount, "Invalid product ID");
+        require(product.minDownPaymentBPS > 0 && product.minDownPaymentBPS < BASIS_POINTS, "Invalid down payment");
+        require(product.allowedTerms.length > 0, "No terms allowed");
+        require(product.lateFeeBPS <= MAX_LATE_FEE_BPS, "Late fee too high");
+        require(product.defaultPeriod > product.gracePeriod, "Default before grace ends");
+        _validateSchedule(product);
+        if (productId == productCount) productCount++;
+        
+        products[productId] = product;
+        
+        emit ProductUpdated(productId, product.name, product.active);
+    }
+    
+    /**
+     * @notice Check the schedule and ARM settings fit every term the product allows
+     * @dev A product is adjustable-rate when it has a reset interval; fixed-rate products carry no ARM terms
+     */
+    function _validateSchedule(LoanProduct calldata product) internal pure {
+        bool amortizing = product.scheduleType == ScheduleType.Amortizing;
+        if (amortizing) {
+            require(
+                product.interestOnlyMonths == 0 && product.balloonAmortizationMonths == 0,
+                "Amortizing product has IO/balloon months"
+            );
+        }
+        
+        ArmConfig calldata arm = product.arm;
+        if (arm.resetIntervalMonths == 0) {
+            require(
+                arm.initialFixedMonths == 0 && arm.marginBPS == 0 && arm.perResetCapBPS == 0 && arm.lifetimeCapBPS == 0,
+                "ARM terms without reset interval"
+            );
+        } else {
+            require(arm.perResetCapBPS > 0 && arm.lifetimeCapBPS > 0, "ARM caps required");
+        }
+        
+        for (uint256 i = 0; i < product.allowedTerms.length; i++) {
+            uint256 term = product.allowedTerms[i];
+            require(term > 0, "Invalid term");
+            require(arm.resetIntervalMonths == 0 || arm.initialFixedMonths < term, "Fixed period not before maturity");
+            
+            if (amortizing) continue;
+            if (product.scheduleType == ScheduleType.InterestOnly) {
+                require(
+                    product.interestOnlyMonths > 0 && product.interestOnlyMonths < term,
+                    "Invalid interest-only period"
+                );
+            } else {
+                require(product.balloonAmortizationMonths > term, "Balloon must amortize past maturity");
+            }
+        }
+    }
+    
+    /**
+     * @notice Enable or disable a product without changing its terms (owner only)
+     */
+    function setProductActive(uint256 productId, bool active) external onlyOwner {
+        require(productId < productCount, "Invalid product ID");
+        products[productId].active = active;
+        emit ProductUpdated(productId, products[productId].name, active);
+    }
+    
+    /**
+     * @notice Get a single product
+     */
+    function getProduct(uint256 productId) external view returns (LoanProduct memory) {
+        require(productId < productCount, "Invalid product ID");
+        return products[productId];
+    }
+    
+    /**
+     * @notice Get all products, including inactive ones
+     */
+    function getProducts() external view returns (LoanProduct[] memory result) {
+        result = new LoanProduct[](productCount);
+        for (uint256 i = 0; i < productCount; i++) {
+            result[i] = products[i];
+        }
+    }
+    
+    /**
+     * @notice Check whether a product offers a given loan duration
+     */
+    function isTermAllowed(uint256 productId, uint256 durationMonths) public view returns (bool) {
+        uint256[] storage terms = products[productId].allowedTerms;
+        for (uint256 i = 0; i < terms.length; i++) {
+            if (terms[i] == durationMonths) return true;
+        }
+        return false;
+    }
+}
@@ -2,14 +2,16 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title MockUSDC
  * @notice Mock USDC token for testing and demo purposes
  * @dev Allows anyone to mint/burn for hackathon demo. Production would use real USDC via Circle API.
+ *      Supports EIP-2612 permit like real USDC.
  */
-contract MockUSDC is ERC20 {
-    constructor() ERC20("Mock USDC", "USDC") {
+contract MockUSDC is ERC20, ERC20Permit {
+    constructor() ERC20("Mock USDC", "USDC") ERC20Permit("Mock USDC") {
         // Mint initial supply to deployer for seeding the pool
         _mint(msg.sender, 1000000 * 10**decimals()); // 1M USDC
     }
@@ -3,57 +3,160 @@ pragma solidity >=0.8.0 <0.9.0;
 
 import "./PropertyNFT.sol";
 import "./MortgagePool.sol";
+import "./IRateModel.sol";
+import "./IIndexOracle.sol";
+import "./IForeclosureAuction.sol";
+import "./IInsuranceFund.sol";
+import "./ILienholder.sol";
+import "./IPropertyShares.sol";
+import "./LoanProductRegistry.sol";
+import "./MortgageMath.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title MortgageManager
  * @notice Core contract managing mortgage lifecycle: applications, payments, defaults
  * @dev Coordinates between PropertyNFT and MortgagePool
  */
-contract MortgageManager is Ownable, ReentrancyGuard {
+contract MortgageManager is ILienholder, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
     
     PropertyNFT public propertyNFT;
     MortgagePool public mortgagePool;
+    IERC20 public immutable asset; // Loan currency (e.g. USDC), the pool's ERC-4626 asset
+    IRateModel public rateModel; // Prices each loan; falls back to defaultInterestRateBPS when unset
+    IIndexOracle public indexOracle; // Reference index for adjustable-rate resets
+    LoanProductRegistry public productRegistry; // Loan products borrowers choose from
+    IForeclosureAuction public foreclosureAuction; // Sells foreclosed properties to repay the pool
+    IInsuranceFund public insuranceFund; // Paid premiums with each installment, claimed against on default
+    IPropertyShares public propertyShares; // Fractional shares split between borrower equity and the pool
     
     // Mortgage terms
     struct Mortgage {
         uint256 propertyId;
         address borrower;
+        uint256 productId; // Loan product chosen at application
         uint256 propertyValue;
         uint256 downPayment;
         uint256 loanAmount;
         uint256 interestRateBPS; // Annual interest rate in basis points (500 = 5%)
         uint256 durationMonths;
-        uint256 monthlyPayment;
+        LoanProductRegistry.ScheduleType scheduleType;
+        uint256 interestOnlyMonths; // Leading payments that cover interest only
+        uint256 amortizationMonths; // Months monthlyPayment is sized over (after any interest-only period)
+        uint256 monthlyPayment; // Level payment once amortization starts
+        uint256 appliedTimestamp; // When the application was submitted
         uint256 startTimestamp;
+        uint256 maturityTimestamp; // Remaining balance (including any balloon) is due by then
         uint256 lastPaymentTimestamp;
         uint256 totalPaid;
+        uint256 principalOutstanding; // Unpaid loan principal
+        uint256 interestPaid; // Cumulative interest paid
+        uint256 feesPaid; // Cumulative late fees paid
         uint256 ownershipSharesBPS; // Ownership in basis points (5000 = 50%)
         uint256 paymentsCount;
         MortgageStatus status;
     }
     
+    // Late fee and default windows locked in from the loan product
+    struct ServicingTerms {
+        uint256 lateFeeBPS;
+        uint256 gracePeriod;
+        uint256 defaultPeriod;
+    }
+    
+    // Hardship workouts granted by a servicer
+    struct Workout {
+        uint256 forbearanceStart;
+        uint256 forbearanceEnd;
+        bool capitalizeInterest; // Add forbearance interest to principal instead of deferring it
+        uint256 deferredInterest; // Forbearance interest collected with the next payment
+        uint256 originalRateBPS; // Terms before the first modification
+        uint256 originalDurationMonths;
+        uint256 originalMonthlyPayment;
+        uint256 modifiedTimestamp;
+    }
+    
+    // Per-loan escrow sub-account for property taxes and hazard insurance
+    struct EscrowAccount {
+        uint256 balance;
+        uint256 monthlyEscrow; // Added to each monthly payment
+        uint256 annualTaxes; // Projected from the last escrow analysis
+        uint256 annualInsurance;
+        uint256 lastAnalysisTimestamp;
+    }
+    
+    // Payment made out of escrow to a tax authority or insurer
+    struct EscrowDisbursement {
+        address payee;
+        uint256 amount;
+        string memo;
+        uint256 timestamp;
+    }
+    
+    // Adjustable-rate terms locked in for a specific mortgage
+    struct ArmTerms {
+        uint256 initialFixedMonths;
+        uint256 resetIntervalMonths;
+        uint256 marginBPS;
+        uint256 perResetCapBPS;
+        uint256 lifetimeCapBPS;
+        uint256 initialRateBPS;
+        uint256 nextResetTimestamp; // Set when the loan is funded
+    }
+    
+    enum PrepaymentMode {
+        ShortenTerm,
+        Reamortize
+    }
+    
     enum MortgageStatus {
         None,
         Applied,
         Active,
         PaidOff,
         Defaulted,
-        Foreclosed
+        Foreclosed,
+        Forbearance, // Payments paused by a servicer
+        Modified // Active with servicer-modified rate or term
     }
     
     // State
-    mapping(uint256 => Mortgage) public mortgages; // propertyId => Mortgage
-    mapping(address => uint256[]) public borrowerMortgages; // borrower => propertyIds
+    mapping(uint256 => Mortgage) internal mortgages; // propertyId => Mortgage (read via getMortgage)
+    mapping(address => uint256[]) internal borrowerMortgages; // borrower => propertyIds
     uint256 public totalActiveMortgages;
+    uint256 public totalEscrowed; // Down payments held for pending applications
+    
+    // Per-loan terms copied from the product at application time
+    mapping(uint256 => ServicingTerms) internal servicingTerms; // propertyId => ServicingTerms (read via getServicingTerms)
+    mapping(uint256 => ArmTerms) internal armTerms; // propertyId => ArmTerms (read via getArmTerms)
+    
+    // Tax and insurance escrow, held here rather than in the pool
+    mapping(uint256 => EscrowAccount) internal escrowAccounts; // propertyId => EscrowAccount (read via getEscrowAccount)
+    mapping(uint256 => EscrowDisbursement[]) internal escrowDisbursements; // propertyId => disbursement history
+    uint256 public totalEscrowBalances;
+    
+    // Forbearance and modification records
+    mapping(uint256 => Workout) internal workouts; // propertyId => Workout (read via getWorkout)
+    
+    // Underwriters can approve or reject pending applications
+    mapping(address => bool) public underwriters;
+    
+    // Servicers can grant forbearance and modify loans for borrowers in hardship
+    mapping(address => bool) public servicers;
     
     // Constants
     uint256 public constant BASIS_POINTS = 10000;
     uint256 public constant SECONDS_PER_MONTH = 30 days;
-    uint256 public constant LATE_FEE_BPS = 500; // 5% late fee
-    uint256 public constant GRACE_PERIOD = 15 days;
-    uint256 public constant DEFAULT_PERIOD = 90 days;
+    uint256 public constant APPLICATION_EXPIRY = 14 days;
+    uint256 public constant ESCROW_ANALYSIS_INTERVAL = 365 days;
+    uint256 internal constant MAX_FORBEARANCE_MONTHS = 12;
+    uint256 internal constant ESCROW_CUSHION_MONTHS = 2; // Reserve kept on top of projected disbursements
+    uint256 internal constant WAD = 1e18; // Fixed-point scale for rate math
     
     // Default interest rate: 5% APR
     uint256 public defaultInterestRateBPS = 500;
@@ -62,55 +165,207 @@ contract MortgageManager is Ownable, ReentrancyGuard {
     event MortgageApplied(
         uint256 indexed propertyId,
         address indexed borrower,
+        uint256 indexed productId,
+        LoanProductRegistry.ScheduleType scheduleType,
         uint256 loanAmount,
         uint256 downPayment
     );
     
-    event MortgageActivated(uint256 indexed propertyId, address indexed borrower);
+    event MortgageApproved(uint256 indexed propertyId, address indexed borrower, address indexed underwriter);
+    
+    event MortgageRejected(
+        uint256 indexed propertyId,
+        address indexed borrower,
+        address indexed underwriter,
+        string reason
+    );
+    
+    event ApplicationExpired(uint256 indexed propertyId, address indexed borrower);
+    
+    event MortgageActivated(
+        uint256 indexed propertyId,
+        address indexed borrower,
+        LoanProductRegistry.ScheduleType scheduleType,
+        uint256 maturityTimestamp
+    );
     
     event PaymentReceived(
         uint256 indexed propertyId,
         address indexed borrower,
         uint256 amount,
+        uint256 principalPaid,
+        uint256 interestPaid,
+        uint256 feesPaid,
+        uint256 principalOutstanding,
         uint256 newOwnershipBPS
     );
     
+    event PrincipalPrepaid(
+        uint256 indexed propertyId,
+        address indexed borrower,
+        uint256 amount,
+        PrepaymentMode mode,
+        uint256 newMonthlyPayment,
+        uint256 newDurationMonths
+    );
+    
     event MortgageCompleted(uint256 indexed propertyId, address indexed borrower);
     
     event MortgageDefaulted(uint256 indexed propertyId, address indexed borrower);
     
     event PropertyForeclosed(uint256 indexed propertyId, address indexed borrower);
     
-    constructor(address _propertyNFT, address payable _mortgagePool) Ownable(msg.sender) {
+    event UnderwriterUpdated(address indexed underwriter, bool authorized);
+    
+    event ServicerUpdated(address indexed servicer, bool authorized);
+    
+    event ForbearanceGranted(
+        uint256 indexed propertyId,
+        address indexed servicer,
+        uint256 months,
+        bool capitalizeInterest,
+        uint256 endTimestamp
+    );
+    
+    event ForbearanceEnded(
+        uint256 indexed propertyId,
+        uint256 accruedInterest,
+        bool capitalized,
+        uint256 principalOutstanding,
+        uint256 newMonthlyPayment
+    );
+    
+    event LoanModified(
+        uint256 indexed propertyId,
+        address indexed servicer,
+        uint256 oldRateBPS,
+        uint256 newRateBPS,
+        uint256 newDurationMonths,
+        uint256 newMonthlyPayment
+    );
+    
+    event RateModelUpdated(address indexed rateModel);
+    
+    event IndexOracleUpdated(address indexed indexOracle);
+    
+    event ProductRegistryUpdated(address indexed productRegistry);
+    
+    event ForeclosureAuctionUpdated(address indexed foreclosureAuction);
+    
+    event InsuranceFundUpdated(address indexed insuranceFund);
+    
+    event PropertySharesUpdated(address indexed propertyShares);
+    
+    event EscrowDeposited(uint256 indexed propertyId, uint256 amount, uint256 balance);
+    
+    event EscrowDisbursed(
+        uint256 indexed propertyId,
+        address indexed payee,
+        uint256 amount,
+        string memo,
+        uint256 balance
+    );
+    
+    event EscrowAnalyzed(
+        uint256 indexed propertyId,
+        uint256 annualDisbursements,
+        uint256 newMonthlyEscrow,
+        uint256 shortage,
+        uint256 surplusRefunded
+    );
+    
+    event RateReset(
+        uint256 indexed propertyId,
+        uint256 oldRateBPS,
+        uint256 newRateBPS,
+        uint256 newMonthlyPayment,
+        uint256 nextResetTimestamp
+    );
+    
+    modifier onlyUnderwriter() {
+        require(underwriters[msg.sender], "Not an underwriter");
+        _;
+    }
+    
+    modifier onlyServicer() {
+        require(servicers[msg.sender], "Not a servicer");
+        _;
+    }
+    
+    constructor(address _propertyNFT, address _mortgagePool) Ownable(msg.sender) {
         propertyNFT = PropertyNFT(_propertyNFT);
         mortgagePool = MortgagePool(_mortgagePool);
+        asset = IERC20(mortgagePool.asset());
+        
+        // The pool pulls repayments from the manager
+        asset.forceApprove(_mortgagePool, type(uint256).max);
     }
     
     /**
      * @notice Apply for a mortgage on a listed property
+     * @dev The down payment is pulled from the borrower (approve first) and held in escrow until
+     *      an underwriter reviews the application
      * @param propertyId The property NFT ID
-     * @param durationMonths Loan duration (e.g., 360 months = 30 years)
+     * @param productId Loan product from the product registry
+     * @param durationMonths Loan duration; must be one of the product's allowed terms
+     * @param downPayment Down payment in the loan currency
      */
     function applyForMortgage(
         uint256 propertyId,
-        uint256 durationMonths
-    ) external payable nonReentrant {
+        uint256 productId,
+        uint256 durationMonths,
+        uint256 downPayment
+    ) external nonReentrant {
         // Validate property
         PropertyNFT.Property memory property = propertyNFT.getProperty(propertyId);
         require(property.isListed, "Property not listed");
         require(mortgages[propertyId].status == MortgageStatus.None, "Property already mortgaged");
         
-        // Validate down payment (minimum 10%)
-        uint256 minDownPayment = (property.valueUSD * 1000) / BASIS_POINTS; // 10%
-        require(msg.value >= minDownPayment, "Insufficient down payment (min 10%)");
+        // Validate product and terms
+        LoanProductRegistry.LoanProduct memory product = productRegistry.getProduct(productId);
+        require(product.active, "Product not available");
+        require(productRegistry.isTermAllowed(productId, durationMonths), "Term not offered by product");
+        
+        uint256 minDownPayment = (property.valueUSD * product.minDownPaymentBPS) / BASIS_POINTS;
+        require(downPayment >= minDownPayment, "Insufficient down payment");
+        
+        _createApplication(propertyId, productId, product, property.valueUSD, durationMonths, downPayment);
+        
+        ServicingTerms storage servicing = servicingTerms[propertyId];
+        servicing.lateFeeBPS = product.lateFeeBPS;
+        servicing.gracePeriod = product.gracePeriod;
+        servicing.defaultPeriod = product.defaultPeriod;
         
+        // Adjustable-rate products start at the quoted rate, then reset against the index
+        if (product.arm.resetIntervalMonths > 0) {
+            require(product.arm.initialFixedMonths < durationMonths, "Term shorter than fixed period");
+            
+            ArmTerms storage terms = armTerms[propertyId];
+            terms.initialFixedMonths = product.arm.initialFixedMonths;
+            terms.resetIntervalMonths = product.arm.resetIntervalMonths;
+            terms.marginBPS = product.arm.marginBPS;
+            terms.perResetCapBPS = product.arm.perResetCapBPS;
+            terms.lifetimeCapBPS = product.arm.lifetimeCapBPS;
+            terms.initialRateBPS = mortgages[propertyId].interestRateBPS;
+        }
+        
+        asset.safeTransferFrom(msg.sender, address(this), downPayment);
+    }
+    
+    /**
+     * @notice Record a new application with the down payment in escrow
+     */
+    function _createApplication(
+        uint256 propertyId,
+        uint256 productId,
+        LoanProductRegistry.LoanProduct memory product,
+        uint256 propertyValue,
+        uint256 durationMonths,
+        uint256 downPayment
+    ) internal {
         // Calculate loan terms
-        uint256 loanAmount = property.valueUSD - msg.value;
-        uint256 monthlyPayment = calculateMonthlyPayment(
-            loanAmount,
-            defaultInterestRateBPS,
-            durationMonths
-        );
+        uint256 loanAmount = propertyValue - downPayment;
+        uint256 interestRateBPS = quoteInterestRate(propertyId, productId, downPayment, durationMonths);
         
         // Check pool has liquidity
         require(
@@ -118,35 +373,116 @@ contract MortgageManager is Ownable, ReentrancyGuard {
             "Insufficient pool liquidity"
         );
         
-        // Initial ownership based on down payment
-        uint256 initialOwnershipBPS = (msg.value * BASIS_POINTS) / property.valueUSD;
-        
         // Create mortgage
-        mortgages[propertyId] = Mortgage({
-            propertyId: propertyId,
-            borrower: msg.sender,
-            propertyValue: property.valueUSD,
-            downPayment: msg.value,
-            loanAmount: loanAmount,
-            interestRateBPS: defaultInterestRateBPS,
-            durationMonths: durationMonths,
-            monthlyPayment: monthlyPayment,
-            startTimestamp: block.timestamp,
-            lastPaymentTimestamp: block.timestamp,
-            totalPaid: msg.value,
-            ownershipSharesBPS: initialOwnershipBPS,
-            paymentsCount: 0,
-            status: MortgageStatus.Applied
-        });
+        Mortgage storage mortgage = mortgages[propertyId];
+        mortgage.propertyId = propertyId;
+        mortgage.borrower = msg.sender;
+        mortgage.productId = productId;
+        mortgage.propertyValue = propertyValue;
+        mortgage.downPayment = downPayment;
+        mortgage.loanAmount = loanAmount;
+        mortgage.interestRateBPS = interestRateBPS;
+        mortgage.durationMonths = durationMonths;
+        mortgage.scheduleType = product.scheduleType;
+        mortgage.appliedTimestamp = block.timestamp;
+        mortgage.totalPaid = downPayment;
+        mortgage.principalOutstanding = loanAmount;
+        mortgage.ownershipSharesBPS = (downPayment * BASIS_POINTS) / propertyValue; // Initial ownership from down payment
+        mortgage.status = MortgageStatus.Applied;
+        
+        // Interest-only loans amortize after the IO period; balloon loans amortize past maturity
+        if (product.scheduleType == LoanProductRegistry.ScheduleType.InterestOnly) {
+            mortgage.interestOnlyMonths = product.interestOnlyMonths;
+            mortgage.amortizationMonths = durationMonths - product.interestOnlyMonths;
+        } else if (product.scheduleType == LoanProductRegistry.ScheduleType.Balloon) {
+            mortgage.amortizationMonths = product.balloonAmortizationMonths;
+        } else {
+            mortgage.amortizationMonths = durationMonths;
+        }
+        mortgage.monthlyPayment = calculateMonthlyPayment(loanAmount, interestRateBPS, mortgage.amortizationMonths);
         
         borrowerMortgages[msg.sender].push(propertyId);
+        totalEscrowed += downPayment;
         
-        emit MortgageApplied(propertyId, msg.sender, loanAmount, msg.value);
+        emit MortgageApplied(propertyId, msg.sender, productId, product.scheduleType, loanAmount, downPayment);
+    }
+    
+    /**
+     * @notice Approve a pending application and fund the mortgage
+     * @param propertyId Property ID for the application
+     */
+    function approveApplication(uint256 propertyId) external onlyUnderwriter nonReentrant {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(mortgage.status == MortgageStatus.Applied, "No pending application");
+        require(!isApplicationExpired(propertyId), "Application expired");
+        
+        // Down payment leaves escrow once the loan is funded
+        totalEscrowed -= mortgage.downPayment;
+        
+        emit MortgageApproved(propertyId, mortgage.borrower, msg.sender);
         
-        // Auto-activate mortgage and fund
         _activateMortgage(propertyId);
     }
     
+    /**
+     * @notice Reject a pending application and refund the escrowed down payment
+     * @param propertyId Property ID for the application
+     * @param reason Human-readable rejection reason
+     */
+    function rejectApplication(uint256 propertyId, string calldata reason) external onlyUnderwriter nonReentrant {
+        require(mortgages[propertyId].status == MortgageStatus.Applied, "No pending application");
+        
+        address borrower = mortgages[propertyId].borrower;
+        _refundApplication(propertyId);
+        
+        emit MortgageRejected(propertyId, borrower, msg.sender, reason);
+    }
+    
+    /**
+     * @notice Close an application nobody reviewed in time (callable by anyone)
+     * @param propertyId Property ID for the application
+     */
+    function expireApplication(uint256 propertyId) external nonReentrant {
+        require(mortgages[propertyId].status == MortgageStatus.Applied, "No pending application");
+        require(isApplicationExpired(propertyId), "Application not expired");
+        
+        address borrower = mortgages[propertyId].borrower;
+        _refundApplication(propertyId);
+        
+        emit ApplicationExpired(propertyId, borrower);
+    }
+    
+    /**
+     * @notice Clear a pending application and return the escrowed down payment
+     */
+    function _refundApplication(uint256 propertyId) internal {
+        address borrower = mortgages[propertyId].borrower;
+        uint256 downPayment = mortgages[propertyId].downPayment;
+        
+        // Free the property for new applications
+        delete mortgages[propertyId];
+        delete servicingTerms[propertyId];
+        delete armTerms[propertyId];
+        _removeBorrowerMortgage(borrower, propertyId);
+        totalEscrowed -= downPayment;
+        
+        asset.safeTransfer(borrower, downPayment);
+    }
+    
+    /**
+     * @notice Remove a property from a borrower's mortgage list
+     */
+    function _removeBorrowerMortgage(address borrower, uint256 propertyId) internal {
+        uint256[] storage ids = borrowerMortgages[borrower];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (ids[i] == propertyId) {
+                ids[i] = ids[ids.length - 1];
+                ids.pop();
+                return;
+            }
+        }
+    }
+    
     /**
      * @notice Internal function to activate and fund mortgage
      */
@@ -154,72 +490,464 @@ contract MortgageManager is Ownable, ReentrancyGuard {
         Mortgage storage mortgage = mortgages[propertyId];
         require(mortgage.status == MortgageStatus.Applied, "Invalid status");
         
-        // Update status
+        // Update status; the payment clock starts at funding
         mortgage.status = MortgageStatus.Active;
+        mortgage.startTimestamp = block.timestamp;
+        mortgage.lastPaymentTimestamp = block.timestamp;
+        mortgage.maturityTimestamp = block.timestamp + mortgage.durationMonths * SECONDS_PER_MONTH;
         totalActiveMortgages++;
         
-        // Fund mortgage from pool (sends ETH to borrower)
-        mortgagePool.fundMortgage(mortgage.borrower, mortgage.loanAmount);
+        // First ARM reset comes due after the initial fixed period
+        if (isAdjustable(propertyId)) {
+            armTerms[propertyId].nextResetTimestamp =
+                block.timestamp + armTerms[propertyId].initialFixedMonths * SECONDS_PER_MONTH;
+        }
+        
+        // Pay the seller: the pool funds the loan and the escrowed down payment is released
+        address seller = propertyNFT.sellers(propertyId);
+        mortgagePool.fundMortgage(seller, mortgage.loanAmount);
+        asset.safeTransfer(seller, mortgage.downPayment);
         
-        // Transfer property NFT to borrower (with mortgage lien)
+        // Transfer property NFT to borrower, secured by this contract's lien, then issue the shares
         propertyNFT.transferFrom(address(this), mortgage.borrower, propertyId);
+        propertyNFT.placeLien(propertyId, address(this), mortgage.loanAmount);
+        _syncLoanBalance(propertyId);
         
         // Unlist property
         propertyNFT.unlistProperty(propertyId);
         
-        emit MortgageActivated(propertyId, mortgage.borrower);
+        emit MortgageActivated(propertyId, mortgage.borrower, mortgage.scheduleType, mortgage.maturityTimestamp);
+    }
+    
+    /**
+     * @notice Run one of this contract's functions after approving it with an EIP-2612 permit
+     * @dev Saves the separate approve transaction before applyForMortgage, makePayment or payoff.
+     *      A failed permit (e.g. front-run) is ignored so an existing allowance still works.
+     * @param data ABI-encoded call to run as the caller
+     */
+    function permitAndCall(
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s,
+        bytes calldata data
+    ) external {
+        try IERC20Permit(address(asset)).permit(msg.sender, address(this), value, deadline, v, r, s) {} catch {}
+        Address.functionDelegateCall(address(this), data);
     }
     
     /**
      * @notice Make a monthly mortgage payment
+     * @dev Pulls exactly the amount due (see getPaymentDue); use prepayPrincipal to pay down the balance early
      * @param propertyId Property ID for the mortgage
      */
-    function makePayment(uint256 propertyId) external payable nonReentrant {
+    function makePayment(uint256 propertyId) external nonReentrant {
         Mortgage storage mortgage = mortgages[propertyId];
-        require(mortgage.status == MortgageStatus.Active, "Mortgage not active");
+        _endExpiredForbearance(propertyId);
+        require(_isPerforming(mortgage), "Mortgage not active");
         require(msg.sender == mortgage.borrower, "Not the borrower");
         
-        uint256 expectedPayment = mortgage.monthlyPayment;
+        (uint256 scheduledPayment, uint256 escrowPayment, uint256 lateFee, uint256 insurancePremium) = getPaymentDue(
+            propertyId
+        );
+        asset.safeTransferFrom(msg.sender, address(this), scheduledPayment + escrowPayment + lateFee + insurancePremium);
+        insuranceFund.payPremium(propertyId, insurancePremium);
+        
+        // Split payment into principal and interest per the amortization schedule
+        uint256 deferredInterest = workouts[propertyId].deferredInterest;
+        (uint256 principalPayment, uint256 interestPayment) = MortgageMath.calculatePaymentBreakdown(
+            mortgage.principalOutstanding,
+            mortgage.interestRateBPS,
+            scheduledPayment - deferredInterest
+        );
+        interestPayment += deferredInterest;
+        workouts[propertyId].deferredInterest = 0;
+        
+        mortgage.lastPaymentTimestamp = block.timestamp;
+        mortgage.paymentsCount++;
+        
+        // Escrow stays with the manager; only principal, interest and fees go to the pool
+        if (escrowPayment > 0) {
+            EscrowAccount storage escrow = escrowAccounts[propertyId];
+            escrow.balance += escrowPayment;
+            totalEscrowBalances += escrowPayment;
+            emit EscrowDeposited(propertyId, escrowPayment, escrow.balance);
+        }
+        
+        _applyPayment(propertyId, principalPayment, interestPayment, lateFee);
+    }
+    
+    /**
+     * @notice Amount due for the next installment
+     * @dev Interest-only periods pay interest alone; the final installment clears the balance (the balloon).
+     *      Interest deferred by a forbearance is added to the next installment.
+     * @return scheduledPayment Principal and interest due, excluding escrow and late fees
+     * @return escrowPayment Tax and insurance escrow component
+     * @return lateFee Late fee owed if the payment is made now
+     * @return insurancePremium Default insurance premium, forwarded to the insurance fund
+     */
+    function getPaymentDue(uint256 propertyId) public view returns (
+        uint256 scheduledPayment,
+        uint256 escrowPayment,
+        uint256 lateFee,
+        uint256 insurancePremium
+    ) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        if (!_isPerforming(mortgage)) return (0, 0, 0, 0);
+        
+        uint256 interestDue = MortgageMath.monthlyInterest(mortgage.principalOutstanding, mortgage.interestRateBPS);
+        scheduledPayment = mortgage.paymentsCount < mortgage.interestOnlyMonths ? interestDue : mortgage.monthlyPayment;
+        
+        // Final installment (or a payment covering the balance) clears the remaining principal
+        if (mortgage.paymentsCount + 1 >= mortgage.durationMonths ||
+            scheduledPayment > mortgage.principalOutstanding + interestDue) {
+            scheduledPayment = mortgage.principalOutstanding + interestDue;
+        }
         
         // Check if payment is late
-        uint256 timeSinceLastPayment = block.timestamp - mortgage.lastPaymentTimestamp;
-        if (timeSinceLastPayment > SECONDS_PER_MONTH + GRACE_PERIOD) {
-            // Add late fee
-            uint256 lateFee = (expectedPayment * LATE_FEE_BPS) / BASIS_POINTS;
-            expectedPayment += lateFee;
+        ServicingTerms storage servicing = servicingTerms[propertyId];
+        if (block.timestamp - mortgage.lastPaymentTimestamp > SECONDS_PER_MONTH + servicing.gracePeriod) {
+            lateFee = (scheduledPayment * servicing.lateFeeBPS) / BASIS_POINTS;
         }
         
-        require(msg.value >= expectedPayment, "Insufficient payment");
+        scheduledPayment += workouts[propertyId].deferredInterest;
+        escrowPayment = escrowAccounts[propertyId].monthlyEscrow;
+        insurancePremium = insuranceFund.premiumFor(mortgage.principalOutstanding);
+    }
+    
+    /**
+     * @notice Pay off the mortgage in full at the current payoff quote
+     * @dev Interest accrues until the transaction is mined, so approve slightly more than the quote
+     * @param propertyId Property ID for the mortgage
+     */
+    function payoff(uint256 propertyId) external nonReentrant {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(_isPerforming(mortgage), "Mortgage not active");
+        require(msg.sender == mortgage.borrower, "Not the borrower");
         
-        // Calculate principal and interest portions
-        uint256 remainingBalance = mortgage.loanAmount - (mortgage.totalPaid - mortgage.downPayment);
-        uint256 monthlyInterestRate = mortgage.interestRateBPS / 12;
-        uint256 interestPayment = (remainingBalance * monthlyInterestRate) / BASIS_POINTS;
-        uint256 principalPayment = expectedPayment - interestPayment;
+        (uint256 payoffAmount, uint256 principal, uint256 accruedInterest) = getPayoffQuote(propertyId);
+        asset.safeTransferFrom(msg.sender, address(this), payoffAmount);
         
-        // Update mortgage state
-        mortgage.totalPaid += msg.value;
         mortgage.lastPaymentTimestamp = block.timestamp;
-        mortgage.paymentsCount++;
+        workouts[propertyId].deferredInterest = 0;
+        
+        _applyPayment(propertyId, principal, accruedInterest, 0);
+    }
+    
+    /**
+     * @notice Pay down principal ahead of schedule
+     * @param propertyId Property ID for the mortgage
+     * @param amount Principal to repay
+     * @param mode Keep the payment and shorten the term, or keep the term and lower the payment
+     */
+    function prepayPrincipal(uint256 propertyId, uint256 amount, PrepaymentMode mode) external nonReentrant {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(_isPerforming(mortgage), "Mortgage not active");
+        require(msg.sender == mortgage.borrower, "Not the borrower");
+        require(amount > 0, "Must prepay > 0");
+        require(amount < mortgage.principalOutstanding, "Use payoff to repay in full");
+        
+        asset.safeTransferFrom(msg.sender, address(this), amount);
+        _applyPayment(propertyId, amount, 0, 0);
+        
+        if (mode == PrepaymentMode.Reamortize) {
+            mortgage.monthlyPayment = calculateMonthlyPayment(
+                mortgage.principalOutstanding,
+                mortgage.interestRateBPS,
+                _remainingAmortizingMonths(mortgage)
+            );
+        } else {
+            // Amortization restarts after any interest-only period still to run
+            uint256 amortizationStart = mortgage.paymentsCount > mortgage.interestOnlyMonths
+                ? mortgage.paymentsCount
+                : mortgage.interestOnlyMonths;
+            mortgage.amortizationMonths = amortizationStart - mortgage.interestOnlyMonths + MortgageMath.countRemainingPayments(
+                mortgage.principalOutstanding,
+                mortgage.interestRateBPS,
+                mortgage.monthlyPayment,
+                _remainingAmortizingMonths(mortgage)
+            );
+            
+            // A balloon still falls due at maturity unless amortization now finishes sooner
+            uint256 lastPayment = mortgage.interestOnlyMonths + mortgage.amortizationMonths;
+            if (lastPayment < mortgage.durationMonths ||
+                mortgage.scheduleType != LoanProductRegistry.ScheduleType.Balloon) {
+                mortgage.durationMonths = lastPayment;
+                mortgage.maturityTimestamp =
+                    mortgage.lastPaymentTimestamp + (lastPayment - mortgage.paymentsCount) * SECONDS_PER_MONTH;
+            }
+        }
+        
+        emit PrincipalPrepaid(
+            propertyId,
+            msg.sender,
+            amount,
+            mode,
+            mortgage.monthlyPayment,
+            mortgage.durationMonths
+        );
+    }
+    
+    /**
+     * @notice Reset an adjustable-rate mortgage to index + margin (callable by anyone once due)
+     * @dev Re-amortizes the outstanding principal over the remaining term at the new rate
+     * @param propertyId Property ID for the mortgage
+     */
+    function resetRate(uint256 propertyId) external nonReentrant {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(_isPerforming(mortgage), "Mortgage not active");
+        require(isAdjustable(propertyId), "Not an adjustable-rate mortgage");
+        
+        ArmTerms storage terms = armTerms[propertyId];
+        require(block.timestamp >= terms.nextResetTimestamp, "Reset not due");
+        
+        uint256 oldRateBPS = mortgage.interestRateBPS;
+        (uint256 minRateBPS, uint256 maxRateBPS) = _resetRateBounds(propertyId);
+        uint256 newRateBPS = indexOracle.getIndexRate() + terms.marginBPS;
+        if (newRateBPS < minRateBPS) newRateBPS = minRateBPS;
+        if (newRateBPS > maxRateBPS) newRateBPS = maxRateBPS;
+        
+        mortgage.interestRateBPS = newRateBPS;
+        mortgage.monthlyPayment = calculateMonthlyPayment(
+            mortgage.principalOutstanding,
+            newRateBPS,
+            _remainingAmortizingMonths(mortgage)
+        );
+        terms.nextResetTimestamp += terms.resetIntervalMonths * SECONDS_PER_MONTH;
+        _syncLoanBalance(propertyId);
+        
+        emit RateReset(propertyId, oldRateBPS, newRateBPS, mortgage.monthlyPayment, terms.nextResetTimestamp);
+    }
+    
+    /**
+     * @notice Pause payments for a borrower in hardship (servicer only)
+     * @dev Interest keeps accruing and is either capitalized or collected with the first payment afterwards.
+     *      The default clock and maturity are pushed back by the part of the forbearance period used.
+     * @param propertyId Property ID for the mortgage
+     * @param months Length of the forbearance
+     * @param capitalizeInterest Add the accrued interest to principal instead of deferring it
+     */
+    function grantForbearance(
+        uint256 propertyId,
+        uint256 months,
+        bool capitalizeInterest
+    ) external onlyServicer {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(_isPerforming(mortgage), "Mortgage not active");
+        require(months > 0 && months <= MAX_FORBEARANCE_MONTHS, "Invalid forbearance period");
+        
+        Workout storage workout = workouts[propertyId];
+        workout.forbearanceStart = block.timestamp;
+        workout.forbearanceEnd = block.timestamp + months * SECONDS_PER_MONTH;
+        workout.capitalizeInterest = capitalizeInterest;
+        
+        mortgage.status = MortgageStatus.Forbearance;
+        mortgage.maturityTimestamp += months * SECONDS_PER_MONTH;
+        
+        emit ForbearanceGranted(propertyId, msg.sender, months, capitalizeInterest, workout.forbearanceEnd);
+    }
+    
+    /**
+     * @notice Resume payments once forbearance is over (anyone after the end date, servicers any time)
+     * @param propertyId Property ID for the mortgage
+     */
+    function endForbearance(uint256 propertyId) external {
+        require(mortgages[propertyId].status == MortgageStatus.Forbearance, "Not in forbearance");
+        require(block.timestamp >= workouts[propertyId].forbearanceEnd || servicers[msg.sender], "Forbearance not over");
+        _endForbearance(propertyId);
+    }
+    
+    /**
+     * @dev Lets payments and default checks go ahead on a loan whose forbearance ran out without being ended
+     */
+    function _endExpiredForbearance(uint256 propertyId) internal {
+        if (
+            mortgages[propertyId].status == MortgageStatus.Forbearance &&
+            block.timestamp >= workouts[propertyId].forbearanceEnd
+        ) {
+            _endForbearance(propertyId);
+        }
+    }
+    
+    /**
+     * @dev Forbearance stops at the scheduled end even if ended later, and maturity gives back any months
+     *      not used. Interest is accrued from the last payment, covering any unpaid time before forbearance.
+     */
+    function _endForbearance(uint256 propertyId) internal {
+        Mortgage storage mortgage = mortgages[propertyId];
+        Workout storage workout = workouts[propertyId];
+        uint256 end = Math.min(block.timestamp, workout.forbearanceEnd);
+        mortgage.maturityTimestamp -= workout.forbearanceEnd - end;
+        
+        uint256 accruedInterest = (mortgage.principalOutstanding *
+            MortgageMath.monthlyRateWad(mortgage.interestRateBPS) *
+            (end - mortgage.lastPaymentTimestamp)) / (WAD * SECONDS_PER_MONTH);
+        
+        if (workout.capitalizeInterest) {
+            mortgage.principalOutstanding += accruedInterest;
+            mortgagePool.capitalizeInterest(accruedInterest);
+            mortgage.monthlyPayment = calculateMonthlyPayment(
+                mortgage.principalOutstanding,
+                mortgage.interestRateBPS,
+                _remainingAmortizingMonths(mortgage)
+            );
+            _updateOwnership(mortgage);
+            _syncLoanBalance(propertyId);
+        } else {
+            workout.deferredInterest += accruedInterest;
+        }
+        
+        // Restart the payment and default clocks
+        mortgage.status = workout.modifiedTimestamp > 0 ? MortgageStatus.Modified : MortgageStatus.Active;
+        mortgage.lastPaymentTimestamp = end;
+        workout.forbearanceEnd = end;
+        
+        emit ForbearanceEnded(
+            propertyId,
+            accruedInterest,
+            workout.capitalizeInterest,
+            mortgage.principalOutstanding,
+            mortgage.monthlyPayment
+        );
+    }
+    
+    /**
+     * @notice Modify a loan's rate and remaining term, re-amortizing the balance (servicer only)
+     * @dev The modified loan is fully amortizing at a fixed rate; any IO period, balloon or ARM terms are dropped
+     * @param propertyId Property ID for the mortgage
+     * @param newRateBPS New annual interest rate in basis points
+     * @param remainingMonths Payments left under the modified terms
+     */
+    function modifyLoan(
+        uint256 propertyId,
+        uint256 newRateBPS,
+        uint256 remainingMonths
+    ) external onlyServicer {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(_isPerforming(mortgage), "Mortgage not active");
+        require(newRateBPS <= 2000, "Rate too high (max 20%)");
+        require(remainingMonths > 0, "Invalid term");
         
-        // Update ownership percentage
-        mortgage.ownershipSharesBPS = (mortgage.totalPaid * BASIS_POINTS) / mortgage.propertyValue;
-        if (mortgage.ownershipSharesBPS > BASIS_POINTS) {
-            mortgage.ownershipSharesBPS = BASIS_POINTS;
+        // Keep the original terms from before the first modification
+        Workout storage workout = workouts[propertyId];
+        if (workout.modifiedTimestamp == 0) {
+            workout.originalRateBPS = mortgage.interestRateBPS;
+            workout.originalDurationMonths = mortgage.durationMonths;
+            workout.originalMonthlyPayment = mortgage.monthlyPayment;
         }
+        workout.modifiedTimestamp = block.timestamp;
+        
+        uint256 oldRateBPS = mortgage.interestRateBPS;
+        mortgage.interestRateBPS = newRateBPS;
+        mortgage.durationMonths = mortgage.paymentsCount + remainingMonths;
+        mortgage.scheduleType = LoanProductRegistry.ScheduleType.Amortizing;
+        mortgage.interestOnlyMonths = 0;
+        mortgage.amortizationMonths = mortgage.durationMonths;
+        mortgage.monthlyPayment = calculateMonthlyPayment(mortgage.principalOutstanding, newRateBPS, remainingMonths);
+        mortgage.maturityTimestamp = mortgage.lastPaymentTimestamp + remainingMonths * SECONDS_PER_MONTH;
+        mortgage.status = MortgageStatus.Modified;
+        delete armTerms[propertyId];
+        _syncLoanBalance(propertyId);
+        
+        emit LoanModified(
+            propertyId,
+            msg.sender,
+            oldRateBPS,
+            newRateBPS,
+            mortgage.durationMonths,
+            mortgage.monthlyPayment
+        );
+    }
+    
+    /**
+     * @notice Rate range allowed at the next reset after per-reset and lifetime caps
+     */
+    function _resetRateBounds(uint256 propertyId) internal view returns (uint256 minRateBPS, uint256 maxRateBPS) {
+        ArmTerms storage terms = armTerms[propertyId];
+        uint256 currentRateBPS = mortgages[propertyId].interestRateBPS;
+        
+        // Per-reset cap around the current rate
+        minRateBPS = currentRateBPS > terms.perResetCapBPS ? currentRateBPS - terms.perResetCapBPS : 0;
+        maxRateBPS = currentRateBPS + terms.perResetCapBPS;
         
-        // Send payment to pool
-        mortgagePool.receiveMortgagePayment{value: msg.value}(principalPayment, interestPayment);
+        // Lifetime cap around the initial rate
+        uint256 lifetimeFloor = terms.initialRateBPS > terms.lifetimeCapBPS
+            ? terms.initialRateBPS - terms.lifetimeCapBPS
+            : 0;
+        uint256 lifetimeCeiling = terms.initialRateBPS + terms.lifetimeCapBPS;
+        if (minRateBPS < lifetimeFloor) minRateBPS = lifetimeFloor;
+        if (maxRateBPS > lifetimeCeiling) maxRateBPS = lifetimeCeiling;
+    }
+    
+    /**
+     * @notice Record a payment against a mortgage and forward it to the pool
+     * @param propertyId Property ID for the mortgage
+     * @param principal Portion reducing the outstanding principal
+     * @param interest Portion paying accrued interest
+     * @param fees Portion paying late fees
+     */
+    function _applyPayment(
+        uint256 propertyId,
+        uint256 principal,
+        uint256 interest,
+        uint256 fees
+    ) internal {
+        Mortgage storage mortgage = mortgages[propertyId];
+        uint256 amount = principal + interest + fees;
+        
+        // Update mortgage state
+        mortgage.totalPaid += amount;
+        mortgage.principalOutstanding -= principal;
+        mortgage.interestPaid += interest;
+        mortgage.feesPaid += fees;
         
-        emit PaymentReceived(propertyId, msg.sender, msg.value, mortgage.ownershipSharesBPS);
+        _updateOwnership(mortgage);
+        
+        // Send payment to pool (fees are income for LPs, like interest)
+        mortgagePool.receiveMortgagePayment(principal, interest + fees);
+        _syncLoanBalance(propertyId);
+        
+        emit PaymentReceived(
+            propertyId,
+            mortgage.borrower,
+            amount,
+            principal,
+            interest,
+            fees,
+            mortgage.principalOutstanding,
+            mortgage.ownershipSharesBPS
+        );
         
         // Check if mortgage is paid off
-        if (mortgage.ownershipSharesBPS >= BASIS_POINTS || 
-            mortgage.paymentsCount >= mortgage.durationMonths) {
+        if (mortgage.principalOutstanding == 0) {
             _completeMortgage(propertyId);
         }
     }
     
+    /**
+     * @notice Ownership is the borrower's equity: property value not covered by outstanding principal
+     * @dev None once capitalized forbearance interest pushes the balance above the value
+     */
+    function _updateOwnership(Mortgage storage mortgage) internal {
+        mortgage.ownershipSharesBPS = mortgage.propertyValue > mortgage.principalOutstanding
+            ? ((mortgage.propertyValue - mortgage.principalOutstanding) * BASIS_POINTS) / mortgage.propertyValue
+            : 0;
+    }
+    
+    /**
+     * @notice Report the loan's balance to the pool's forward yield estimate and the insurance fund's coverage,
+     *         and rebalance the property's shares to the borrower's equity
+     * @dev Loans that stop performing are reported with no principal
+     */
+    function _syncLoanBalance(uint256 propertyId) internal {
+        Mortgage storage mortgage = mortgages[propertyId];
+        uint256 principal = _isPerforming(mortgage) ? mortgage.principalOutstanding : 0;
+        mortgagePool.updateLoanRate(propertyId, principal, mortgage.interestRateBPS);
+        insuranceFund.updateCoverage(propertyId, principal);
+        propertyShares.updateEquity(propertyId, mortgage.borrower, mortgage.ownershipSharesBPS);
+    }
+    
     /**
      * @notice Complete a fully paid mortgage
      */
@@ -230,22 +958,60 @@ contract MortgageManager is Ownable, ReentrancyGuard {
         mortgage.ownershipSharesBPS = BASIS_POINTS; // 100% ownership
         totalActiveMortgages--;
         
-        // Property NFT already belongs to borrower, now with full ownership
+        // Property NFT already belongs to borrower, now free and clear
+        propertyNFT.releaseLien(propertyId, _releaseCertificateHash(propertyId));
+        
+        // Leftover escrow goes back to the borrower, who now pays taxes and insurance directly
+        _refundEscrow(propertyId);
         
         emit MortgageCompleted(propertyId, mortgage.borrower);
     }
     
+    /**
+     * @notice Close a loan's escrow account, returning what is left to the borrower
+     */
+    function _refundEscrow(uint256 propertyId) internal {
+        EscrowAccount storage escrow = escrowAccounts[propertyId];
+        uint256 escrowBalance = escrow.balance;
+        escrow.monthlyEscrow = 0;
+        if (escrowBalance > 0) {
+            escrow.balance = 0;
+            totalEscrowBalances -= escrowBalance;
+            asset.safeTransfer(mortgages[propertyId].borrower, escrowBalance);
+        }
+    }
+    
+    /**
+     * @notice Hash of the lien release certificate recorded on the property when a loan is paid off
+     * @dev Certifies who repaid which loan and when: keccak256(manager, propertyId, borrower, loanAmount, totalPaid, releaseTime)
+     */
+    function _releaseCertificateHash(uint256 propertyId) internal view returns (bytes32) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        return keccak256(
+            abi.encode(
+                address(this),
+                propertyId,
+                mortgage.borrower,
+                mortgage.loanAmount,
+                mortgage.totalPaid,
+                block.timestamp
+            )
+        );
+    }
+    
     /**
      * @notice Check for defaulted mortgages (callable by anyone)
      * @param propertyId Property to check
      */
     function checkDefault(uint256 propertyId) external {
         Mortgage storage mortgage = mortgages[propertyId];
-        require(mortgage.status == MortgageStatus.Active, "Mortgage not active");
+        _endExpiredForbearance(propertyId);
+        require(_isPerforming(mortgage), "Mortgage not active");
         
         uint256 timeSinceLastPayment = block.timestamp - mortgage.lastPaymentTimestamp;
         
-        if (timeSinceLastPayment > DEFAULT_PERIOD) {
+        // Missing too many payments, or leaving a balance (e.g. the balloon) unpaid past maturity
+        if (timeSinceLastPayment > servicingTerms[propertyId].defaultPeriod || isPastMaturity(propertyId)) {
             _handleDefault(propertyId);
         }
     }
@@ -256,64 +1022,221 @@ contract MortgageManager is Ownable, ReentrancyGuard {
     function _handleDefault(uint256 propertyId) internal {
         Mortgage storage mortgage = mortgages[propertyId];
         
+        // Debt is quoted while the loan is still performing
+        (, uint256 remainingBalance, uint256 accruedInterest) = getPayoffQuote(propertyId);
+        uint256 feesOwed = accruedInterest +
+            (mortgage.monthlyPayment * servicingTerms[propertyId].lateFeeBPS) / BASIS_POINTS;
+        
         mortgage.status = MortgageStatus.Defaulted;
         totalActiveMortgages--;
+        _syncLoanBalance(propertyId);
         
-        // Calculate remaining balance
-        uint256 paidAmount = mortgage.totalPaid - mortgage.downPayment;
-        uint256 remainingBalance = mortgage.loanAmount - paidAmount;
+        // Taxes and insurance are no longer paid through the loan; unspent escrow is the borrower's
+        _refundEscrow(propertyId);
         
-        // Use insurance pool to cover partial loss
-        if (remainingBalance > 0) {
-            uint256 insuranceCoverage = remainingBalance / 2; // Insurance covers 50%
-            if (insuranceCoverage <= mortgagePool.insuranceReserve()) {
-                mortgagePool.coverDefault(insuranceCoverage);
-            }
-        }
+        // Write the balance off now; the insurance claim and the foreclosure sale come back as recoveries
+        mortgagePool.realizeLoss(propertyId, remainingBalance);
+        (, uint256 insurancePayout) = insuranceFund.fileClaim(propertyId, remainingBalance);
         
         emit MortgageDefaulted(propertyId, mortgage.borrower);
         
         // Initiate foreclosure
-        _foreclose(propertyId);
+        _foreclose(propertyId, remainingBalance - insurancePayout, feesOwed, insurancePayout);
     }
     
     /**
-     * @notice Foreclose on defaulted property
+     * @notice Foreclose on defaulted property and auction it to repay the debt
      */
-    function _foreclose(uint256 propertyId) internal {
+    function _foreclose(
+        uint256 propertyId,
+        uint256 principalOwed,
+        uint256 feesOwed,
+        uint256 insuranceOwed
+    ) internal {
         Mortgage storage mortgage = mortgages[propertyId];
         
         mortgage.status = MortgageStatus.Foreclosed;
         
-        // Transfer property back to contract for resale
-        propertyNFT.transferFrom(mortgage.borrower, address(this), propertyId);
-        
-        // Re-list property at discounted price
-        propertyNFT.listProperty(propertyId);
+        // Hand the property to the auction, which pays the proceeds out to the pool and the borrower
+        propertyNFT.seize(propertyId, address(foreclosureAuction));
+        propertyShares.retire(propertyId, mortgage.borrower);
+        foreclosureAuction.startAuction(
+            propertyId,
+            mortgage.borrower,
+            principalOwed,
+            feesOwed,
+            insuranceOwed,
+            propertyNFT.currentValue(propertyId)
+        );
         
         emit PropertyForeclosed(propertyId, mortgage.borrower);
     }
     
     /**
-     * @notice Calculate monthly payment using amortization formula
-     * @dev Simplified calculation for hackathon
+     * @notice Calculate the level monthly payment for a loan
      */
     function calculateMonthlyPayment(
         uint256 principal,
         uint256 annualRateBPS,
         uint256 months
     ) public pure returns (uint256) {
-        if (months == 0) return 0;
+        return MortgageMath.calculateMonthlyPayment(principal, annualRateBPS, months);
+    }
+    
+    /**
+     * @notice Get the remaining amortization table for an existing mortgage
+     * @dev Built from the outstanding principal at the current rate and term, numbered from the next installment
+     */
+    function getAmortizationSchedule(
+        uint256 propertyId
+    ) external view returns (MortgageMath.AmortizationEntry[] memory schedule) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        uint256 paymentsMade = mortgage.paymentsCount;
+        schedule = MortgageMath.calculateSchedule(
+            mortgage.principalOutstanding,
+            mortgage.interestRateBPS,
+            mortgage.durationMonths - paymentsMade,
+            mortgage.interestOnlyMonths > paymentsMade ? mortgage.interestOnlyMonths - paymentsMade : 0,
+            _remainingAmortizingMonths(mortgage)
+        );
+        for (uint256 i = 0; i < schedule.length; i++) {
+            schedule[i].paymentNumber += paymentsMade;
+        }
+    }
+    
+    /**
+     * @notice Quote the interest rate for a prospective loan
+     * @dev Uses the product's rate model if it has one, otherwise the manager's
+     * @param propertyId The property NFT ID
+     * @param productId Loan product from the product registry
+     * @param downPayment Down payment the borrower would put in
+     * @param durationMonths Loan duration in months
+     * @return Annual interest rate in basis points
+     */
+    function quoteInterestRate(
+        uint256 propertyId,
+        uint256 productId,
+        uint256 downPayment,
+        uint256 durationMonths
+    ) public view returns (uint256) {
+        IRateModel model = IRateModel(productRegistry.getProduct(productId).rateModel);
+        if (address(model) == address(0)) model = rateModel;
+        if (address(model) == address(0)) return defaultInterestRateBPS;
         
-        // Monthly interest rate in basis points
-        uint256 monthlyRateBPS = annualRateBPS / 12;
+        uint256 propertyValue = propertyNFT.getProperty(propertyId).valueUSD;
+        require(downPayment <= propertyValue, "Down payment exceeds value");
+        uint256 loanAmount = propertyValue - downPayment;
+        uint256 ltvBPS = (loanAmount * BASIS_POINTS) / propertyValue;
         
-        // Simplified amortization: P * r * (1+r)^n / ((1+r)^n - 1)
-        // For demo, using simplified calculation
-        uint256 totalInterest = (principal * annualRateBPS * months) / (BASIS_POINTS * 12);
-        uint256 totalPayment = principal + totalInterest;
+        // Utilization as it would be once this loan is funded
+        uint256 poolLiquidity = mortgagePool.totalLiquidity();
+        uint256 utilizationBPS = poolLiquidity == 0
+            ? BASIS_POINTS
+            : ((mortgagePool.activeMortgages() + loanAmount) * BASIS_POINTS) / poolLiquidity;
         
-        return totalPayment / months;
+        return model.getRate(ltvBPS, durationMonths, utilizationBPS);
+    }
+    
+    /**
+     * @notice Quote the amount needed to pay off a mortgage right now
+     * @return payoffAmount Total due (principal + accrued interest)
+     * @return principal Outstanding principal
+     * @return accruedInterest Interest accrued since the last payment
+     */
+    function getPayoffQuote(uint256 propertyId) public view returns (
+        uint256 payoffAmount,
+        uint256 principal,
+        uint256 accruedInterest
+    ) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        if (!_isPerforming(mortgage)) return (0, 0, 0);
+        
+        principal = mortgage.principalOutstanding;
+        
+        // Interest accrues pro rata on the monthly rate since the last payment
+        uint256 elapsed = block.timestamp - mortgage.lastPaymentTimestamp;
+        accruedInterest = (principal * MortgageMath.monthlyRateWad(mortgage.interestRateBPS) * elapsed) /
+            (WAD * SECONDS_PER_MONTH) + workouts[propertyId].deferredInterest;
+        
+        payoffAmount = principal + accruedInterest;
+    }
+    
+    /**
+     * @notice Months left to amortize the balance at the level payment
+     */
+    function _remainingAmortizingMonths(Mortgage storage mortgage) internal view returns (uint256) {
+        uint256 amortizationStart = mortgage.paymentsCount > mortgage.interestOnlyMonths
+            ? mortgage.paymentsCount
+            : mortgage.interestOnlyMonths;
+        return mortgage.interestOnlyMonths + mortgage.amortizationMonths - amortizationStart;
+    }
+    
+    /**
+     * @notice Check if a mortgage has adjustable-rate terms
+     */
+    function isAdjustable(uint256 propertyId) public view returns (bool) {
+        return armTerms[propertyId].resetIntervalMonths > 0;
+    }
+    
+    /**
+     * @notice Get the adjustable-rate terms of a mortgage
+     */
+    function getArmTerms(uint256 propertyId) external view returns (ArmTerms memory) {
+        return armTerms[propertyId];
+    }
+    
+    /**
+     * @notice Get a loan's forbearance and modification record
+     */
+    function getWorkout(uint256 propertyId) external view returns (Workout memory) {
+        return workouts[propertyId];
+    }
+    
+    /**
+     * @notice Get a loan's tax and insurance escrow account
+     */
+    function getEscrowAccount(uint256 propertyId) external view returns (EscrowAccount memory) {
+        return escrowAccounts[propertyId];
+    }
+    
+    /**
+     * @notice Get every disbursement paid out of a loan's escrow
+     */
+    function getEscrowDisbursements(uint256 propertyId) external view returns (EscrowDisbursement[] memory) {
+        return escrowDisbursements[propertyId];
+    }
+    
+    /**
+     * @notice Get the late fee and default windows of a mortgage
+     */
+    function getServicingTerms(uint256 propertyId) external view returns (ServicingTerms memory) {
+        return servicingTerms[propertyId];
+    }
+    
+    /**
+     * @notice Preview the next ARM reset: when it happens and how far rate and payment can move
+     * @return nextResetTimestamp When the next reset becomes due
+     * @return minRateBPS Lowest rate allowed by the caps
+     * @return maxRateBPS Highest rate allowed by the caps
+     * @return minPayment Monthly payment at the lowest rate
+     * @return maxPayment Monthly payment at the highest rate
+     */
+    function getNextResetPreview(uint256 propertyId) external view returns (
+        uint256 nextResetTimestamp,
+        uint256 minRateBPS,
+        uint256 maxRateBPS,
+        uint256 minPayment,
+        uint256 maxPayment
+    ) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        if (!isAdjustable(propertyId) || !_isPerforming(mortgage)) return (0, 0, 0, 0, 0);
+        
+        nextResetTimestamp = armTerms[propertyId].nextResetTimestamp;
+        (minRateBPS, maxRateBPS) = _resetRateBounds(propertyId);
+        
+        uint256 remainingMonths = _remainingAmortizingMonths(mortgage);
+        minPayment = calculateMonthlyPayment(mortgage.principalOutstanding, minRateBPS, remainingMonths);
+        maxPayment = calculateMonthlyPayment(mortgage.principalOutstanding, maxRateBPS, remainingMonths);
     }
     
     /**
@@ -330,6 +1253,13 @@ contract MortgageManager is Ownable, ReentrancyGuard {
         return mortgages[propertyId].ownershipSharesBPS / 100; // Return as percentage (0-100)
     }
     
+    /**
+     * @notice Loan-to-value against the property's latest appraisal, in basis points
+     */
+    function getLoanToValue(uint256 propertyId) external view returns (uint256) {
+        return (mortgages[propertyId].principalOutstanding * BASIS_POINTS) / propertyNFT.currentValue(propertyId);
+    }
+    
     /**
      * @notice Get all mortgages for a borrower
      */
@@ -337,15 +1267,54 @@ contract MortgageManager is Ownable, ReentrancyGuard {
         return borrowerMortgages[borrower];
     }
     
+    /**
+     * @notice Check if a pending application is past its review window
+     */
+    function isApplicationExpired(uint256 propertyId) public view returns (bool) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        if (mortgage.status != MortgageStatus.Applied) return false;
+        return block.timestamp > mortgage.appliedTimestamp + APPLICATION_EXPIRY;
+    }
+    
+    /**
+     * @notice Get property IDs with applications awaiting underwriting
+     */
+    function getPendingApplications() external view returns (uint256[] memory) {
+        uint256 total = propertyNFT.totalProperties();
+        uint256[] memory pending = new uint256[](total);
+        uint256 count = 0;
+        
+        for (uint256 i = 0; i < total; i++) {
+            if (mortgages[i].status == MortgageStatus.Applied) {
+                pending[count++] = i;
+            }
+        }
+        
+        // Trim to the number of pending applications
+        assembly {
+            mstore(pending, count)
+        }
+        return pending;
+    }
+    
     /**
      * @notice Check if payment is overdue
      */
     function isPaymentOverdue(uint256 propertyId) external view returns (bool) {
-        Mortgage memory mortgage = mortgages[propertyId];
-        if (mortgage.status != MortgageStatus.Active) return false;
+        Mortgage storage mortgage = mortgages[propertyId];
+        if (!_isPerforming(mortgage)) return false;
         
         uint256 timeSinceLastPayment = block.timestamp - mortgage.lastPaymentTimestamp;
-        return timeSinceLastPayment > SECONDS_PER_MONTH;
+        return timeSinceLastPayment > SECONDS_PER_MONTH || block.timestamp > mortgage.maturityTimestamp;
+    }
+    
+    /**
+     * @notice Check if an active mortgage is still unpaid after maturity plus the grace period
+     */
+    function isPastMaturity(uint256 propertyId) public view returns (bool) {
+        Mortgage storage mortgage = mortgages[propertyId];
+        if (!_isPerforming(mortgage)) return false;
+        return block.timestamp > mortgage.maturityTimestamp + servicingTerms[propertyId].gracePeriod;
     }
     
     /**
@@ -356,6 +1325,173 @@ contract MortgageManager is Ownable, ReentrancyGuard {
         defaultInterestRateBPS = rateBPS;
     }
     
+    /**
+     * @notice Set the rate model used to price new loans (owner only)
+     * @param _rateModel Rate model address, or address(0) to use the default rate
+     */
+    function setRateModel(address _rateModel) external onlyOwner {
+        rateModel = IRateModel(_rateModel);
+        emit RateModelUpdated(_rateModel);
+    }
+    
+    /**
+     * @notice Set the index oracle used for ARM resets (owner only)
+     */
+    function setIndexOracle(address _indexOracle) external onlyOwner {
+        indexOracle = IIndexOracle(_indexOracle);
+        emit IndexOracleUpdated(_indexOracle);
+    }
+    
+    /**
+     * @notice Set the registry of loan products borrowers can apply for (owner only)
+     */
+    function setProductRegistry(address _productRegistry) external onlyOwner {
+        productRegistry = LoanProductRegistry(_productRegistry);
+        emit ProductRegistryUpdated(_productRegistry);
+    }
+    
+    /**
+     * @notice Set the auction that sells foreclosed properties (owner only)
+     */
+    function setForeclosureAuction(address _foreclosureAuction) external onlyOwner {
+        foreclosureAuction = IForeclosureAuction(_foreclosureAuction);
+        emit ForeclosureAuctionUpdated(_foreclosureAuction);
+    }
+    
+    /**
+     * @notice Set the fund that collects premiums and pays default claims (owner only)
+     */
+    function setInsuranceFund(address _insuranceFund) external onlyOwner {
+        insuranceFund = IInsuranceFund(_insuranceFund);
+        asset.forceApprove(_insuranceFund, type(uint256).max);
+        emit InsuranceFundUpdated(_insuranceFund);
+    }
+    
+    /**
+     * @notice Set the fractional share token kept in line with each borrower's equity (owner only)
+     */
+    function setPropertyShares(address _propertyShares) external onlyOwner {
+        propertyShares = IPropertyShares(_propertyShares);
+        emit PropertySharesUpdated(_propertyShares);
+    }
+    
+    /**
+     * @notice Pay a tax or insurance bill out of a loan's escrow (owner only)
+     * @param propertyId Property ID for the mortgage
+     * @param payee Tax authority or insurer receiving the funds
+     * @param amount Amount to disburse
+     * @param memo What the disbursement covers (e.g. "2025 county property tax")
+     */
+    function disburseEscrow(
+        uint256 propertyId,
+        address payee,
+        uint256 amount,
+        string calldata memo
+    ) external onlyOwner nonReentrant {
+        EscrowAccount storage escrow = escrowAccounts[propertyId];
+        require(payee != address(0), "Invalid payee");
+        require(amount > 0 && amount <= escrow.balance, "Insufficient escrow balance");
+        
+        escrow.balance -= amount;
+        totalEscrowBalances -= amount;
+        escrowDisbursements[propertyId].push(EscrowDisbursement({
+            payee: payee,
+            amount: amount,
+            memo: memo,
+            timestamp: block.timestamp
+        }));
+        
+        asset.safeTransfer(payee, amount);
+        
+        emit EscrowDisbursed(propertyId, payee, amount, memo, escrow.balance);
+    }
+    
+    /**
+     * @notice Run the annual escrow analysis and reset the escrow part of the payment (owner only)
+     * @dev The first analysis sets up escrow and can run any time; later ones are at most yearly.
+     *      Shortages against the cushion are spread over the next 12 payments; surpluses are refunded.
+     * @param propertyId Property ID for the mortgage
+     * @param annualTaxes Projected property taxes for the coming year
+     * @param annualInsurance Projected hazard insurance premium for the coming year
+     */
+    function runEscrowAnalysis(
+        uint256 propertyId,
+        uint256 annualTaxes,
+        uint256 annualInsurance
+    ) external onlyOwner nonReentrant {
+        Mortgage storage mortgage = mortgages[propertyId];
+        require(_isPerforming(mortgage), "Mortgage not active");
+        
+        EscrowAccount storage escrow = escrowAccounts[propertyId];
+        require(
+            escrow.lastAnalysisTimestamp == 0 ||
+                block.timestamp >= escrow.lastAnalysisTimestamp + ESCROW_ANALYSIS_INTERVAL,
+            "Analysis not due"
+        );
+        
+        uint256 annualDisbursements = annualTaxes + annualInsurance;
+        uint256 cushion = (annualDisbursements * ESCROW_CUSHION_MONTHS) / 12;
+        uint256 shortage = 0;
+        uint256 surplus = 0;
+        if (escrow.balance < cushion) {
+            shortage = cushion - escrow.balance;
+        } else {
+            surplus = escrow.balance - cushion;
+        }
+        
+        escrow.annualTaxes = annualTaxes;
+        escrow.annualInsurance = annualInsurance;
+        escrow.monthlyEscrow = (annualDisbursements + shortage) / 12;
+        escrow.lastAnalysisTimestamp = block.timestamp;
+        
+        if (surplus > 0) {
+            escrow.balance -= surplus;
+            totalEscrowBalances -= surplus;
+            asset.safeTransfer(mortgage.borrower, surplus);
+        }
+        
+        emit EscrowAnalyzed(propertyId, annualDisbursements, escrow.monthlyEscrow, shortage, surplus);
+    }
+    
+    /**
+     * @notice Authorize an address to underwrite applications (only owner)
+     */
+    function authorizeUnderwriter(address underwriter) external onlyOwner {
+        underwriters[underwriter] = true;
+        emit UnderwriterUpdated(underwriter, true);
+    }
+    
+    /**
+     * @notice Revoke underwriting authorization
+     */
+    function revokeUnderwriter(address underwriter) external onlyOwner {
+        underwriters[underwriter] = false;
+        emit UnderwriterUpdated(underwriter, false);
+    }
+    
+    /**
+     * @notice Authorize an address to grant forbearance and modify loans (only owner)
+     */
+    function authorizeServicer(address servicer) external onlyOwner {
+        servicers[servicer] = true;
+        emit ServicerUpdated(servicer, true);
+    }
+    
+    /**
+     * @notice Revoke servicing authorization
+     */
+    function revokeServicer(address servicer) external onlyOwner {
+        servicers[servicer] = false;
+        emit ServicerUpdated(servicer, false);
+    }
+    
+    /**
+     * @notice Loans in good standing: active, including servicer-modified ones
+     */
+    function _isPerforming(Mortgage storage mortgage) internal view returns (bool) {
+        return mortgage.status == MortgageStatus.Active || mortgage.status == MortgageStatus.Modified;
+    }
+    
     // Receive function to accept property NFTs
     function onERC721Received(
         address,
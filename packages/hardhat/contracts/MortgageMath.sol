@@ -0,0 +1,146 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+/**
+ * @title MortgageMath
+ * @notice Fixed-point amortization math shared by MortgageManager and the frontend
+ * @dev Deployed as a linked library so MortgageManager stays under the contract size limit
+ */
+library MortgageMath {
+
+    // Single row of an amortization table
+    struct AmortizationEntry {
+        uint256 paymentNumber;
+        uint256 payment;
+        uint256 principal;
+        uint256 interest;
+        uint256 remainingBalance;
+    }
+
+    uint256 internal constant BASIS_POINTS = 10000;
+    uint256 internal constant WAD = 1e18; // Fixed-point scale for rate math
+
+    /**
+     * @notice Calculate monthly payment using amortization formula
+     * @dev Fixed-point (WAD) annuity formula: P * r * (1+r)^n / ((1+r)^n - 1)
+     */
+    function calculateMonthlyPayment(
+        uint256 principal,
+        uint256 annualRateBPS,
+        uint256 months
+    ) public pure returns (uint256) {
+        if (months == 0) return 0;
+
+        // Zero-rate loans are repaid in equal principal installments
+        uint256 monthlyRate = monthlyRateWad(annualRateBPS);
+        if (monthlyRate == 0) return principal / months;
+
+        uint256 growth = _wadPow(WAD + monthlyRate, months); // (1+r)^n
+        return (principal * ((monthlyRate * growth) / WAD)) / (growth - WAD);
+    }
+
+    /**
+     * @notice Split a payment into principal and interest for the current balance
+     * @param balance Outstanding principal before the payment
+     * @param annualRateBPS Annual interest rate in basis points
+     * @param payment Amount paid this period
+     * @return principal Portion of the payment that reduces the balance
+     * @return interest Interest accrued on the balance for one period
+     */
+    function calculatePaymentBreakdown(
+        uint256 balance,
+        uint256 annualRateBPS,
+        uint256 payment
+    ) public pure returns (uint256 principal, uint256 interest) {
+        interest = monthlyInterest(balance, annualRateBPS);
+        if (interest > payment) interest = payment;
+        principal = payment - interest;
+    }
+
+    /**
+     * @notice Build the payment table for interest-only, balloon or fully amortizing terms
+     * @param durationMonths Months until maturity
+     * @param interestOnlyMonths Leading interest-only payments
+     * @param amortizationMonths Months the level payment is sized over after the interest-only period
+     * @dev The final payment clears the remaining balance, which is the balloon when amortization runs past maturity
+     */
+    function calculateSchedule(
+        uint256 principal,
+        uint256 annualRateBPS,
+        uint256 durationMonths,
+        uint256 interestOnlyMonths,
+        uint256 amortizationMonths
+    ) public pure returns (AmortizationEntry[] memory schedule) {
+        schedule = new AmortizationEntry[](durationMonths);
+        uint256 payment = calculateMonthlyPayment(principal, annualRateBPS, amortizationMonths);
+        uint256 balance = principal;
+
+        for (uint256 i = 0; i < durationMonths; i++) {
+            // Interest-only installments leave the principal untouched
+            uint256 periodPayment = i < interestOnlyMonths ? monthlyInterest(balance, annualRateBPS) : payment;
+            (uint256 principalPart, uint256 interestPart) = calculatePaymentBreakdown(
+                balance,
+                annualRateBPS,
+                periodPayment
+            );
+            if (principalPart > balance || i == durationMonths - 1) {
+                principalPart = balance;
+            }
+            balance -= principalPart;
+
+            schedule[i] = AmortizationEntry({
+                paymentNumber: i + 1,
+                payment: principalPart + interestPart,
+                principal: principalPart,
+                interest: interestPart,
+                remainingBalance: balance
+            });
+        }
+    }
+
+    /**
+     * @notice Count the payments needed to clear a balance at a fixed payment
+     * @param maxPayments Payments left on the current schedule; the count never runs past it
+     */
+    function countRemainingPayments(
+        uint256 balance,
+        uint256 annualRateBPS,
+        uint256 payment,
+        uint256 maxPayments
+    ) public pure returns (uint256 count) {
+        while (balance > 0 && count < maxPayments) {
+            (uint256 principalPart, ) = calculatePaymentBreakdown(balance, annualRateBPS, payment);
+            require(principalPart > 0, "Payment does not cover interest");
+            balance = principalPart >= balance ? 0 : balance - principalPart;
+            count++;
+        }
+    }
+
+    /**
+     * @notice Interest accrued on a balance over one month
+     */
+    function monthlyInterest(uint256 balance, uint256 annualRateBPS) internal pure returns (uint256) {
+        return (balance * monthlyRateWad(annualRateBPS)) / WAD;
+    }
+
+    /**
+     * @notice Convert an annual rate in basis points to a monthly WAD rate
+     */
+    function monthlyRateWad(uint256 annualRateBPS) internal pure returns (uint256) {
+        return (annualRateBPS * WAD) / (BASIS_POINTS * 12);
+    }
+
+    /**
+     * @notice Raise a WAD number to an integer power (exponentiation by squaring)
+     */
+    function _wadPow(uint256 base, uint256 exponent) private pure returns (uint256 result) {
+        result = WAD;
+        while (exponent > 0) {
+            if (exponent % 2 == 1) {
+                result = (result * base) / WAD;
+            }
+            base = (base * base) / WAD;
+            exponent /= 2;
+        }
+    }
+}
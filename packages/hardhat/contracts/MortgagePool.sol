@@ -1,168 +1,566 @@
 //SPDX-License-Identifier: MIT
 pragma solidity >=0.8.0 <0.9.0;
 
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 
 /**
  * @title MortgagePool
  * @notice Liquidity pool where providers deposit funds to finance mortgages
- * @dev Simplified version using ETH instead of stablecoins for hackathon demo
+ * @dev ERC-4626 vault with transferable LP share tokens. The asset (e.g. USDC) is chosen at deploy
+ *      time and is also what mortgages are funded and repaid in.
+ *
+ *      Liquidity is split into two tranches. The ERC-4626 shares are the junior tranche: they absorb
+ *      default losses first and take whatever interest is left after the senior tranche. Senior shares
+ *      are tracked by the pool (not transferable) and earn a capped target yield, paid first out of
+ *      every interest repayment.
+ *
+ *      The pool also holds the financed share of each mortgaged property's PropertyShares tokens.
  */
-contract MortgagePool is Ownable, ReentrancyGuard {
+contract MortgagePool is ERC4626, ERC1155Holder, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
     
     // Pool state
-    uint256 public totalLiquidity; // Total ETH in pool
-    uint256 public totalShares; // Total LP shares issued
-    uint256 public insuranceReserve; // 2% of deposits for insurance
-    uint256 public activeMortgages; // Total ETH locked in active mortgages
+    uint256 public totalLiquidity; // Pool value: idle assets plus principal lent out
+    uint256 public activeMortgages; // Total assets locked in active mortgages
     uint256 public totalInterestEarned; // Cumulative interest earned
     
-    // LP tracking
-    mapping(address => uint256) public lpShares; // LP address => shares
-    mapping(address => uint256) public lpDepositTimestamp; // For calculating yield
+    enum Tranche {
+        Junior,
+        Senior
+    }
+    
+    // Senior tranche; the junior tranche is everything else in totalLiquidity
+    uint256 public seniorAssets; // Senior principal plus the target yield paid to it
+    uint256 public totalSeniorShares;
+    mapping(address => uint256) public seniorShares;
+    uint256 public seniorTargetAPYBPS = 500; // Capped yield the senior tranche earns before the junior
+    uint256 public seniorInterestOwed; // Target yield accrued but not yet covered by interest repayments
+    uint256 public lastSeniorAccrual;
+    
+    // Defaulted principal written off against LP capital, and what later resales brought back
+    uint256 public totalPrincipalFunded; // Principal ever lent, the base of the cumulative loss ratio
+    uint256 public totalLossesAbsorbed; // Losses written off against LP capital, across both tranches
+    uint256 public totalRecoveries; // Written-off principal repaid by insurance claims and foreclosure sales
+    uint256 public unrecoveredSeniorLosses; // Senior write-downs not yet restored by recoveries
+    
+    // Pool history for realized yields and share price charts, recorded at most once per interval
+    struct Checkpoint {
+        uint256 timestamp;
+        uint256 sharePrice; // Junior (ERC-4626) share price, assets per 10**decimals() shares
+        uint256 seniorSharePrice; // Senior share price, assets per 10**decimals() shares
+        uint256 totalInterestEarned;
+        uint256 cumulativeLiquiditySeconds;
+    }
+    
+    Checkpoint[] internal checkpoints;
+    uint256 public cumulativeLiquiditySeconds; // Sum of totalLiquidity x seconds held, for time-weighted yields
+    uint256 public lastLiquidityUpdate;
+    
+    // Active loans' balances and rates, for the forward-looking yield estimate
+    struct LoanRate {
+        uint256 principal;
+        uint256 rateBPS;
+    }
+    
+    mapping(address => mapping(uint256 => LoanRate)) internal loanRates; // manager => loan ID => rate
+    uint256 public ratedPrincipal; // Principal of loans reported through updateLoanRate
+    uint256 public rateWeightedPrincipal; // Sum of principal x rate (BPS) over those loans
+    
+    // Withdrawal queue for LPs waiting on capital lent out to borrowers
+    struct WithdrawalRequest {
+        address owner;
+        Tranche tranche;
+        uint256 shares; // Shares locked in the pool until settlement
+        uint256 assets; // Assets set aside at settlement, priced at the settlement share price
+        uint256 requestedTimestamp;
+        uint256 settledTimestamp; // 0 while queued
+        bool claimed;
+    }
+    
+    WithdrawalRequest[] internal withdrawalRequests;
+    mapping(address => uint256[]) internal ownerWithdrawalRequests;
+    uint256 public nextRequestToSettle; // Head of the FIFO queue
+    uint256 public queuedShares; // Junior shares locked in unsettled requests
+    uint256 public queuedSeniorShares; // Senior shares locked in unsettled requests
+    uint256 public claimableAssets; // Assets held for settled requests not yet claimed
+    
+    // Principal repayment rate, used to estimate queue wait times
+    uint256 public totalPrincipalRepaid;
+    uint256 public firstFundingTimestamp;
     
     // Constants
-    uint256 public constant INSURANCE_RATE = 200; // 2% in basis points (200/10000)
     uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_SETTLEMENTS_PER_CALL = 10; // Bounds the gas added to borrower payments
+    uint256 public constant MAX_SENIOR_TARGET_APY = 2000; // 20% in basis points
+    uint256 public constant SECONDS_PER_YEAR = 365 days;
+    uint256 public constant CHECKPOINT_INTERVAL = 1 days;
     
     // Authorized contracts (MortgageManager can borrow from pool)
     mapping(address => bool) public authorizedBorrowers;
     
+    // Contracts allowed to pay recoveries on written-off loans (the foreclosure auction)
+    mapping(address => bool) public recoverySources;
+    
+    // Contracts allowed to pay insurance claims on written-off loans (the insurance fund)
+    mapping(address => bool) public insurers;
+    
     // Events
-    event LiquidityDeposited(address indexed provider, uint256 amount, uint256 shares);
-    event LiquidityWithdrawn(address indexed provider, uint256 amount, uint256 shares);
-    event MortgageFunded(address indexed borrower, uint256 amount);
+    event MortgageFunded(address indexed recipient, uint256 amount);
     event MortgageRepayment(uint256 principal, uint256 interest);
-    event InsurancePayout(address indexed borrower, uint256 amount);
+    event InsurancePayoutReceived(address indexed insurer, uint256 indexed loanId, uint256 amount);
+    event InterestCapitalized(uint256 amount);
+    event ForeclosureProceedsReceived(uint256 recovery, uint256 fees);
+    event LossRealized(address indexed manager, uint256 indexed loanId, uint256 loss, uint256 juniorLoss, uint256 seniorLoss);
+    event RecoveryRecorded(uint256 indexed loanId, uint256 recovery, uint256 toSenior, uint256 toJunior);
+    event SeniorDeposit(address indexed caller, address indexed receiver, uint256 assets, uint256 shares);
+    event SeniorWithdraw(address indexed owner, address indexed receiver, uint256 assets, uint256 shares);
+    event InterestDistributed(uint256 toSenior, uint256 toJunior);
+    event SeniorTargetAPYUpdated(uint256 targetAPYBPS);
+    event CheckpointRecorded(uint256 indexed index, uint256 sharePrice, uint256 seniorSharePrice, uint256 totalInterestEarned);
+    event WithdrawalRequested(uint256 indexed requestId, address indexed owner, Tranche tranche, uint256 shares);
+    event WithdrawalSettled(uint256 indexed requestId, address indexed owner, uint256 shares, uint256 assets);
+    event WithdrawalClaimed(uint256 indexed requestId, address indexed owner, uint256 assets);
     
-    constructor() Ownable(msg.sender) {}
+    /**
+     * @param _asset ERC-20 the pool lends in, e.g. USDC
+     * @param name Share token name
+     * @param symbol Share token symbol
+     */
+    constructor(
+        IERC20 _asset,
+        string memory name,
+        string memory symbol
+    ) ERC4626(_asset) ERC20(name, symbol) Ownable(msg.sender) {
+        lastSeniorAccrual = block.timestamp;
+        lastLiquidityUpdate = block.timestamp;
+        _checkpoint();
+    }
+    
+    /**
+     * @notice Deposit with an EIP-2612 permit instead of a separate approval
+     * @dev Falls back to an existing allowance if the permit fails (e.g. it was front-run)
+     * @return shares Pool shares minted to the receiver
+     */
+    function depositWithPermit(
+        uint256 assets,
+        address receiver,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 shares) {
+        try IERC20Permit(asset()).permit(msg.sender, address(this), assets, deadline, v, r, s) {} catch {}
+        return deposit(assets, receiver);
+    }
     
     /**
-     * @notice Deposit ETH to become a liquidity provider
-     * @dev Receives ETH and mints proportional shares
+     * @notice Buy senior tranche shares
+     * @dev Senior shares earn at most the target yield and only lose value once the junior tranche is exhausted
+     * @param assets Amount of the pool asset to deposit
+     * @param receiver Address credited with the senior shares
+     * @return shares Senior shares credited
      */
-    function depositLiquidity() external payable nonReentrant {
-        require(msg.value > 0, "Must deposit ETH");
+    function depositSenior(uint256 assets, address receiver) external nonReentrant returns (uint256 shares) {
+        require(assets > 0, "Must deposit > 0");
+        _accrueSeniorInterest();
+        _checkpoint();
         
-        uint256 shares;
-        if (totalShares == 0) {
-            // First deposit: 1:1 ratio
-            shares = msg.value;
-        } else {
-            // Subsequent deposits: proportional to pool size
-            // shares = (deposit * totalShares) / totalLiquidity
-            shares = (msg.value * totalShares) / totalLiquidity;
-        }
+        shares = convertToSeniorShares(assets);
+        require(shares > 0, "Deposit too small");
+        
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), assets);
+        
+        seniorShares[receiver] += shares;
+        totalSeniorShares += shares;
+        seniorAssets += assets;
+        totalLiquidity += assets;
+        
+        emit SeniorDeposit(msg.sender, receiver, assets, shares);
+    }
+    
+    /**
+     * @notice Redeem senior tranche shares from idle liquidity
+     * @dev Use requestSeniorWithdrawal when liquidity is locked in mortgages
+     * @param shares Senior shares to redeem
+     * @param receiver Address receiving the assets
+     * @return assets Assets paid out
+     */
+    function redeemSenior(uint256 shares, address receiver) external nonReentrant returns (uint256 assets) {
+        require(shares > 0, "Must redeem > 0 shares");
+        require(seniorShares[msg.sender] >= shares, "Insufficient shares");
+        _accrueSeniorInterest();
+        _checkpoint();
+        
+        assets = _convertToSeniorAssets(shares, Math.Rounding.Floor);
+        require(assets <= availableLiquidity(), "Insufficient liquidity");
         
-        // Calculate insurance reserve (2% of deposit)
-        uint256 insuranceAmount = (msg.value * INSURANCE_RATE) / BASIS_POINTS;
-        insuranceReserve += insuranceAmount;
+        seniorShares[msg.sender] -= shares;
+        totalSeniorShares -= shares;
+        seniorAssets -= assets;
+        totalLiquidity -= assets;
         
-        // Update state
-        lpShares[msg.sender] += shares;
-        totalShares += shares;
-        totalLiquidity += msg.value;
-        lpDepositTimestamp[msg.sender] = block.timestamp;
+        IERC20(asset()).safeTransfer(receiver, assets);
         
-        emit LiquidityDeposited(msg.sender, msg.value, shares);
+        emit SeniorWithdraw(msg.sender, receiver, assets, shares);
     }
     
     /**
-     * @notice Withdraw liquidity from the pool
-     * @param shares Number of shares to redeem
+     * @notice Queue junior shares for withdrawal when liquidity is locked in mortgages
+     * @dev Shares are held by the pool and redeemed in FIFO order as principal is repaid
+     * @param shares Number of shares to queue
+     * @return requestId Withdrawal request ID
      */
-    function withdrawLiquidity(uint256 shares) external nonReentrant {
-        require(lpShares[msg.sender] >= shares, "Insufficient shares");
+    function requestWithdrawal(uint256 shares) external nonReentrant returns (uint256 requestId) {
         require(shares > 0, "Must withdraw > 0 shares");
+        require(balanceOf(msg.sender) >= shares, "Insufficient shares");
         
-        // Calculate ETH amount: (shares * totalLiquidity) / totalShares
-        uint256 ethAmount = (shares * totalLiquidity) / totalShares;
+        _transfer(msg.sender, address(this), shares);
+        queuedShares += shares;
         
-        // Ensure pool has enough liquid ETH (not locked in mortgages)
-        uint256 available = totalLiquidity - activeMortgages;
-        require(ethAmount <= available, "Insufficient liquidity (funds locked in mortgages)");
+        return _queueWithdrawal(Tranche.Junior, shares);
+    }
+    
+    /**
+     * @notice Queue senior shares for withdrawal when liquidity is locked in mortgages
+     * @dev Queued senior shares keep earning the target yield until they settle
+     * @param shares Number of senior shares to queue
+     * @return requestId Withdrawal request ID
+     */
+    function requestSeniorWithdrawal(uint256 shares) external nonReentrant returns (uint256 requestId) {
+        require(shares > 0, "Must withdraw > 0 shares");
+        require(seniorShares[msg.sender] >= shares, "Insufficient shares");
+        
+        seniorShares[msg.sender] -= shares;
+        queuedSeniorShares += shares;
+        
+        return _queueWithdrawal(Tranche.Senior, shares);
+    }
+    
+    /**
+     * @dev Records a withdrawal request for shares already locked by the caller
+     */
+    function _queueWithdrawal(Tranche tranche, uint256 shares) internal returns (uint256 requestId) {
+        requestId = withdrawalRequests.length;
+        withdrawalRequests.push(
+            WithdrawalRequest({
+                owner: msg.sender,
+                tranche: tranche,
+                shares: shares,
+                assets: 0,
+                requestedTimestamp: block.timestamp,
+                settledTimestamp: 0,
+                claimed: false
+            })
+        );
+        ownerWithdrawalRequests[msg.sender].push(requestId);
+        
+        emit WithdrawalRequested(requestId, msg.sender, tranche, shares);
+        
+        // Settles right away if idle liquidity covers everything queued ahead
+        _settleWithdrawals();
+    }
+    
+    /**
+     * @notice Collect the assets for a settled withdrawal request
+     */
+    function claimWithdrawal(uint256 requestId) external nonReentrant {
+        require(requestId < withdrawalRequests.length, "Invalid request ID");
+        WithdrawalRequest storage request = withdrawalRequests[requestId];
+        require(request.owner == msg.sender, "Not request owner");
+        require(request.settledTimestamp > 0, "Request not settled");
+        require(!request.claimed, "Already claimed");
         
-        // Update state
-        lpShares[msg.sender] -= shares;
-        totalShares -= shares;
-        totalLiquidity -= ethAmount;
+        request.claimed = true;
+        claimableAssets -= request.assets;
         
-        // Transfer ETH
-        (bool success, ) = msg.sender.call{value: ethAmount}("");
-        require(success, "ETH transfer failed");
+        IERC20(asset()).safeTransfer(msg.sender, request.assets);
         
-        emit LiquidityWithdrawn(msg.sender, ethAmount, shares);
+        emit WithdrawalClaimed(requestId, msg.sender, request.assets);
+    }
+    
+    /**
+     * @notice Settle queued withdrawals with idle liquidity (callable by anyone)
+     * @dev Repayments settle the queue automatically; this covers deposits and other inflows
+     */
+    function processWithdrawalQueue() external nonReentrant {
+        _settleWithdrawals();
+    }
+    
+    /**
+     * @notice Record a share price checkpoint if the last one is older than the interval (callable by anyone)
+     * @dev Deposits, withdrawals and repayments checkpoint automatically; calling this during quiet
+     *      periods keeps the price history continuous
+     */
+    function checkpoint() external nonReentrant {
+        _checkpoint();
+    }
+    
+    /**
+     * @notice Junior tranche value backing the ERC-4626 shares, including its part of the principal lent out
+     */
+    function totalAssets() public view override returns (uint256) {
+        return totalLiquidity - seniorAssets;
+    }
+    
+    /**
+     * @notice Senior shares a deposit of `assets` would receive
+     */
+    function convertToSeniorShares(uint256 assets) public view returns (uint256) {
+        return Math.mulDiv(assets, totalSeniorShares + 1, seniorAssets + 1, Math.Rounding.Floor);
+    }
+    
+    /**
+     * @notice Current value of `shares` senior shares
+     */
+    function convertToSeniorAssets(uint256 shares) external view returns (uint256) {
+        return _convertToSeniorAssets(shares, Math.Rounding.Floor);
+    }
+    
+    /**
+     * @notice Senior target yield accrued and not yet paid, including time since the last update
+     */
+    function pendingSeniorInterest() public view returns (uint256) {
+        uint256 elapsed = block.timestamp - lastSeniorAccrual;
+        return seniorInterestOwed + (seniorAssets * seniorTargetAPYBPS * elapsed) / (BASIS_POINTS * SECONDS_PER_YEAR);
+    }
+    
+    /**
+     * @notice Net losses (write-offs less recoveries) as a share of all principal ever lent
+     * @return Basis points of totalPrincipalFunded
+     */
+    function cumulativeLossRatioBPS() external view returns (uint256) {
+        if (totalPrincipalFunded == 0 || totalRecoveries >= totalLossesAbsorbed) return 0;
+        return ((totalLossesAbsorbed - totalRecoveries) * BASIS_POINTS) / totalPrincipalFunded;
+    }
+    
+    /**
+     * @notice Junior capital as a share of pool value: the loss buffer protecting the senior tranche
+     * @return Basis points of totalLiquidity held by the junior tranche
+     */
+    function juniorRatioBPS() external view returns (uint256) {
+        if (totalLiquidity == 0) return 0;
+        return (totalAssets() * BASIS_POINTS) / totalLiquidity;
+    }
+    
+    /**
+     * @notice Assets an LP can withdraw now, capped by liquidity not locked in mortgages
+     */
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        uint256 ownerAssets = super.maxWithdraw(owner);
+        uint256 available = availableLiquidity();
+        return ownerAssets < available ? ownerAssets : available;
+    }
+    
+    /**
+     * @notice Shares an LP can redeem now, capped by liquidity not locked in mortgages
+     */
+    function maxRedeem(address owner) public view override returns (uint256) {
+        uint256 ownerShares = super.maxRedeem(owner);
+        uint256 availableShares = _convertToShares(availableLiquidity(), Math.Rounding.Floor);
+        return ownerShares < availableShares ? ownerShares : availableShares;
     }
     
     /**
      * @notice Fund a mortgage (only callable by authorized MortgageManager)
-     * @param borrower Address receiving the funds
-     * @param amount ETH amount to lend
+     * @param recipient Address receiving the funds (the property's seller)
+     * @param amount Amount to lend
      */
-    function fundMortgage(address borrower, uint256 amount) external nonReentrant {
+    function fundMortgage(address recipient, uint256 amount) external nonReentrant {
         require(authorizedBorrowers[msg.sender], "Not authorized");
-        require(amount <= totalLiquidity - activeMortgages, "Insufficient liquidity");
+        require(amount <= availableLiquidity(), "Insufficient liquidity");
         
         activeMortgages += amount;
+        totalPrincipalFunded += amount;
+        if (firstFundingTimestamp == 0) {
+            firstFundingTimestamp = block.timestamp;
+        }
         
-        (bool success, ) = borrower.call{value: amount}("");
-        require(success, "ETH transfer failed");
+        IERC20(asset()).safeTransfer(recipient, amount);
         
-        emit MortgageFunded(borrower, amount);
+        emit MortgageFunded(recipient, amount);
     }
     
     /**
      * @notice Process mortgage payment (principal + interest)
+     * @dev Interest pays the senior tranche's accrued target yield first; the junior tranche keeps the rest
      * @param principal Principal portion of payment
      * @param interest Interest portion of payment
      */
-    function receiveMortgagePayment(uint256 principal, uint256 interest) external payable nonReentrant {
+    function receiveMortgagePayment(uint256 principal, uint256 interest) external nonReentrant {
         require(authorizedBorrowers[msg.sender], "Not authorized");
-        require(msg.value == principal + interest, "Payment amount mismatch");
         
-        // Principal reduces active mortgages
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), principal + interest);
+        
+        // Principal reduces active mortgages; it was never taken out of pool value
         activeMortgages -= principal;
         
         // Interest increases pool value for LPs
-        totalLiquidity += msg.value;
-        totalInterestEarned += interest;
+        _distributeInterest(interest);
+        totalPrincipalRepaid += principal;
         
         emit MortgageRepayment(principal, interest);
+        
+        // Repaid principal goes to LPs waiting in the withdrawal queue first
+        _settleWithdrawals();
     }
     
     /**
-     * @notice Use insurance reserve to cover defaulted mortgage
-     * @param amount Amount to cover from insurance
+     * @notice Record forbearance interest added to a loan's principal
+     * @dev No assets move: the loan balance grows by interest earned but not yet paid
+     * @param amount Interest capitalized into principal
      */
-    function coverDefault(uint256 amount) external nonReentrant {
+    function capitalizeInterest(uint256 amount) external {
         require(authorizedBorrowers[msg.sender], "Not authorized");
-        require(amount <= insuranceReserve, "Insufficient insurance reserve");
         
-        insuranceReserve -= amount;
-        activeMortgages -= amount; // Reduce active mortgages
+        activeMortgages += amount;
+        _distributeInterest(amount);
+        
+        emit InterestCapitalized(amount);
+    }
+    
+    /**
+     * @notice Write off a defaulted loan's uncovered principal (only callable by authorized managers)
+     * @dev The principal leaves active mortgages and pool value at once, junior tranche first, so share
+     *      prices never count a claim the pool may not collect. A later sale comes back as a recovery.
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param loss Principal outstanding at default
+     */
+    function realizeLoss(uint256 loanId, uint256 loss) external nonReentrant {
+        require(authorizedBorrowers[msg.sender], "Not authorized");
+        require(loss <= activeMortgages, "Loss exceeds active mortgages");
+        
+        activeMortgages -= loss;
+        (uint256 juniorLoss, uint256 seniorLoss) = _absorbLoss(loss);
+        
+        emit LossRealized(msg.sender, loanId, loss, juniorLoss, seniorLoss);
+    }
+    
+    /**
+     * @notice Receive foreclosure sale proceeds (only callable by the authorized auction)
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param recovery Written-off principal the sale repaid, restoring senior write-downs first
+     * @param fees Interest and late fees, earned by LPs
+     */
+    function receiveForeclosureProceeds(uint256 loanId, uint256 recovery, uint256 fees) external nonReentrant {
+        require(recoverySources[msg.sender], "Not a recovery source");
+        
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), recovery + fees);
         
-        emit InsurancePayout(msg.sender, amount);
+        _recordRecovery(loanId, recovery);
+        _distributeInterest(fees);
+        
+        emit ForeclosureProceedsReceived(recovery, fees);
+        
+        _settleWithdrawals();
     }
     
     /**
-     * @notice Get LP share value in ETH
-     * @param provider LP address
+     * @notice Receive an insurance claim payout for a written-off loan (only callable by the authorized fund)
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param amount Payout, recorded as a recovery
      */
-    function getShareValue(address provider) external view returns (uint256) {
-        if (lpShares[provider] == 0 || totalShares == 0) return 0;
-        return (lpShares[provider] * totalLiquidity) / totalShares;
+    function receiveInsurancePayout(uint256 loanId, uint256 amount) external nonReentrant {
+        require(insurers[msg.sender], "Not an insurer");
+        
+        IERC20(asset()).safeTransferFrom(msg.sender, address(this), amount);
+        
+        _recordRecovery(loanId, amount);
+        
+        emit InsurancePayoutReceived(msg.sender, loanId, amount);
+        
+        _settleWithdrawals();
     }
     
     /**
-     * @notice Calculate estimated APY for LPs
-     * @dev Simplified calculation for demo
+     * @notice Record a loan's outstanding principal and rate for the forward yield estimate (authorized only)
+     * @dev Reported by the manager whenever a loan is funded, repaid, repriced or leaves the book
+     * @param loanId Manager's loan identifier (the property ID)
+     * @param principal Outstanding principal; 0 once the loan stops performing
+     * @param rateBPS Current annual interest rate in basis points
+     */
+    function updateLoanRate(uint256 loanId, uint256 principal, uint256 rateBPS) external {
+        require(authorizedBorrowers[msg.sender], "Not authorized");
+        
+        LoanRate storage loan = loanRates[msg.sender][loanId];
+        ratedPrincipal = ratedPrincipal - loan.principal + principal;
+        rateWeightedPrincipal = rateWeightedPrincipal - loan.principal * loan.rateBPS + principal * rateBPS;
+        loan.principal = principal;
+        loan.rateBPS = rateBPS;
+    }
+    
+    /**
+     * @notice Principal-weighted average interest rate of active loans, in basis points
+     */
+    function weightedAverageRateBPS() public view returns (uint256) {
+        if (ratedPrincipal == 0) return 0;
+        return rateWeightedPrincipal / ratedPrincipal;
+    }
+    
+    /**
+     * @notice Forward-looking pool APY: the loans' average rate earned on the share of the pool lent out
+     * @return Basis points (e.g. 350 = 3.5%)
      */
     function estimatedAPY() external view returns (uint256) {
         if (totalLiquidity == 0) return 0;
-        // Return basis points (e.g., 350 = 3.5%)
-        // This would be calculated from historical interest in production
-        return 350; // 3.5% APY
+        return (weightedAverageRateBPS() * activeMortgages) / totalLiquidity;
+    }
+    
+    /**
+     * @notice Annualized interest earned per unit of pool value over a trailing window
+     * @dev Uses the last checkpoint at or before the window start, or the first checkpoint if the pool is younger
+     * @param window Trailing period in seconds
+     * @return Basis points (e.g. 350 = 3.5%)
+     */
+    function realizedAPY(uint256 window) public view returns (uint256) {
+        uint256 start = block.timestamp > window ? block.timestamp - window : 0;
+        Checkpoint storage from = checkpoints[_checkpointAt(start)];
+        
+        uint256 liquiditySeconds = _currentLiquiditySeconds() - from.cumulativeLiquiditySeconds;
+        if (liquiditySeconds == 0) return 0;
+        return ((totalInterestEarned - from.totalInterestEarned) * SECONDS_PER_YEAR * BASIS_POINTS) / liquiditySeconds;
+    }
+    
+    /**
+     * @notice Trailing 7, 30 and 90 day realized APYs in basis points
+     */
+    function trailingAPYs() external view returns (uint256 apy7d, uint256 apy30d, uint256 apy90d) {
+        return (realizedAPY(7 days), realizedAPY(30 days), realizedAPY(90 days));
+    }
+    
+    /**
+     * @notice Get the number of checkpoints recorded
+     */
+    function checkpointCount() external view returns (uint256) {
+        return checkpoints.length;
+    }
+    
+    /**
+     * @notice Get up to `count` checkpoints starting at `fromIndex`, oldest first
+     */
+    function getCheckpoints(uint256 fromIndex, uint256 count) external view returns (Checkpoint[] memory page) {
+        if (fromIndex >= checkpoints.length) return page;
+        if (count > checkpoints.length - fromIndex) count = checkpoints.length - fromIndex;
+        
+        page = new Checkpoint[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = checkpoints[fromIndex + i];
+        }
+    }
+    
+    /**
+     * @notice Set the senior tranche's target yield (owner only)
+     * @dev Yield already accrued at the old rate is still owed
+     */
+    function setSeniorTargetAPY(uint256 targetAPYBPS) external onlyOwner {
+        require(targetAPYBPS <= MAX_SENIOR_TARGET_APY, "Target APY too high (max 20%)");
+        _accrueSeniorInterest();
+        seniorTargetAPYBPS = targetAPYBPS;
+        emit SeniorTargetAPYUpdated(targetAPYBPS);
     }
     
     /**
@@ -181,12 +579,298 @@ contract MortgagePool is Ownable, ReentrancyGuard {
     }
     
     /**
-     * @notice Get available liquidity for new mortgages
+     * @notice Authorize a contract to pay foreclosure proceeds into the pool (only owner)
+     * @dev Grants receiveForeclosureProceeds only, not funding or loss reporting
+     * @param source Address to authorize (typically ForeclosureAuction)
      */
-    function availableLiquidity() external view returns (uint256) {
-        return totalLiquidity - activeMortgages;
+    function authorizeRecoverySource(address source) external onlyOwner {
+        recoverySources[source] = true;
     }
     
-    // Receive function to accept ETH
-    receive() external payable {}
+    /**
+     * @notice Revoke a recovery source
+     */
+    function revokeRecoverySource(address source) external onlyOwner {
+        recoverySources[source] = false;
+    }
+    
+    /**
+     * @notice Authorize a contract to pay insurance claims into the pool (only owner)
+     * @dev Grants receiveInsurancePayout only, not funding or loss reporting
+     * @param insurer Address to authorize (typically InsuranceFund)
+     */
+    function authorizeInsurer(address insurer) external onlyOwner {
+        insurers[insurer] = true;
+    }
+    
+    /**
+     * @notice Revoke an insurer
+     */
+    function revokeInsurer(address insurer) external onlyOwner {
+        insurers[insurer] = false;
+    }
+    
+    /**
+     * @notice Get available liquidity for new mortgages and instant withdrawals
+     * @dev Liquidity owed to the withdrawal queue is not available
+     */
+    function availableLiquidity() public view returns (uint256) {
+        uint256 idle = totalLiquidity - activeMortgages;
+        uint256 queued = _convertToAssets(queuedShares, Math.Rounding.Ceil) +
+            _convertToSeniorAssets(queuedSeniorShares, Math.Rounding.Ceil);
+        return idle > queued ? idle - queued : 0;
+    }
+    
+    /**
+     * @notice Get a withdrawal request
+     */
+    function getWithdrawalRequest(uint256 requestId) external view returns (WithdrawalRequest memory) {
+        require(requestId < withdrawalRequests.length, "Invalid request ID");
+        return withdrawalRequests[requestId];
+    }
+    
+    /**
+     * @notice Get every withdrawal request ID an LP has made
+     */
+    function getWithdrawalRequests(address owner) external view returns (uint256[] memory) {
+        return ownerWithdrawalRequests[owner];
+    }
+    
+    /**
+     * @notice Get the number of withdrawal requests ever made
+     */
+    function withdrawalRequestCount() external view returns (uint256) {
+        return withdrawalRequests.length;
+    }
+    
+    /**
+     * @notice Position of a request in the withdrawal queue
+     * @return position 1 for the next request to settle, 0 once settled
+     * @return assetsAhead Current value of this request and every request ahead of it
+     */
+    function getQueuePosition(uint256 requestId) public view returns (uint256 position, uint256 assetsAhead) {
+        require(requestId < withdrawalRequests.length, "Invalid request ID");
+        if (withdrawalRequests[requestId].settledTimestamp > 0) return (0, 0);
+        
+        position = requestId - nextRequestToSettle + 1;
+        uint256 juniorSharesAhead;
+        uint256 seniorSharesAhead;
+        for (uint256 i = nextRequestToSettle; i <= requestId; i++) {
+            if (withdrawalRequests[i].tranche == Tranche.Senior) {
+                seniorSharesAhead += withdrawalRequests[i].shares;
+            } else {
+                juniorSharesAhead += withdrawalRequests[i].shares;
+            }
+        }
+        assetsAhead =
+            _convertToAssets(juniorSharesAhead, Math.Rounding.Ceil) +
+            _convertToSeniorAssets(seniorSharesAhead, Math.Rounding.Ceil);
+    }
+    
+    /**
+     * @notice Estimated seconds until a request settles
+     * @dev Extrapolates the average principal repayment rate since the first loan was funded;
+     *      returns type(uint256).max when there is no repayment history yet
+     */
+    function estimatedWaitTime(uint256 requestId) external view returns (uint256) {
+        (uint256 position, uint256 assetsAhead) = getQueuePosition(requestId);
+        if (position == 0) return 0;
+        
+        uint256 idle = totalLiquidity - activeMortgages;
+        if (assetsAhead <= idle) return 0;
+        
+        uint256 elapsed = block.timestamp - firstFundingTimestamp;
+        if (totalPrincipalRepaid == 0 || elapsed == 0) return type(uint256).max;
+        
+        return ((assetsAhead - idle) * elapsed) / totalPrincipalRepaid;
+    }
+    
+    /**
+     * @dev Standard ERC-4626 deposits and mints pull assets, then update pool accounting
+     */
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+        _checkpoint();
+        super._deposit(caller, receiver, assets, shares);
+        totalLiquidity += assets;
+    }
+    
+    /**
+     * @dev Standard ERC-4626 withdrawals and redemptions pay out assets
+     */
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override {
+        _checkpoint();
+        totalLiquidity -= assets;
+        super._withdraw(caller, receiver, owner, assets, shares);
+    }
+    
+    /**
+     * @dev Settles queued requests in FIFO order while idle liquidity covers them
+     */
+    function _settleWithdrawals() internal {
+        _accrueSeniorInterest();
+        _checkpoint();
+        
+        uint256 settled;
+        while (nextRequestToSettle < withdrawalRequests.length && settled < MAX_SETTLEMENTS_PER_CALL) {
+            WithdrawalRequest storage request = withdrawalRequests[nextRequestToSettle];
+            bool isSenior = request.tranche == Tranche.Senior;
+            uint256 assets = isSenior
+                ? _convertToSeniorAssets(request.shares, Math.Rounding.Floor)
+                : _convertToAssets(request.shares, Math.Rounding.Floor);
+            if (assets > totalLiquidity - activeMortgages) break;
+            
+            if (isSenior) {
+                queuedSeniorShares -= request.shares;
+                totalSeniorShares -= request.shares;
+                seniorAssets -= assets;
+            } else {
+                _burn(address(this), request.shares);
+                queuedShares -= request.shares;
+            }
+            totalLiquidity -= assets;
+            claimableAssets += assets;
+            
+            request.assets = assets;
+            request.settledTimestamp = block.timestamp;
+            
+            emit WithdrawalSettled(nextRequestToSettle, request.owner, request.shares, assets);
+            
+            nextRequestToSettle++;
+            settled++;
+        }
+    }
+    
+    /**
+     * @dev Adds the senior target yield earned since the last update to what the tranche is owed
+     */
+    function _accrueSeniorInterest() internal {
+        seniorInterestOwed = pendingSeniorInterest();
+        lastSeniorAccrual = block.timestamp;
+    }
+    
+    /**
+     * @dev Interest waterfall: the senior tranche's owed target yield first, the remainder to the junior tranche
+     */
+    function _distributeInterest(uint256 interest) internal {
+        if (interest == 0) return;
+        _accrueSeniorInterest();
+        _checkpoint();
+        
+        uint256 toSenior = interest < seniorInterestOwed ? interest : seniorInterestOwed;
+        seniorInterestOwed -= toSenior;
+        seniorAssets += toSenior;
+        totalLiquidity += interest;
+        totalInterestEarned += interest;
+        
+        emit InterestDistributed(toSenior, interest - toSenior);
+    }
+    
+    /**
+     * @dev Loss waterfall: written off against the junior tranche until it is exhausted, then the senior
+     */
+    function _absorbLoss(uint256 loss) internal returns (uint256 juniorLoss, uint256 seniorLoss) {
+        if (loss == 0) return (0, 0);
+        _accrueSeniorInterest();
+        _checkpoint();
+        
+        uint256 juniorAssets = totalAssets();
+        juniorLoss = loss < juniorAssets ? loss : juniorAssets;
+        seniorLoss = loss - juniorLoss;
+        
+        seniorAssets -= seniorLoss;
+        unrecoveredSeniorLosses += seniorLoss;
+        totalLiquidity -= loss;
+        totalLossesAbsorbed += loss;
+    }
+    
+    /**
+     * @dev Recoveries unwind the loss waterfall: senior write-downs are restored first, the junior keeps the rest
+     */
+    function _recordRecovery(uint256 loanId, uint256 recovery) internal {
+        if (recovery == 0) return;
+        _accrueSeniorInterest();
+        _checkpoint();
+        
+        uint256 toSenior = recovery < unrecoveredSeniorLosses ? recovery : unrecoveredSeniorLosses;
+        
+        unrecoveredSeniorLosses -= toSenior;
+        seniorAssets += toSenior;
+        totalLiquidity += recovery;
+        totalRecoveries += recovery;
+        totalPrincipalRepaid += recovery;
+        
+        emit RecoveryRecorded(loanId, recovery, toSenior, recovery - toSenior);
+    }
+    
+    /**
+     * @dev Senior share price with a virtual share and asset, mirroring the ERC-4626 inflation guard
+     */
+    function _convertToSeniorAssets(uint256 shares, Math.Rounding rounding) internal view returns (uint256) {
+        return Math.mulDiv(shares, seniorAssets + 1, totalSeniorShares + 1, rounding);
+    }
+    
+    /**
+     * @dev Called before pool value changes. The state has been unchanged since the last update, so it is
+     *      recorded as a checkpoint at that time (once per interval), then liquidity-seconds are accrued.
+     *      Checkpoints therefore always hold the settled state after an earlier block's changes.
+     */
+    function _checkpoint() internal {
+        uint256 count = checkpoints.length;
+        if (
+            count == 0 ||
+            (lastLiquidityUpdate < block.timestamp &&
+                lastLiquidityUpdate >= checkpoints[count - 1].timestamp + CHECKPOINT_INTERVAL)
+        ) {
+            uint256 oneShare = 10 ** decimals();
+            checkpoints.push(
+                Checkpoint({
+                    timestamp: lastLiquidityUpdate,
+                    sharePrice: _convertToAssets(oneShare, Math.Rounding.Floor),
+                    seniorSharePrice: _convertToSeniorAssets(oneShare, Math.Rounding.Floor),
+                    totalInterestEarned: totalInterestEarned,
+                    cumulativeLiquiditySeconds: cumulativeLiquiditySeconds
+                })
+            );
+            
+            emit CheckpointRecorded(
+                count,
+                checkpoints[count].sharePrice,
+                checkpoints[count].seniorSharePrice,
+                totalInterestEarned
+            );
+        }
+        
+        cumulativeLiquiditySeconds = _currentLiquiditySeconds();
+        lastLiquidityUpdate = block.timestamp;
+    }
+    
+    /**
+     * @dev Liquidity-seconds including the time since the last update
+     */
+    function _currentLiquiditySeconds() internal view returns (uint256) {
+        return cumulativeLiquiditySeconds + totalLiquidity * (block.timestamp - lastLiquidityUpdate);
+    }
+    
+    /**
+     * @dev Index of the last checkpoint at or before `timestamp`, or 0 if every checkpoint is later
+     */
+    function _checkpointAt(uint256 timestamp) internal view returns (uint256) {
+        uint256 low = 0;
+        uint256 high = checkpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (checkpoints[mid].timestamp > timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return low > 0 ? low - 1 : 0;
+    }
 }
@@ -1,8 +1,12 @@
 //SPDX-License-Identifier: MIT
 pragma solidity >=0.8.0 <0.9.0;
 
+import "./ILienholder.sol";
+import "./IPropertyShares.sol";
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
 
 /**
  * @title PropertyNFT
@@ -10,21 +14,70 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @dev Each NFT represents a property that can be fractionalized for mortgage financing
  */
 contract PropertyNFT is ERC721, Ownable {
+    using Strings for uint256;
+    
     uint256 private _tokenIdCounter;
     
     struct Property {
         string propertyAddress;
-        uint256 valueUSD; // Property value in USD (scaled by 1e18)
+        uint256 valueUSD; // Latest appraised value in the loan currency's units (USDC, 6 decimals)
         uint256 totalShares; // Total fractional shares (e.g., 1000)
         string imageURI;
         string description;
+        uint256 bedrooms;
+        uint256 bathrooms;
         bool isListed; // Available for mortgage
         uint256 listedTimestamp;
     }
     
+    // Recorded lien, kept after release as part of the title history
+    struct Lien {
+        address lender;
+        uint256 principal; // Original loan amount secured by the property
+        uint256 recordedTimestamp;
+        uint256 releasedTimestamp; // 0 while the lien is active
+        bytes32 releaseDocumentHash; // Hash of the lien release certificate
+        bool foreclosed; // Extinguished by seizure rather than repayment
+    }
+    
+    // Valuation on record, kept as the property's appraisal history
+    struct Appraisal {
+        uint256 value; // Appraised value in the loan currency's units
+        bytes32 reportHash; // Hash of the appraisal report (zero for the value recorded at mint)
+        address appraiser;
+        uint256 timestamp;
+    }
+    
     // tokenId => Property details
     mapping(uint256 => Property) public properties;
     
+    // tokenId => lender holding a lien (address(0) when free and clear)
+    mapping(uint256 => address) public lienholders;
+    
+    // tokenId => seller paid the purchase price when the property is financed
+    mapping(uint256 => address) public sellers;
+    
+    // tokenId => every lien ever recorded, oldest first
+    mapping(uint256 => Lien[]) internal lienHistory;
+    
+    // tokenId => every valuation, oldest first
+    mapping(uint256 => Appraisal[]) internal appraisalHistory;
+    
+    // Manages appraisers and minters; kept apart from the owner, which becomes MortgageManager after deployment
+    address public roleAdmin;
+    
+    // Accounts allowed to submit appraisals
+    mapping(address => bool) public appraisers;
+    
+    // Accounts besides the owner allowed to mint and list properties (the onboarding registry)
+    mapping(address => bool) public minters;
+    
+    // Fractional shares of each property; once issued, the NFT only moves together with all of them
+    IPropertyShares public propertyShares;
+    
+    // Property values and loan balances are in USDC units
+    uint256 public constant VALUE_DECIMALS = 6;
+    
     // Events
     event PropertyMinted(
         uint256 indexed tokenId,
@@ -35,19 +88,55 @@ contract PropertyNFT is ERC721, Ownable {
     
     event PropertyListed(uint256 indexed tokenId, uint256 timestamp);
     event PropertyUnlisted(uint256 indexed tokenId);
+    event SellerRecorded(uint256 indexed tokenId, address indexed seller);
+    event LienRecorded(uint256 indexed tokenId, address indexed lender, uint256 principal, uint256 lienIndex);
+    event LienReleased(
+        uint256 indexed tokenId,
+        address indexed lender,
+        uint256 lienIndex,
+        bytes32 releaseDocumentHash
+    );
+    event PropertyAppraised(
+        uint256 indexed tokenId,
+        address indexed appraiser,
+        uint256 previousValue,
+        uint256 newValue,
+        bytes32 reportHash
+    );
+    event PropertySeized(uint256 indexed tokenId, address indexed lienholder, address indexed from, address to);
+    event RoleAdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event PropertySharesUpdated(address indexed propertyShares);
+    
+    modifier onlyMinter() {
+        require(msg.sender == owner() || minters[msg.sender], "Not a minter");
+        _;
+    }
+    
+    modifier onlyAppraiser() {
+        require(appraisers[msg.sender], "Not an appraiser");
+        _;
+    }
+    
+    modifier onlyRoleAdmin() {
+        require(msg.sender == roleAdmin, "Not the role admin");
+        _;
+    }
     
     constructor() ERC721("MortgageProperty", "MPROP") Ownable(msg.sender) {
         _tokenIdCounter = 0;
+        roleAdmin = msg.sender;
     }
     
     /**
-     * @notice Mint a new property NFT
+     * @notice Mint a new property NFT (owner or minters)
      * @param to Address to mint the NFT to (typically the MortgageManager contract)
      * @param propertyAddress Physical address of the property
-     * @param valueUSD Property value in USD (scaled by 1e18)
+     * @param valueUSD Property value in the loan currency's units (USDC, 6 decimals)
      * @param totalShares Number of fractional shares for ownership tracking
      * @param imageURI IPFS or URL for property image
      * @param description Property description
+     * @param bedrooms Number of bedrooms
+     * @param bathrooms Number of bathrooms
      */
     function mintProperty(
         address to,
@@ -55,8 +144,10 @@ contract PropertyNFT is ERC721, Ownable {
         uint256 valueUSD,
         uint256 totalShares,
         string memory imageURI,
-        string memory description
-    ) external onlyOwner returns (uint256) {
+        string memory description,
+        uint256 bedrooms,
+        uint256 bathrooms
+    ) external onlyMinter returns (uint256) {
         uint256 tokenId = _tokenIdCounter;
         _tokenIdCounter++;
         
@@ -68,9 +159,14 @@ contract PropertyNFT is ERC721, Ownable {
             totalShares: totalShares,
             imageURI: imageURI,
             description: description,
+            bedrooms: bedrooms,
+            bathrooms: bathrooms,
             isListed: false,
             listedTimestamp: 0
         });
+        appraisalHistory[tokenId].push(
+            Appraisal({value: valueUSD, reportHash: bytes32(0), appraiser: msg.sender, timestamp: block.timestamp})
+        );
         
         emit PropertyMinted(tokenId, propertyAddress, valueUSD, totalShares);
         
@@ -78,9 +174,23 @@ contract PropertyNFT is ERC721, Ownable {
     }
     
     /**
-     * @notice List property as available for mortgage
+     * @notice Record who sells a property, so the purchase price reaches them when the mortgage is funded
+     * @dev Set once, before the property is listed, so the payee can't be changed under a pending purchase
      */
-    function listProperty(uint256 tokenId) external onlyOwner {
+    function recordSeller(uint256 tokenId, address seller) external onlyMinter {
+        require(_ownerOf(tokenId) != address(0), "Property does not exist");
+        require(seller != address(0), "Invalid seller");
+        require(sellers[tokenId] == address(0), "Seller already recorded");
+        require(!properties[tokenId].isListed, "Property is listed");
+        require(lienholders[tokenId] == address(0), "Property has an active lien");
+        sellers[tokenId] = seller;
+        emit SellerRecorded(tokenId, seller);
+    }
+    
+    /**
+     * @notice List property as available for mortgage (owner or minters)
+     */
+    function listProperty(uint256 tokenId) external onlyMinter {
         require(_ownerOf(tokenId) != address(0), "Property does not exist");
         properties[tokenId].isListed = true;
         properties[tokenId].listedTimestamp = block.timestamp;
@@ -95,6 +205,164 @@ contract PropertyNFT is ERC721, Ownable {
         emit PropertyUnlisted(tokenId);
     }
     
+    /**
+     * @notice Record a new valuation for a property (appraisers only)
+     * @dev Becomes the property's current value, used for LTV and foreclosure pricing
+     * @param tokenId Appraised property
+     * @param value Appraised value in the loan currency's units
+     * @param reportHash Hash of the appraisal report
+     */
+    function submitAppraisal(uint256 tokenId, uint256 value, bytes32 reportHash) external onlyAppraiser {
+        require(_ownerOf(tokenId) != address(0), "Property does not exist");
+        require(value > 0, "Value must be > 0");
+        require(reportHash != bytes32(0), "Report hash required");
+        
+        uint256 previousValue = properties[tokenId].valueUSD;
+        properties[tokenId].valueUSD = value;
+        appraisalHistory[tokenId].push(
+            Appraisal({value: value, reportHash: reportHash, appraiser: msg.sender, timestamp: block.timestamp})
+        );
+        
+        emit PropertyAppraised(tokenId, msg.sender, previousValue, value, reportHash);
+    }
+    
+    /**
+     * @notice Record a lender's lien on a property (only owner)
+     * @dev While the lien is active the token can only move through seize
+     * @param tokenId Property securing the loan
+     * @param lienholder Lender allowed to release or seize the property
+     * @param principal Loan amount secured by the lien
+     */
+    function placeLien(uint256 tokenId, address lienholder, uint256 principal) external onlyOwner {
+        require(_ownerOf(tokenId) != address(0), "Property does not exist");
+        require(lienholder != address(0), "Invalid lienholder");
+        require(lienholders[tokenId] == address(0), "Lien already active");
+        
+        lienholders[tokenId] = lienholder;
+        lienHistory[tokenId].push(
+            Lien({
+                lender: lienholder,
+                principal: principal,
+                recordedTimestamp: block.timestamp,
+                releasedTimestamp: 0,
+                releaseDocumentHash: bytes32(0),
+                foreclosed: false
+            })
+        );
+        
+        emit LienRecorded(tokenId, lienholder, principal, lienHistory[tokenId].length - 1);
+    }
+    
+    /**
+     * @notice Release the lien once the loan is repaid (lienholder only)
+     * @param tokenId Liened property
+     * @param releaseDocumentHash Hash of the lien release certificate
+     */
+    function releaseLien(uint256 tokenId, bytes32 releaseDocumentHash) external {
+        require(lienholders[tokenId] == msg.sender, "Not lienholder");
+        
+        delete lienholders[tokenId];
+        uint256 lienIndex = lienHistory[tokenId].length - 1;
+        Lien storage lien = lienHistory[tokenId][lienIndex];
+        lien.releasedTimestamp = block.timestamp;
+        lien.releaseDocumentHash = releaseDocumentHash;
+        
+        emit LienReleased(tokenId, msg.sender, lienIndex, releaseDocumentHash);
+    }
+    
+    /**
+     * @notice Take a property from its owner after the secured loan defaults (lienholder only)
+     * @param tokenId Liened property
+     * @param to Recipient of the seized property, e.g. a foreclosure auction
+     */
+    function seize(uint256 tokenId, address to) external {
+        require(lienholders[tokenId] == msg.sender, "Not lienholder");
+        
+        delete lienholders[tokenId];
+        Lien storage lien = lienHistory[tokenId][lienHistory[tokenId].length - 1];
+        lien.releasedTimestamp = block.timestamp;
+        lien.foreclosed = true;
+        
+        address from = _ownerOf(tokenId);
+        _transfer(from, to, tokenId);
+        
+        emit PropertySeized(tokenId, msg.sender, from, to);
+    }
+    
+    /**
+     * @notice Check whether a property is free of liens
+     */
+    function hasActiveLien(uint256 tokenId) external view returns (bool) {
+        return lienholders[tokenId] != address(0);
+    }
+    
+    /**
+     * @notice Get every lien recorded against a property, oldest first
+     */
+    function getLiens(uint256 tokenId) external view returns (Lien[] memory) {
+        return lienHistory[tokenId];
+    }
+    
+    /**
+     * @notice Get every valuation of a property, oldest first
+     */
+    function getAppraisals(uint256 tokenId) external view returns (Appraisal[] memory) {
+        return appraisalHistory[tokenId];
+    }
+    
+    /**
+     * @notice Current (latest appraised) value of a property
+     */
+    function currentValue(uint256 tokenId) external view returns (uint256) {
+        require(_ownerOf(tokenId) != address(0), "Property does not exist");
+        return properties[tokenId].valueUSD;
+    }
+    
+    /**
+     * @notice Hand the role admin to another account (role admin only)
+     */
+    function transferRoleAdmin(address newAdmin) external onlyRoleAdmin {
+        require(newAdmin != address(0), "Invalid role admin");
+        emit RoleAdminTransferred(roleAdmin, newAdmin);
+        roleAdmin = newAdmin;
+    }
+    
+    /**
+     * @notice Authorize an appraiser (role admin only)
+     */
+    function authorizeAppraiser(address appraiser) external onlyRoleAdmin {
+        appraisers[appraiser] = true;
+    }
+    
+    /**
+     * @notice Revoke an appraiser (role admin only)
+     */
+    function revokeAppraiser(address appraiser) external onlyRoleAdmin {
+        appraisers[appraiser] = false;
+    }
+    
+    /**
+     * @notice Authorize a minter (role admin only)
+     */
+    function authorizeMinter(address minter) external onlyRoleAdmin {
+        minters[minter] = true;
+    }
+    
+    /**
+     * @notice Revoke a minter (role admin only)
+     */
+    function revokeMinter(address minter) external onlyRoleAdmin {
+        minters[minter] = false;
+    }
+    
+    /**
+     * @notice Set the fractional shares contract whose shares must travel with the NFT (only owner)
+     */
+    function setPropertyShares(address _propertyShares) external onlyOwner {
+        propertyShares = IPropertyShares(_propertyShares);
+        emit PropertySharesUpdated(_propertyShares);
+    }
+    
     /**
      * @notice Get property details
      */
@@ -111,10 +379,152 @@ contract PropertyNFT is ERC721, Ownable {
     }
     
     /**
-     * @notice Override tokenURI to return property metadata
+     * @dev Blocks owner transfers of liened properties; seize clears the lien before moving the token.
+     *      After payoff the shares trade on their own, so a holder can only transfer the NFT while holding
+     *      every issued share. Mints and seizures pass no `auth` and skip the share check.
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        require(lienholders[tokenId] == address(0), "Property has an active lien");
+        if (auth != address(0) && address(propertyShares) != address(0)) {
+            require(propertyShares.holdsAllShares(tokenId, _ownerOf(tokenId)), "Shares held by others");
+        }
+        return super._update(to, tokenId, auth);
+    }
+    
+    /**
+     * @notice ERC-721 metadata JSON for a property, as a base64 data URI
+     * @dev Built on read, so the listing, lien and loan attributes always reflect current state
      */
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
         require(_ownerOf(tokenId) != address(0), "Property does not exist");
-        return properties[tokenId].imageURI;
+        Property storage property = properties[tokenId];
+        
+        string memory json = string.concat(
+            '{"name":"Property #',
+            tokenId.toString(),
+            ": ",
+            _escapeJSON(property.propertyAddress),
+            '","description":"',
+            _escapeJSON(property.description),
+            '","image":"',
+            _escapeJSON(property.imageURI),
+            '","attributes":[',
+            _attributes(tokenId),
+            "]}"
+        );
+        
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+    
+    /**
+     * @notice Metadata attributes: address, valuation, shares, rooms, listing state, and the lien and loan status
+     */
+    function _attributes(uint256 tokenId) internal view returns (string memory attributes) {
+        Property storage property = properties[tokenId];
+        
+        attributes = string.concat(
+            _textAttribute("Address", _escapeJSON(property.propertyAddress)),
+            ",",
+            _numberAttribute("Valuation (USDC)", (property.valueUSD / 10 ** VALUE_DECIMALS).toString()),
+            ",",
+            _numberAttribute("Total Shares", property.totalShares.toString()),
+            ",",
+            _numberAttribute("Bedrooms", property.bedrooms.toString()),
+            ",",
+            _numberAttribute("Bathrooms", property.bathrooms.toString()),
+            ",",
+            _textAttribute("Listed", property.isListed ? "Yes" : "No"),
+            ",",
+            _textAttribute("Lien Status", _lienStatus(tokenId))
+        );
+        
+        // The lender reports the loan's progress while its lien is active
+        address lienholder = lienholders[tokenId];
+        if (lienholder.code.length == 0) return attributes;
+        
+        try ILienholder(lienholder).getPayoffQuote(tokenId) returns (uint256, uint256 principal, uint256) {
+            attributes = string.concat(
+                attributes,
+                ",",
+                _numberAttribute("Principal Outstanding (USDC)", (principal / 10 ** VALUE_DECIMALS).toString())
+            );
+        } catch {}
+        try ILienholder(lienholder).getOwnershipPercentage(tokenId) returns (uint256 equity) {
+            attributes = string.concat(attributes, ",", _numberAttribute("Borrower Equity (%)", equity.toString()));
+        } catch {}
+    }
+    
+    /**
+     * @notice Lien state from the title history: None, Active, Released or Foreclosed
+     */
+    function _lienStatus(uint256 tokenId) internal view returns (string memory) {
+        Lien[] storage liens = lienHistory[tokenId];
+        if (liens.length == 0) return "None";
+        
+        Lien storage latest = liens[liens.length - 1];
+        if (latest.releasedTimestamp == 0) return "Active";
+        return latest.foreclosed ? "Foreclosed" : "Released";
+    }
+    
+    /**
+     * @notice A string-valued attribute
+     */
+    function _textAttribute(string memory traitType, string memory value) internal pure returns (string memory) {
+        return string.concat('{"trait_type":"', traitType, '","value":"', value, '"}');
+    }
+    
+    /**
+     * @notice A numeric attribute; marketplaces chart these instead of listing them as traits
+     */
+    function _numberAttribute(string memory traitType, string memory value) internal pure returns (string memory) {
+        return string.concat('{"trait_type":"', traitType, '","display_type":"number","value":', value, "}");
+    }
+    
+    /**
+     * @notice Escape quotes, backslashes and control characters so free-text fields can't break the JSON
+     * @dev \n, \r and \t get their short escapes; other bytes below 0x20 are written as \u00XX
+     */
+    function _escapeJSON(string memory value) internal pure returns (string memory) {
+        bytes memory input = bytes(value);
+        uint256 extra;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == '"' || char == "\\" || char == "\n" || char == "\r" || char == "\t") {
+                extra += 1;
+            } else if (uint8(char) < 0x20) {
+                extra += 5;
+            }
+        }
+        if (extra == 0) return value;
+        
+        bytes memory hexDigits = "0123456789abcdef";
+        bytes memory output = new bytes(input.length + extra);
+        uint256 j;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == '"' || char == "\\") {
+                output[j++] = "\\";
+                output[j++] = char;
+            } else if (char == "\n") {
+                output[j++] = "\\";
+                output[j++] = "n";
+            } else if (char == "\r") {
+                output[j++] = "\\";
+                output[j++] = "r";
+            } else if (char == "\t") {
+                output[j++] = "\\";
+                output[j++] = "t";
+            } else if (uint8(char) < 0x20) {
+                output[j++] = "\\";
+                output[j++] = "u";
+                output[j++] = "0";
+                output[j++] = "0";
+                output[j++] = hexDigits[uint8(char) >> 4];
+                output[j++] = hexDigits[uint8(char) & 0x0f];
+            } else {
+                output[j++] = char;
+            }
+        }
+        return string(output);
     }
 }
@@ -0,0 +1,241 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "./PropertyNFT.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title PropertyOnboarding
+ * @notice Registry where sellers submit properties for review before they are tokenized
+ * @dev Each submission carries hashes of its title deed, inspection and survey documents.
+ *      Approval mints the property NFT to the custodian (MortgageManager) and lists it,
+ *      so this contract must be an authorized minter on PropertyNFT.
+ */
+contract PropertyOnboarding is Ownable {
+    
+    enum SubmissionStatus {
+        None,
+        Pending,
+        Approved,
+        Rejected
+    }
+    
+    // Hashes of the off-chain documents backing a submission
+    struct Documents {
+        bytes32 titleDeedHash;
+        bytes32 inspectionHash;
+        bytes32 surveyHash;
+    }
+    
+    struct Submission {
+        address seller;
+        string propertyAddress;
+        uint256 valueUSD; // Asking valuation in the loan currency's units; becomes the mint appraisal
+        uint256 totalShares;
+        string imageURI;
+        string description;
+        uint256 bedrooms;
+        uint256 bathrooms;
+        Documents documents;
+        SubmissionStatus status;
+        uint256 submittedTimestamp;
+        address reviewer;
+        uint256 reviewedTimestamp;
+        uint256 propertyId; // Minted token, set on approval
+        string rejectionReason;
+    }
+    
+    PropertyNFT public propertyNFT;
+    address public custodian; // Receives minted properties until they are mortgaged
+    
+    // State
+    Submission[] internal submissions;
+    mapping(address => uint256[]) internal sellerSubmissions;
+    uint256[] internal pendingSubmissions;
+    
+    // Accounts allowed to approve or reject submissions
+    mapping(address => bool) public reviewers;
+    
+    // Events
+    event PropertySubmitted(
+        uint256 indexed submissionId,
+        address indexed seller,
+        string propertyAddress,
+        uint256 valueUSD,
+        Documents documents
+    );
+    event SubmissionApproved(uint256 indexed submissionId, address indexed reviewer, uint256 indexed propertyId);
+    event SubmissionRejected(uint256 indexed submissionId, address indexed reviewer, string reason);
+    
+    modifier onlyReviewer() {
+        require(reviewers[msg.sender], "Not a reviewer");
+        _;
+    }
+    
+    constructor(address _propertyNFT, address _custodian) Ownable(msg.sender) {
+        propertyNFT = PropertyNFT(_propertyNFT);
+        custodian = _custodian;
+    }
+    
+    /**
+     * @notice Submit a property for review
+     * @param propertyAddress Physical address of the property
+     * @param valueUSD Asking valuation in the loan currency's units (USDC, 6 decimals)
+     * @param totalShares Number of fractional shares to mint for the property
+     * @param imageURI IPFS or URL for the property image
+     * @param description Property description
+     * @param bedrooms Number of bedrooms
+     * @param bathrooms Number of bathrooms
+     * @param documents Hashes of the title deed, inspection and survey
+     * @return submissionId ID of the new submission
+     */
+    function submitProperty(
+        string calldata propertyAddress,
+        uint256 valueUSD,
+        uint256 totalShares,
+        string calldata imageURI,
+        string calldata description,
+        uint256 bedrooms,
+        uint256 bathrooms,
+        Documents calldata documents
+    ) external returns (uint256 submissionId) {
+        require(bytes(propertyAddress).length > 0, "Address required");
+        require(valueUSD > 0, "Value must be > 0");
+        require(totalShares > 0, "Shares must be > 0");
+        require(
+            documents.titleDeedHash != bytes32(0) &&
+                documents.inspectionHash != bytes32(0) &&
+                documents.surveyHash != bytes32(0),
+            "Missing document hash"
+        );
+        
+        submissionId = submissions.length;
+        Submission storage submission = submissions.push();
+        submission.seller = msg.sender;
+        submission.propertyAddress = propertyAddress;
+        submission.valueUSD = valueUSD;
+        submission.totalShares = totalShares;
+        submission.imageURI = imageURI;
+        submission.description = description;
+        submission.bedrooms = bedrooms;
+        submission.bathrooms = bathrooms;
+        submission.documents = documents;
+        submission.status = SubmissionStatus.Pending;
+        submission.submittedTimestamp = block.timestamp;
+        
+        sellerSubmissions[msg.sender].push(submissionId);
+        pendingSubmissions.push(submissionId);
+        
+        emit PropertySubmitted(submissionId, msg.sender, propertyAddress, valueUSD, documents);
+    }
+    
+    /**
+     * @notice Approve a submission, minting and listing the property
+     * @return propertyId The minted property NFT ID
+     */
+    function approveSubmission(uint256 submissionId) external onlyReviewer returns (uint256 propertyId) {
+        Submission storage submission = _pendingSubmission(submissionId);
+        
+        propertyId = propertyNFT.mintProperty(
+            custodian,
+            submission.propertyAddress,
+            submission.valueUSD,
+            submission.totalShares,
+            submission.imageURI,
+            submission.description,
+            submission.bedrooms,
+            submission.bathrooms
+        );
+        propertyNFT.recordSeller(propertyId, submission.seller);
+        propertyNFT.listProperty(propertyId);
+        
+        submission.status = SubmissionStatus.Approved;
+        submission.propertyId = propertyId;
+        _recordReview(submissionId);
+        
+        emit SubmissionApproved(submissionId, msg.sender, propertyId);
+    }
+    
+    /**
+     * @notice Reject a submission with a reason for the seller
+     */
+    function rejectSubmission(uint256 submissionId, string calldata reason) external onlyReviewer {
+        require(bytes(reason).length > 0, "Reason required");
+        Submission storage submission = _pendingSubmission(submissionId);
+        
+        submission.status = SubmissionStatus.Rejected;
+        submission.rejectionReason = reason;
+        _recordReview(submissionId);
+        
+        emit SubmissionRejected(submissionId, msg.sender, reason);
+    }
+    
+    /**
+     * @notice Look up a submission that is still awaiting review
+     */
+    function _pendingSubmission(uint256 submissionId) internal view returns (Submission storage submission) {
+        require(submissionId < submissions.length, "Invalid submission ID");
+        submission = submissions[submissionId];
+        require(submission.status == SubmissionStatus.Pending, "Submission not pending");
+    }
+    
+    /**
+     * @notice Stamp the reviewer and take the submission off the pending list
+     */
+    function _recordReview(uint256 submissionId) internal {
+        Submission storage submission = submissions[submissionId];
+        submission.reviewer = msg.sender;
+        submission.reviewedTimestamp = block.timestamp;
+        
+        for (uint256 i = 0; i < pendingSubmissions.length; i++) {
+            if (pendingSubmissions[i] == submissionId) {
+                pendingSubmissions[i] = pendingSubmissions[pendingSubmissions.length - 1];
+                pendingSubmissions.pop();
+                break;
+            }
+        }
+    }
+    
+    /**
+     * @notice Get a single submission
+     */
+    function getSubmission(uint256 submissionId) external view returns (Submission memory) {
+        require(submissionId < submissions.length, "Invalid submission ID");
+        return submissions[submissionId];
+    }
+    
+    /**
+     * @notice Get every submission made by a seller
+     */
+    function getSellerSubmissions(address seller) external view returns (uint256[] memory) {
+        return sellerSubmissions[seller];
+    }
+    
+    /**
+     * @notice Get submissions awaiting review
+     */
+    function getPendingSubmissions() external view returns (uint256[] memory) {
+        return pendingSubmissions;
+    }
+    
+    /**
+     * @notice Total number of submissions ever made
+     */
+    function submissionCount() external view returns (uint256) {
+        return submissions.length;
+    }
+    
+    /**
+     * @notice Authorize a reviewer (only owner)
+     */
+    function authorizeReviewer(address reviewer) external onlyOwner {
+        reviewers[reviewer] = true;
+    }
+    
+    /**
+     * @notice Revoke a reviewer (only owner)
+     */
+    function revokeReviewer(address reviewer) external onlyOwner {
+        reviewers[reviewer] = false;
+    }
+}
@@ -0,0 +1,136 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "./IPropertyShares.sol";
+import "./PropertyNFT.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title PropertyShares
+ * @notice ERC-1155 fractional ownership of properties, one token ID per PropertyNFT token ID
+ * @dev Each property has PropertyNFT's totalShares shares. While a loan is outstanding the borrower holds
+ *      the equity share and the pool holds the financed share; payments move shares from the pool to the
+ *      borrower. Like the NFT itself, shares can't be transferred while the property has an active lien.
+ *      Once the loan is paid off the borrower holds every share and can sell them to co-investors; the
+ *      property NFT itself can then only be transferred by whoever holds all of them again.
+ */
+contract PropertyShares is IPropertyShares, ERC1155Supply, Ownable {
+    PropertyNFT public propertyNFT;
+    address public mortgagePool; // Holds the financed share of mortgaged properties
+    
+    // Contracts allowed to issue and rebalance shares (MortgageManager)
+    mapping(address => bool) public authorizedManagers;
+    
+    // Constants
+    uint256 public constant BASIS_POINTS = 10000;
+    
+    // Events
+    event EquityUpdated(uint256 indexed propertyId, address indexed borrower, uint256 equityShares, uint256 financedShares);
+    event SharesRetired(uint256 indexed propertyId, uint256 shares);
+    
+    modifier onlyManager() {
+        require(authorizedManagers[msg.sender], "Not authorized manager");
+        _;
+    }
+    
+    /**
+     * @dev Metadata comes from PropertyNFT.tokenURI, so the URI template is unused
+     */
+    constructor(address _propertyNFT, address _mortgagePool) ERC1155("") Ownable(msg.sender) {
+        propertyNFT = PropertyNFT(_propertyNFT);
+        mortgagePool = _mortgagePool;
+    }
+    
+    /**
+     * @inheritdoc IPropertyShares
+     */
+    function updateEquity(uint256 propertyId, address borrower, uint256 equityBPS) external onlyManager {
+        uint256 shares = propertyNFT.getProperty(propertyId).totalShares;
+        uint256 targetEquity = (shares * equityBPS) / BASIS_POINTS;
+        
+        if (!exists(propertyId)) {
+            _mint(borrower, propertyId, targetEquity, "");
+            _mint(mortgagePool, propertyId, shares - targetEquity, "");
+        } else {
+            uint256 currentEquity = balanceOf(borrower, propertyId);
+            if (targetEquity > currentEquity) {
+                _burn(mortgagePool, propertyId, targetEquity - currentEquity);
+                _mint(borrower, propertyId, targetEquity - currentEquity, "");
+            } else if (targetEquity < currentEquity) {
+                _burn(borrower, propertyId, currentEquity - targetEquity);
+                _mint(mortgagePool, propertyId, currentEquity - targetEquity, "");
+            }
+        }
+        
+        emit EquityUpdated(propertyId, borrower, targetEquity, shares - targetEquity);
+    }
+    
+    /**
+     * @inheritdoc IPropertyShares
+     * @dev The lien kept every share with the borrower or the pool, so burning both balances retires them all
+     */
+    function retire(uint256 propertyId, address borrower) external onlyManager {
+        uint256 shares = totalSupply(propertyId);
+        _burn(borrower, propertyId, balanceOf(borrower, propertyId));
+        _burn(mortgagePool, propertyId, balanceOf(mortgagePool, propertyId));
+        
+        emit SharesRetired(propertyId, shares);
+    }
+    
+    /**
+     * @inheritdoc IPropertyShares
+     */
+    function holdsAllShares(uint256 propertyId, address account) external view returns (bool) {
+        return balanceOf(account, propertyId) == totalSupply(propertyId);
+    }
+    
+    /**
+     * @notice An account's ownership of a property as a share of its total shares
+     * @return Basis points of the property's shares held by `account`
+     */
+    function ownershipBPS(uint256 propertyId, address account) external view returns (uint256) {
+        uint256 supply = totalSupply(propertyId);
+        if (supply == 0) return 0;
+        return (balanceOf(account, propertyId) * BASIS_POINTS) / supply;
+    }
+    
+    /**
+     * @notice Metadata for a property's shares: the property NFT's own metadata
+     */
+    function uri(uint256 propertyId) public view override returns (string memory) {
+        return propertyNFT.tokenURI(propertyId);
+    }
+    
+    /**
+     * @notice Authorize a contract to issue and rebalance shares (only owner)
+     * @param manager Address to authorize (typically MortgageManager)
+     */
+    function authorizeManager(address manager) external onlyOwner {
+        authorizedManagers[manager] = true;
+    }
+    
+    /**
+     * @notice Revoke manager authorization
+     */
+    function revokeManager(address manager) external onlyOwner {
+        authorizedManagers[manager] = false;
+    }
+    
+    /**
+     * @dev Blocks transfers of shares in liened properties; minting and burning by the manager still go through
+     */
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override {
+        if (from != address(0) && to != address(0)) {
+            for (uint256 i = 0; i < ids.length; i++) {
+                require(!propertyNFT.hasActiveLien(ids[i]), "Property has an active lien");
+            }
+        }
+        super._update(from, to, ids, values);
+    }
+}
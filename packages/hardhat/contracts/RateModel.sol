@@ -0,0 +1,153 @@
+//SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import "./IRateModel.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title RateModel
+ * @notice Table-driven mortgage pricing: base rate + LTV premium + term premium + utilization premium
+ * @dev Tiers are matched on the first entry whose maxValue is >= the input, so they must be sorted ascending
+ */
+contract RateModel is IRateModel, Ownable {
+    
+    struct RateTier {
+        uint256 maxValue; // Upper bound (inclusive) for LTV in BPS or term in months
+        uint256 premiumBPS; // Added to the base rate when the tier matches
+    }
+    
+    // Pricing table
+    uint256 public baseRateBPS = 425; // 4.25% APR
+    uint256 public utilizationSlopeBPS = 200; // +2% APR at 100% pool utilization
+    RateTier[] public ltvTiers;
+    RateTier[] public termTiers;
+    
+    // Constants
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant MAX_RATE_BPS = 2000; // 20% APR cap
+    
+    // Events
+    event BaseRateUpdated(uint256 rateBPS);
+    event UtilizationSlopeUpdated(uint256 slopeBPS);
+    event LtvTiersUpdated(uint256 tierCount);
+    event TermTiersUpdated(uint256 tierCount);
+    
+    constructor() Ownable(msg.sender) {
+        // Default LTV tiers: lower leverage gets better pricing
+        ltvTiers.push(RateTier({maxValue: 6000, premiumBPS: 0}));
+        ltvTiers.push(RateTier({maxValue: 8000, premiumBPS: 25}));
+        ltvTiers.push(RateTier({maxValue: 9000, premiumBPS: 75}));
+        
+        // Default term tiers: longer loans carry more rate risk
+        termTiers.push(RateTier({maxValue: 120, premiumBPS: 0}));
+        termTiers.push(RateTier({maxValue: 180, premiumBPS: 25}));
+        termTiers.push(RateTier({maxValue: 240, premiumBPS: 50}));
+        termTiers.push(RateTier({maxValue: 360, premiumBPS: 75}));
+    }
+    
+    /**
+     * @inheritdoc IRateModel
+     */
+    function getRate(
+        uint256 ltvBPS,
+        uint256 termMonths,
+        uint256 utilizationBPS
+    ) external view returns (uint256 rateBPS) {
+        rateBPS = baseRateBPS;
+        rateBPS += _tierPremium(ltvTiers, ltvBPS, "LTV too high");
+        rateBPS += _tierPremium(termTiers, termMonths, "Term not supported");
+        
+        if (utilizationBPS > BASIS_POINTS) utilizationBPS = BASIS_POINTS;
+        rateBPS += (utilizationBPS * utilizationSlopeBPS) / BASIS_POINTS;
+        
+        if (rateBPS > MAX_RATE_BPS) rateBPS = MAX_RATE_BPS;
+    }
+    
+    /**
+     * @notice Find the premium of the first tier covering a value
+     */
+    function _tierPremium(
+        RateTier[] storage tiers,
+        uint256 value,
+        string memory errorMessage
+    ) internal view returns (uint256) {
+        for (uint256 i = 0; i < tiers.length; i++) {
+            if (value <= tiers[i].maxValue) {
+                return tiers[i].premiumBPS;
+            }
+        }
+        revert(errorMessage);
+    }
+    
+    /**
+     * @notice Replace a tier table after checking it is sorted
+     */
+    function _setTiers(
+        RateTier[] storage tiers,
+        uint256[] calldata maxValues,
+        uint256[] calldata premiumsBPS
+    ) internal {
+        require(maxValues.length == premiumsBPS.length, "Length mismatch");
+        require(maxValues.length > 0, "Empty tier table");
+        
+        while (tiers.length > 0) {
+            tiers.pop();
+        }
+        for (uint256 i = 0; i < maxValues.length; i++) {
+            require(i == 0 || maxValues[i] > maxValues[i - 1], "Tiers must be ascending");
+            tiers.push(RateTier({maxValue: maxValues[i], premiumBPS: premiumsBPS[i]}));
+        }
+    }
+    
+    /**
+     * @notice Get the LTV tier table
+     */
+    function getLtvTiers() external view returns (RateTier[] memory) {
+        return ltvTiers;
+    }
+    
+    /**
+     * @notice Get the term tier table
+     */
+    function getTermTiers() external view returns (RateTier[] memory) {
+        return termTiers;
+    }
+    
+    /**
+     * @notice Set the base rate (owner only)
+     */
+    function setBaseRate(uint256 rateBPS) external onlyOwner {
+        require(rateBPS <= MAX_RATE_BPS, "Rate too high (max 20%)");
+        baseRateBPS = rateBPS;
+        emit BaseRateUpdated(rateBPS);
+    }
+    
+    /**
+     * @notice Set the premium added at 100% pool utilization (owner only)
+     */
+    function setUtilizationSlope(uint256 slopeBPS) external onlyOwner {
+        require(slopeBPS <= MAX_RATE_BPS, "Slope too high");
+        utilizationSlopeBPS = slopeBPS;
+        emit UtilizationSlopeUpdated(slopeBPS);
+    }
+    
+    /**
+     * @notice Replace the LTV tier table (owner only)
+     * @param maxLtvBPS Ascending LTV upper bounds in basis points
+     * @param premiumsBPS Rate premium for each tier
+     */
+    function setLtvTiers(uint256[] calldata maxLtvBPS, uint256[] calldata premiumsBPS) external onlyOwner {
+        _setTiers(ltvTiers, maxLtvBPS, premiumsBPS);
+        emit LtvTiersUpdated(maxLtvBPS.length);
+    }
+    
+    /**
+     * @notice Replace the term tier table (owner only)
+     * @param maxTermMonths Ascending term upper bounds in months
+     * @param premiumsBPS Rate premium for each tier
+     */
+    function setTermTiers(uint256[] calldata maxTermMonths, uint256[] calldata premiumsBPS) external onlyOwner {
+        _setTiers(termTiers, maxTermMonths, premiumsBPS);
+        emit TermTiersUpdated(maxTermMonths.length);
+    }
+}
@@ -1,12 +1,19 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
-import { parseEther } from "ethers";
+import { parseUnits } from "ethers";
 
 /**
  * Deploys the Mortgage Pool system contracts:
  * 1. PropertyNFT - Tokenized real estate
- * 2. MortgagePool - Liquidity pool for lenders
- * 3. MortgageManager - Core mortgage logic
+ * 2. MortgagePool - ERC-4626 liquidity vault for lenders, holding MockUSDC
+ * 3. MortgageManager - Core mortgage logic (linked against the MortgageMath library)
+ * 4. RateModel - Per-loan interest rate pricing
+ * 5. IndexOracle - Reference index for adjustable-rate mortgages
+ * 6. LoanProductRegistry - Loan products borrowers choose from
+ * 7. InsuranceFund - Default insurance paid for by borrower premiums
+ * 8. ForeclosureAuction - Sells foreclosed properties to repay the pool and the insurance fund
+ * 9. PropertyShares - ERC-1155 fractional shares split between borrower equity and the pool
+ * 10. PropertyOnboarding - Seller submissions, reviewed before they are minted and listed
  *
  * @param hre HardhatRuntimeEnvironment object.
  */
@@ -25,24 +32,94 @@ const deployMortgageContracts: DeployFunction = async function (hre: HardhatRunt
     autoMine: true,
   });
 
-  // 2. Deploy MortgagePool
+  // 2. Deploy MortgagePool; loans, down payments and repayments are all in the pool's asset
   console.log("💰 Deploying MortgagePool...");
+  const usdc = await hre.deployments.get("MockUSDC");
   const mortgagePool = await deploy("MortgagePool", {
     from: deployer,
-    args: [],
+    args: [usdc.address, "Mortgage Pool Share", "mpUSDC"],
     log: true,
     autoMine: true,
   });
 
   // 3. Deploy MortgageManager
   console.log("🏦 Deploying MortgageManager...");
+  const mortgageMath = await deploy("MortgageMath", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+  });
   const mortgageManager = await deploy("MortgageManager", {
+    from: deployer,
+    args: [propertyNFT.address, mortgagePool.address],
+    libraries: { MortgageMath: mortgageMath.address },
+    log: true,
+    autoMine: true,
+  });
+
+  // 4. Deploy RateModel
+  console.log("📈 Deploying RateModel...");
+  const rateModel = await deploy("RateModel", {
+    from: deployer,
+    args: [],
+    log: true,
+    autoMine: true,
+  });
+
+  // 5. Deploy IndexOracle
+  console.log("📡 Deploying IndexOracle...");
+  const indexOracle = await deploy("IndexOracle", {
+    from: deployer,
+    args: [300], // 3.00% starting index
+    log: true,
+    autoMine: true,
+  });
+
+  // 6. Deploy LoanProductRegistry
+  console.log("🗂️  Deploying LoanProductRegistry...");
+  const productRegistry = await deploy("LoanProductRegistry", {
+    from: deployer,
+    args: [],
+    log: true,
+    autoMine: true,
+  });
+
+  // 7. Deploy InsuranceFund
+  console.log("🛡️  Deploying InsuranceFund...");
+  const insuranceFund = await deploy("InsuranceFund", {
+    from: deployer,
+    args: [mortgagePool.address],
+    log: true,
+    autoMine: true,
+  });
+
+  // 8. Deploy ForeclosureAuction
+  console.log("🔨 Deploying ForeclosureAuction...");
+  const foreclosureAuction = await deploy("ForeclosureAuction", {
+    from: deployer,
+    args: [propertyNFT.address, mortgagePool.address, insuranceFund.address],
+    log: true,
+    autoMine: true,
+  });
+
+  // 9. Deploy PropertyShares
+  console.log("🧩 Deploying PropertyShares...");
+  const propertyShares = await deploy("PropertyShares", {
     from: deployer,
     args: [propertyNFT.address, mortgagePool.address],
     log: true,
     autoMine: true,
   });
 
+  // 10. Deploy PropertyOnboarding; approved properties are held by the manager until mortgaged
+  console.log("📥 Deploying PropertyOnboarding...");
+  const propertyOnboarding = await deploy("PropertyOnboarding", {
+    from: deployer,
+    args: [propertyNFT.address, mortgageManager.address],
+    log: true,
+    autoMine: true,
+  });
+
   console.log("\n⚙️  Configuring contracts...\n");
 
   // Get signer
@@ -51,31 +128,55 @@ const deployMortgageContracts: DeployFunction = async function (hre: HardhatRunt
   // Get deployed contract instances with signer
   const propertyNFTContract = await hre.ethers.getContractAt("PropertyNFT", propertyNFT.address, signer);
   const mortgagePoolContract = await hre.ethers.getContractAt("MortgagePool", mortgagePool.address, signer);
+  const mortgageManagerContract = await hre.ethers.getContractAt("MortgageManager", mortgageManager.address, signer);
+  const productRegistryContract = await hre.ethers.getContractAt(
+    "LoanProductRegistry",
+    productRegistry.address,
+    signer,
+  );
+  const insuranceFundContract = await hre.ethers.getContractAt("InsuranceFund", insuranceFund.address, signer);
+  const propertySharesContract = await hre.ethers.getContractAt("PropertyShares", propertyShares.address, signer);
+  const propertyOnboardingContract = await hre.ethers.getContractAt(
+    "PropertyOnboarding",
+    propertyOnboarding.address,
+    signer,
+  );
+  const foreclosureAuctionContract = await hre.ethers.getContractAt(
+    "ForeclosureAuction",
+    foreclosureAuction.address,
+    signer,
+  );
 
-  // 4. Mint demo properties BEFORE transferring ownership
+  // 11. Mint demo properties BEFORE transferring ownership
   console.log("🏠 Minting demo properties...\n");
 
   const demoProperties = [
     {
       address: "123 Blockchain Ave, Crypto City, CC 12345",
-      value: parseEther("200"), // 200 ETH ≈ $200k property
+      value: parseUnits("200000", 6), // $200,000 in USDC
       shares: 1000,
       image: "https://images.unsplash.com/photo-1568605114967-8130f3a36994",
       description: "Modern 3BR/2BA suburban home with smart contract deed",
+      bedrooms: 3,
+      bathrooms: 2,
     },
     {
       address: "456 DeFi Street, Web3 Town, WT 67890",
-      value: parseEther("150"), // 150 ETH ≈ $150k property
+      value: parseUnits("150000", 6), // $150,000 in USDC
       shares: 1000,
       image: "https://images.unsplash.com/photo-1572120360610-d971b9d7767c",
       description: "Cozy 2BR/1BA starter home with NFT title",
+      bedrooms: 2,
+      bathrooms: 1,
     },
     {
       address: "789 Ethereum Boulevard, Smart City, SC 54321",
-      value: parseEther("350"), // 350 ETH ≈ $350k property
+      value: parseUnits("350000", 6), // $350,000 in USDC
       shares: 1000,
       image: "https://images.unsplash.com/photo-1564013799919-ab600027ffc6",
       description: "Luxury 4BR/3BA family home with pool and tokenized ownership",
+      bedrooms: 4,
+      bathrooms: 3,
     },
   ];
 
@@ -90,17 +191,40 @@ const deployMortgageContracts: DeployFunction = async function (hre: HardhatRunt
       prop.shares,
       prop.image,
       prop.description,
+      prop.bedrooms,
+      prop.bathrooms,
     );
     await tx.wait();
 
+    // The deployer sells the demo properties and receives the purchase price when they are financed
+    const sellerTx = await propertyNFTContract.recordSeller(i, deployer);
+    await sellerTx.wait();
+
     // List the property
     const listTx = await propertyNFTContract.listProperty(i);
     await listTx.wait();
     console.log(`✅ Property ${i} listed for mortgage`);
   }
 
-  // 5. Set up permissions
-  console.log("\n🔐 Transferring PropertyNFT ownership to MortgageManager...");
+  // 12. Set up permissions
+  // Appraisers and minters are managed by the NFT's role admin (the deployer), not its owner
+  console.log("\n📐 Authorizing deployer as appraiser...");
+  const appraiserTx = await propertyNFTContract.authorizeAppraiser(deployer);
+  await appraiserTx.wait();
+
+  // New properties are minted by the onboarding registry once a reviewer approves them
+  console.log("📥 Authorizing PropertyOnboarding to mint and deployer to review...");
+  const minterTx = await propertyNFTContract.authorizeMinter(propertyOnboarding.address);
+  await minterTx.wait();
+  const reviewerTx = await propertyOnboardingContract.authorizeReviewer(deployer);
+  await reviewerTx.wait();
+
+  // Once a loan is repaid the NFT only moves with every one of its fractional shares
+  console.log("🧩 Linking PropertyShares to PropertyNFT...");
+  const nftSharesTx = await propertyNFTContract.setPropertyShares(propertyShares.address);
+  await nftSharesTx.wait();
+
+  console.log("🔐 Transferring PropertyNFT ownership to MortgageManager...");
   const transferTx = await propertyNFTContract.transferOwnership(mortgageManager.address);
   await transferTx.wait();
 
@@ -109,14 +233,160 @@ const deployMortgageContracts: DeployFunction = async function (hre: HardhatRunt
   const authTx = await mortgagePoolContract.authorizeBorrower(mortgageManager.address);
   await authTx.wait();
 
+  // Foreclosed properties are auctioned; the auction repays the pool from sale proceeds
+  console.log("🔨 Connecting ForeclosureAuction...");
+  const auctionTx = await mortgageManagerContract.setForeclosureAuction(foreclosureAuction.address);
+  await auctionTx.wait();
+  const auctionManagerTx = await foreclosureAuctionContract.authorizeManager(mortgageManager.address);
+  await auctionManagerTx.wait();
+  const auctionPoolTx = await mortgagePoolContract.authorizeRecoverySource(foreclosureAuction.address);
+  await auctionPoolTx.wait();
+
+  // Borrowers pay premiums into the insurance fund, which pays default claims to the pool
+  console.log("🛡️  Connecting InsuranceFund...");
+  const insuranceTx = await mortgageManagerContract.setInsuranceFund(insuranceFund.address);
+  await insuranceTx.wait();
+  const insuranceManagerTx = await insuranceFundContract.authorizeManager(mortgageManager.address);
+  await insuranceManagerTx.wait();
+  const insurancePoolTx = await mortgagePoolContract.authorizeInsurer(insuranceFund.address);
+  await insurancePoolTx.wait();
+
+  // Borrower equity and the pool's financed share are tracked as fractional share tokens
+  console.log("🧩 Connecting PropertyShares...");
+  const sharesTx = await mortgageManagerContract.setPropertyShares(propertyShares.address);
+  await sharesTx.wait();
+  const sharesManagerTx = await propertySharesContract.authorizeManager(mortgageManager.address);
+  await sharesManagerTx.wait();
+
+  // Let the deployer review mortgage applications
+  console.log("🔐 Authorizing deployer as underwriter...");
+  const underwriterTx = await mortgageManagerContract.authorizeUnderwriter(deployer);
+  await underwriterTx.wait();
+
+  // ...and service loans for borrowers in hardship
+  console.log("🔐 Authorizing deployer as servicer...");
+  const servicerTx = await mortgageManagerContract.authorizeServicer(deployer);
+  await servicerTx.wait();
+
+  // Price new loans with the rate model
+  console.log("📈 Connecting RateModel to MortgageManager...");
+  const rateModelTx = await mortgageManagerContract.setRateModel(rateModel.address);
+  await rateModelTx.wait();
+
+  // Adjustable-rate products reset against the index oracle
+  console.log("📡 Connecting IndexOracle to MortgageManager...");
+  const indexOracleTx = await mortgageManagerContract.setIndexOracle(indexOracle.address);
+  await indexOracleTx.wait();
+
+  // 13. Loan products
+  console.log("🗂️  Adding loan products...");
+  const registryTx = await mortgageManagerContract.setProductRegistry(productRegistry.address);
+  await registryTx.wait();
+
+  const FIXED_RATE = {
+    initialFixedMonths: 0,
+    resetIntervalMonths: 0,
+    marginBPS: 0,
+    perResetCapBPS: 0,
+    lifetimeCapBPS: 0,
+  };
+  // Annual resets at index + 2.50%, capped at 2% per reset and 5% over the loan's life
+  const armConfig = (initialFixedMonths: number) => ({
+    initialFixedMonths,
+    resetIntervalMonths: 12,
+    marginBPS: 250,
+    perResetCapBPS: 200,
+    lifetimeCapBPS: 500,
+  });
+  const DAY = 24 * 60 * 60;
+  // Mirrors LoanProductRegistry.ScheduleType
+  const AMORTIZING = 0;
+  const INTEREST_ONLY = 1;
+  const BALLOON = 2;
+
+  const loanProducts = [
+    {
+      name: "Conventional Fixed",
+      minDownPaymentBPS: 1000,
+      allowedTerms: [120, 180, 240, 300, 360],
+      scheduleType: AMORTIZING,
+      arm: FIXED_RATE,
+    },
+    {
+      name: "5/1 ARM",
+      minDownPaymentBPS: 1500,
+      allowedTerms: [360],
+      scheduleType: AMORTIZING,
+      arm: armConfig(60),
+    },
+    {
+      name: "7/1 ARM",
+      minDownPaymentBPS: 1500,
+      allowedTerms: [360],
+      scheduleType: AMORTIZING,
+      arm: armConfig(84),
+    },
+    {
+      // Ten years of interest-only payments, then amortizes over the remaining 20
+      name: "10-Year Interest-Only",
+      minDownPaymentBPS: 2000,
+      allowedTerms: [360],
+      scheduleType: INTEREST_ONLY,
+      interestOnlyMonths: 120,
+      arm: FIXED_RATE,
+    },
+    {
+      // Payments sized on a 30-year schedule, remaining balance due at maturity
+      name: "Balloon (30-Year Amortization)",
+      minDownPaymentBPS: 2000,
+      allowedTerms: [60, 84, 120],
+      scheduleType: BALLOON,
+      balloonAmortizationMonths: 360,
+      arm: FIXED_RATE,
+    },
+  ];
+  for (let i = 0; i < loanProducts.length; i++) {
+    const product = loanProducts[i];
+    const productTx = await productRegistryContract.setProduct(i, {
+      rateModel: hre.ethers.ZeroAddress, // Use the manager's rate model
+      lateFeeBPS: 500,
+      gracePeriod: 15 * DAY,
+      defaultPeriod: 90 * DAY,
+      interestOnlyMonths: 0,
+      balloonAmortizationMonths: 0,
+      active: true,
+      ...product,
+    });
+    await productTx.wait();
+    console.log(`✅ Product ${i}: ${product.name}`);
+  }
+
   console.log("\n✅ Deployment complete!\n");
   console.log("📋 Contract Addresses:");
   console.log("   PropertyNFT:", propertyNFT.address);
   console.log("   MortgagePool:", mortgagePool.address);
+  console.log("   Pool asset (MockUSDC):", usdc.address);
   console.log("   MortgageManager:", mortgageManager.address);
+  console.log("   MortgageMath:", mortgageMath.address);
+  console.log("   RateModel:", rateModel.address);
+  console.log("   IndexOracle:", indexOracle.address);
+  console.log("   LoanProductRegistry:", productRegistry.address);
+  console.log("   ForeclosureAuction:", foreclosureAuction.address);
+  console.log("   PropertyOnboarding:", propertyOnboarding.address);
   console.log("\n💡 Demo properties minted and ready for mortgages!");
 };
 
 export default deployMortgageContracts;
 
-deployMortgageContracts.tags = ["MortgagePool", "PropertyNFT", "MortgageManager"];
+deployMortgageContracts.tags = [
+  "MortgagePool",
+  "PropertyNFT",
+  "MortgageManager",
+  "RateModel",
+  "IndexOracle",
+  "LoanProductRegistry",
+  "MortgageMath",
+  "ForeclosureAuction",
+  "PropertyOnboarding",
+];
+deployMortgageContracts.dependencies = ["MockUSDC"];
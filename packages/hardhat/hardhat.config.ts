@@ -36,6 +36,23 @@ const config: HardhatUserConfig = {
         },
       },
     ],
+    overrides: {
+      // Optimized for size (IR pipeline, low runs) to keep the manager under the 24 KB contract size limit
+      "contracts/MortgageManager.sol": {
+        version: "0.8.20",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 1,
+          },
+          viaIR: true,
+          // hardhat-deploy only sets this for the default compilers; generateTsAbis reads sources from it
+          metadata: {
+            useLiteralContent: true,
+          },
+        },
+      },
+    },
   },
   defaultNetwork: "localhost",
   namedAccounts: {
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { deployments, ethers, network } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ForeclosureAuction,
+  InsuranceFund,
+  MockUSDC,
+  MortgageManager,
+  MortgagePool,
+  PropertyNFT,
+  PropertyShares,
+} from "../typechain-types";
+
+const DAY = 24 * 60 * 60;
+const PROPERTY_ID = 1; // $150,000 demo property
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("Foreclosure", function () {
+  let mockUSDC: MockUSDC;
+  let propertyNFT: PropertyNFT;
+  let mortgagePool: MortgagePool;
+  let mortgageManager: MortgageManager;
+  let foreclosureAuction: ForeclosureAuction;
+  let insuranceFund: InsuranceFund;
+  let propertyShares: PropertyShares;
+  let borrower: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+
+  const increaseTime = async (seconds: number) => {
+    await network.provider.send("evm_increaseTime", [seconds]);
+    await network.provider.send("evm_mine", []);
+  };
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    const [, liquidityProvider, borrowerSigner, buyerSigner] = await ethers.getSigners();
+    borrower = borrowerSigner;
+    buyer = buyerSigner;
+
+    mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    propertyNFT = await ethers.getContract<PropertyNFT>("PropertyNFT");
+    mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+    mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+    foreclosureAuction = await ethers.getContract<ForeclosureAuction>("ForeclosureAuction");
+    insuranceFund = await ethers.getContract<InsuranceFund>("InsuranceFund");
+    propertyShares = await ethers.getContract<PropertyShares>("PropertyShares");
+
+    for (const signer of [liquidityProvider, borrower, buyer]) {
+      await mockUSDC.mint(signer.address, usdc("1000000"));
+    }
+    await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+    await mockUSDC.connect(buyer).approve(await foreclosureAuction.getAddress(), ethers.MaxUint256);
+
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+
+    // 20% down on a 30-year conventional fixed loan, approved by the deployer
+    await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+    await mortgageManager.approveApplication(PROPERTY_ID);
+  });
+
+  describe("Default", function () {
+    it("Should not foreclose a loan that is current", async function () {
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(2); // Active
+    });
+
+    it("Should seize the property and open an auction at the outstanding debt", async function () {
+      await increaseTime(91 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(5); // Foreclosed
+      expect(await propertyNFT.ownerOf(PROPERTY_ID)).to.equal(await foreclosureAuction.getAddress());
+      expect(await propertyNFT.hasActiveLien(PROPERTY_ID)).to.equal(false);
+      const [lien] = await propertyNFT.getLiens(PROPERTY_ID);
+      expect(lien.foreclosed).to.equal(true);
+      expect(await propertyShares.exists(PROPERTY_ID)).to.equal(false); // Shares retired
+
+      const auction = await foreclosureAuction.getAuction(PROPERTY_ID);
+      expect(auction.status).to.equal(1); // Active
+      expect(auction.borrower).to.equal(borrower.address);
+      expect(auction.principalOwed + auction.insuranceOwed).to.equal(usdc("120000"));
+      expect(auction.feesOwed).to.be.gt(0n);
+      expect(auction.reservePrice).to.equal(auction.principalOwed + auction.feesOwed + auction.insuranceOwed);
+      expect(auction.startPrice).to.equal(usdc("150000"));
+    });
+
+    it("Should price the loan and the auction off the latest appraisal", async function () {
+      expect(await mortgageManager.getLoanToValue(PROPERTY_ID)).to.equal(8000n); // 120k on 150k
+
+      const reportHash = ethers.id("appraisal-report-1");
+      await expect(
+        propertyNFT.connect(borrower).submitAppraisal(PROPERTY_ID, usdc("200000"), reportHash),
+      ).to.be.revertedWith("Not an appraiser");
+      await propertyNFT.submitAppraisal(PROPERTY_ID, usdc("200000"), reportHash); // Deployer is an appraiser
+
+      const appraisals = await propertyNFT.getAppraisals(PROPERTY_ID);
+      expect(appraisals.length).to.equal(2); // Mint valuation, then the new report
+      expect(appraisals[1].reportHash).to.equal(reportHash);
+      expect(await propertyNFT.currentValue(PROPERTY_ID)).to.equal(usdc("200000"));
+      expect(await mortgageManager.getLoanToValue(PROPERTY_ID)).to.equal(6000n);
+
+      await increaseTime(91 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      expect((await foreclosureAuction.getAuction(PROPERTY_ID)).startPrice).to.equal(usdc("200000"));
+    });
+
+    it("Should write off the defaulted balance at default, junior tranche first", async function () {
+      const liquidityBefore = await mortgagePool.totalLiquidity();
+      await increaseTime(91 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+
+      // No premiums collected yet, so the insurance claim pays nothing back
+      expect(await mortgagePool.totalLossesAbsorbed()).to.equal(usdc("120000"));
+      expect(await mortgagePool.totalRecoveries()).to.equal(0n);
+      expect(await mortgagePool.totalLiquidity()).to.equal(liquidityBefore - usdc("120000"));
+      expect(await mortgagePool.totalAssets()).to.equal(liquidityBefore - usdc("120000"));
+      expect(await mortgagePool.cumulativeLossRatioBPS()).to.equal(10000n);
+    });
+
+    it("Should pay the insurance claim out of collected premiums, capped by reserves", async function () {
+      const [, , , premium] = await mortgageManager.getPaymentDue(PROPERTY_ID);
+      expect(premium).to.equal(usdc("50")); // 0.5% a year on $120,000
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      expect(await insuranceFund.reserves()).to.equal(premium);
+
+      await increaseTime(91 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+
+      // The policy covers half the balance, but the fund only holds one premium
+      const claim = await insuranceFund.getClaim(0);
+      expect(claim.covered).to.equal(claim.loss / 2n);
+      expect(claim.paid).to.equal(premium);
+      expect(await insuranceFund.reserves()).to.equal(0n);
+      expect(await insuranceFund.insuredPrincipal()).to.equal(0n);
+
+      // The payout comes back to the pool as a recovery and is owed back to the fund by the sale
+      expect(await mortgagePool.totalRecoveries()).to.equal(premium);
+      const auction = await foreclosureAuction.getAuction(PROPERTY_ID);
+      expect(auction.insuranceOwed).to.equal(premium);
+      expect(auction.principalOwed).to.equal(claim.loss - premium);
+
+      await foreclosureAuction.connect(buyer).buy(PROPERTY_ID, auction.startPrice);
+      expect(await insuranceFund.reserves()).to.equal(premium);
+    });
+
+    it("Should repay the pool and pay the surplus to the borrower when the property sells", async function () {
+      await increaseTime(91 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+
+      const auction = await foreclosureAuction.getAuction(PROPERTY_ID);
+      const liquidityBefore = await mortgagePool.totalLiquidity();
+      const borrowerBalanceBefore = await mockUSDC.balanceOf(borrower.address);
+
+      // Accept up to the opening price; the Dutch price only falls
+      await foreclosureAuction.connect(buyer).buy(PROPERTY_ID, auction.startPrice);
+
+      const sold = await foreclosureAuction.getAuction(PROPERTY_ID);
+      expect(sold.status).to.equal(2); // Sold
+      expect(sold.buyer).to.equal(buyer.address);
+      expect(await propertyNFT.ownerOf(PROPERTY_ID)).to.equal(buyer.address);
+
+      expect(await mortgagePool.activeMortgages()).to.equal(0n);
+      expect(await mortgagePool.totalLiquidity()).to.equal(liquidityBefore + auction.principalOwed + auction.feesOwed);
+      expect(await mortgagePool.totalRecoveries()).to.equal(auction.principalOwed);
+      expect(await mortgagePool.cumulativeLossRatioBPS()).to.equal(0n);
+
+      const surplus = sold.salePrice - auction.reservePrice;
+      expect(await mockUSDC.balanceOf(borrower.address)).to.equal(borrowerBalanceBefore + surplus);
+
+      // The buyer owns the property outright
+      await propertyNFT.connect(buyer).transferFrom(buyer.address, borrower.address, PROPERTY_ID);
+    });
+
+    it("Should not sell below the reserve after the auction ends", async function () {
+      await increaseTime(91 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      await increaseTime(8 * DAY);
+
+      await expect(foreclosureAuction.connect(buyer).buy(PROPERTY_ID, usdc("150000"))).to.be.revertedWith(
+        "Auction ended",
+      );
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { InsuranceFund, MockUSDC, MortgagePool } from "../typechain-types";
+
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("InsuranceFund", function () {
+  let mockUSDC: MockUSDC;
+  let mortgagePool: MortgagePool;
+  let insuranceFund: InsuranceFund;
+  let stranger: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    const [manager, liquidityProvider, seniorProvider, strangerSigner] = await ethers.getSigners();
+    stranger = strangerSigner;
+
+    mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+    insuranceFund = await ethers.getContract<InsuranceFund>("InsuranceFund");
+
+    // The deployer stands in for MortgageManager on both the fund and the pool
+    await insuranceFund.authorizeManager(manager.address);
+    await mortgagePool.authorizeBorrower(manager.address);
+    for (const signer of [manager, liquidityProvider, seniorProvider, stranger]) {
+      await mockUSDC.mint(signer.address, usdc("10000"));
+      await mockUSDC.connect(signer).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+      await mockUSDC.connect(signer).approve(await insuranceFund.getAddress(), ethers.MaxUint256);
+    }
+
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000"), liquidityProvider.address);
+    await mortgagePool.connect(seniorProvider).depositSenior(usdc("1000"), seniorProvider.address);
+    await mortgagePool.fundMortgage(manager.address, usdc("1500"));
+  });
+
+  it("Should price premiums on outstanding principal and track insured exposure", async function () {
+    // 0.5% a year on $120,000 is $50 a month
+    expect(await insuranceFund.premiumFor(usdc("120000"))).to.equal(usdc("50"));
+
+    await insuranceFund.updateCoverage(1, usdc("1000"));
+    await insuranceFund.updateCoverage(2, usdc("500"));
+    await insuranceFund.updateCoverage(1, usdc("800"));
+    expect(await insuranceFund.insuredPrincipal()).to.equal(usdc("1300"));
+    expect(await insuranceFund.maxExposure()).to.equal(usdc("650"));
+    expect(await insuranceFund.isSolvent()).to.equal(false);
+
+    await insuranceFund.payPremium(1, usdc("30"));
+    expect(await insuranceFund.reserves()).to.equal(usdc("30"));
+    expect(await insuranceFund.totalPremiums()).to.equal(usdc("30"));
+    expect(await insuranceFund.coverageRatioBPS()).to.equal(230n);
+    expect(await insuranceFund.isSolvent()).to.equal(true);
+
+    await expect(insuranceFund.connect(stranger).payPremium(1, usdc("30"))).to.be.revertedWith(
+      "Not authorized manager",
+    );
+    await expect(insuranceFund.connect(stranger).fileClaim(1, usdc("800"))).to.be.revertedWith(
+      "Not authorized manager",
+    );
+  });
+
+  it("Should pay claims into the pool as recoveries, senior tranche first", async function () {
+    await insuranceFund.updateCoverage(1, usdc("1200"));
+    await insuranceFund.payPremium(1, usdc("1000"));
+    await mortgagePool.realizeLoss(1, usdc("1200"));
+    expect(await mortgagePool.unrecoveredSeniorLosses()).to.equal(usdc("200"));
+
+    // Half the defaulted principal is covered
+    await insuranceFund.fileClaim(1, usdc("1200"));
+    const claim = await insuranceFund.getClaim(0);
+    expect(claim.covered).to.equal(usdc("600"));
+    expect(claim.paid).to.equal(usdc("600"));
+    expect(await insuranceFund.reserves()).to.equal(usdc("400"));
+    expect(await insuranceFund.insuredPrincipal()).to.equal(0n);
+
+    expect(await mortgagePool.unrecoveredSeniorLosses()).to.equal(0n);
+    expect(await mortgagePool.seniorAssets()).to.equal(usdc("1000"));
+    expect(await mortgagePool.totalAssets()).to.equal(usdc("400"));
+    expect(await mortgagePool.totalRecoveries()).to.equal(usdc("600"));
+  });
+
+  it("Should cap payouts at reserves and take recoveries back from anyone", async function () {
+    await insuranceFund.updateCoverage(1, usdc("1200"));
+    await insuranceFund.payPremium(1, usdc("100"));
+    await mortgagePool.realizeLoss(1, usdc("1200"));
+
+    await insuranceFund.fileClaim(1, usdc("1200"));
+    const claim = await insuranceFund.getClaim(0);
+    expect(claim.covered).to.equal(usdc("600"));
+    expect(claim.paid).to.equal(usdc("100"));
+    expect(await insuranceFund.totalClaimsPaid()).to.equal(usdc("100"));
+    expect(await mortgagePool.unrecoveredSeniorLosses()).to.equal(usdc("100"));
+
+    await insuranceFund.connect(stranger).receiveRecovery(1, usdc("100"));
+    expect(await insuranceFund.reserves()).to.equal(usdc("100"));
+    expect(await insuranceFund.totalRecovered()).to.equal(usdc("100"));
+  });
+
+  it("Should only pay into the pool while it is an authorized insurer", async function () {
+    await insuranceFund.updateCoverage(1, usdc("1200"));
+    await insuranceFund.payPremium(1, usdc("100"));
+    await mortgagePool.realizeLoss(1, usdc("1200"));
+
+    await mortgagePool.revokeInsurer(await insuranceFund.getAddress());
+    await expect(insuranceFund.fileClaim(1, usdc("1200"))).to.be.revertedWith("Not an insurer");
+
+    // Nothing left to pay: the claim is recorded without calling the pool
+    await insuranceFund.setCoverageTerms(0, 200);
+    await insuranceFund.fileClaim(1, usdc("1200"));
+    expect((await insuranceFund.getClaim(0)).paid).to.equal(0n);
+  });
+
+  it("Should only let the owner change the policy terms, within limits", async function () {
+    await insuranceFund.setPremiumRate(100);
+    expect(await insuranceFund.premiumFor(usdc("120000"))).to.equal(usdc("100"));
+    await expect(insuranceFund.setPremiumRate(501)).to.be.revertedWith("Premium rate too high");
+    await expect(insuranceFund.setCoverageTerms(10001, 200)).to.be.revertedWith("Coverage above 100%");
+    await expect(insuranceFund.connect(stranger).setPremiumRate(100)).to.be.revertedWithCustomError(
+      insuranceFund,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { LoanProductRegistry, MockUSDC, MortgageManager, MortgagePool } from "../typechain-types";
+
+const DAY = 24 * 60 * 60;
+const PROPERTY_ID = 1; // $150,000 demo property
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("LoanProductRegistry", function () {
+  let productRegistry: LoanProductRegistry;
+
+  // A valid 15/30-year fixed product; tests override single fields
+  const product = (overrides: Partial<LoanProductRegistry.LoanProductStruct> = {}) => ({
+    name: "Test Fixed",
+    minDownPaymentBPS: 1000,
+    allowedTerms: [180, 360],
+    rateModel: ethers.ZeroAddress,
+    lateFeeBPS: 500,
+    gracePeriod: 15 * DAY,
+    defaultPeriod: 90 * DAY,
+    scheduleType: 0, // Amortizing
+    interestOnlyMonths: 0,
+    balloonAmortizationMonths: 0,
+    arm: { initialFixedMonths: 0, resetIntervalMonths: 0, marginBPS: 0, perResetCapBPS: 0, lifetimeCapBPS: 0 },
+    active: true,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    productRegistry = await ethers.getContract<LoanProductRegistry>("LoanProductRegistry");
+  });
+
+  it("Should add products at the next ID and update them in place", async function () {
+    expect(await productRegistry.productCount()).to.equal(5n); // Deployed demo products
+    await expect(productRegistry.setProduct(6, product())).to.be.revertedWith("Invalid product ID");
+
+    await productRegistry.setProduct(5, product());
+    expect(await productRegistry.productCount()).to.equal(6n);
+    expect((await productRegistry.getProduct(5)).allowedTerms).to.deep.equal([180n, 360n]);
+    expect(await productRegistry.isTermAllowed(5, 360)).to.equal(true);
+    expect(await productRegistry.isTermAllowed(5, 240)).to.equal(false);
+
+    await productRegistry.setProduct(5, product({ name: "Renamed", allowedTerms: [240] }));
+    expect(await productRegistry.productCount()).to.equal(6n);
+    expect((await productRegistry.getProduct(5)).name).to.equal("Renamed");
+    expect(await productRegistry.isTermAllowed(5, 240)).to.equal(true);
+    await expect(productRegistry.getProduct(6)).to.be.revertedWith("Invalid product ID");
+  });
+
+  it("Should reject products with invalid terms", async function () {
+    await expect(productRegistry.setProduct(5, product({ minDownPaymentBPS: 0 }))).to.be.revertedWith(
+      "Invalid down payment",
+    );
+    await expect(productRegistry.setProduct(5, product({ minDownPaymentBPS: 10000 }))).to.be.revertedWith(
+      "Invalid down payment",
+    );
+    await expect(productRegistry.setProduct(5, product({ allowedTerms: [] }))).to.be.revertedWith("No terms allowed");
+    await expect(productRegistry.setProduct(5, product({ allowedTerms: [0, 360] }))).to.be.revertedWith("Invalid term");
+    await expect(productRegistry.setProduct(5, product({ lateFeeBPS: 1001 }))).to.be.revertedWith("Late fee too high");
+    await expect(productRegistry.setProduct(5, product({ defaultPeriod: 15 * DAY }))).to.be.revertedWith(
+      "Default before grace ends",
+    );
+
+    const [, stranger] = await ethers.getSigners();
+    await expect(productRegistry.connect(stranger).setProduct(5, product())).to.be.revertedWithCustomError(
+      productRegistry,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+
+  it("Should check interest-only and balloon settings against every allowed term", async function () {
+    await expect(productRegistry.setProduct(5, product({ interestOnlyMonths: 60 }))).to.be.revertedWith(
+      "Amortizing product has IO/balloon months",
+    );
+
+    // Interest-only: the IO period must end before the shortest term
+    const interestOnly = { scheduleType: 1, allowedTerms: [180, 360] };
+    await expect(productRegistry.setProduct(5, product({ ...interestOnly, interestOnlyMonths: 0 }))).to.be.revertedWith(
+      "Invalid interest-only period",
+    );
+    await expect(
+      productRegistry.setProduct(5, product({ ...interestOnly, interestOnlyMonths: 180 })),
+    ).to.be.revertedWith("Invalid interest-only period");
+    await productRegistry.setProduct(5, product({ ...interestOnly, interestOnlyMonths: 120 }));
+
+    // Balloon: the payment must be sized past the longest term, leaving a balance due at maturity
+    const balloon = { scheduleType: 2, allowedTerms: [60, 120] };
+    await expect(
+      productRegistry.setProduct(6, product({ ...balloon, balloonAmortizationMonths: 120 })),
+    ).to.be.revertedWith("Balloon must amortize past maturity");
+    await productRegistry.setProduct(6, product({ ...balloon, balloonAmortizationMonths: 360 }));
+  });
+
+  it("Should only accept ARM settings that can reset before maturity within caps", async function () {
+    const arm = {
+      initialFixedMonths: 60,
+      resetIntervalMonths: 12,
+      marginBPS: 250,
+      perResetCapBPS: 200,
+      lifetimeCapBPS: 500,
+    };
+
+    // The fixed period has to end before the shortest term
+    await expect(
+      productRegistry.setProduct(5, product({ arm: { ...arm, initialFixedMonths: 180 } })),
+    ).to.be.revertedWith("Fixed period not before maturity");
+    // A reset needs caps to bound it
+    await expect(productRegistry.setProduct(5, product({ arm: { ...arm, perResetCapBPS: 0 } }))).to.be.revertedWith(
+      "ARM caps required",
+    );
+    await expect(productRegistry.setProduct(5, product({ arm: { ...arm, lifetimeCapBPS: 0 } }))).to.be.revertedWith(
+      "ARM caps required",
+    );
+    // Without a reset interval the rate never adjusts, so ARM terms are a misconfiguration
+    await expect(
+      productRegistry.setProduct(5, product({ arm: { ...arm, resetIntervalMonths: 0 } })),
+    ).to.be.revertedWith("ARM terms without reset interval");
+
+    await productRegistry.setProduct(5, product({ arm }));
+    expect((await productRegistry.getProduct(5)).arm.resetIntervalMonths).to.equal(12n);
+  });
+
+  describe("Applications", function () {
+    let mortgageManager: MortgageManager;
+
+    beforeEach(async () => {
+      const [, liquidityProvider, borrower] = await ethers.getSigners();
+      const mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+      const mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+      mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+
+      await mockUSDC.mint(liquidityProvider.address, usdc("1000000"));
+      await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+      await mockUSDC.mint(borrower.address, usdc("100000"));
+      await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+      mortgageManager = mortgageManager.connect(borrower);
+    });
+
+    it("Should only accept applications for an active product's terms and down payment", async function () {
+      await expect(mortgageManager.applyForMortgage(PROPERTY_ID, 0, 200, usdc("30000"))).to.be.revertedWith(
+        "Term not offered by product",
+      );
+      // The 5/1 ARM asks for 15% down
+      await expect(mortgageManager.applyForMortgage(PROPERTY_ID, 1, 360, usdc("15000"))).to.be.revertedWith(
+        "Insufficient down payment",
+      );
+      await expect(mortgageManager.applyForMortgage(PROPERTY_ID, 5, 360, usdc("30000"))).to.be.revertedWith(
+        "Invalid product ID",
+      );
+
+      await productRegistry.setProductActive(0, false);
+      expect((await productRegistry.getProducts())[0].active).to.equal(false);
+      await expect(mortgageManager.applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"))).to.be.revertedWith(
+        "Product not available",
+      );
+    });
+
+    it("Should lock a product's servicing terms into the loan at application", async function () {
+      await mortgageManager.applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+      await productRegistry.setProduct(0, product({ lateFeeBPS: 1000, gracePeriod: 5 * DAY }));
+
+      const terms = await mortgageManager.getServicingTerms(PROPERTY_ID);
+      expect(terms.lateFeeBPS).to.equal(500n);
+      expect(terms.gracePeriod).to.equal(BigInt(15 * DAY));
+      expect(terms.defaultPeriod).to.equal(BigInt(90 * DAY));
+    });
+  });
+});
@@ -0,0 +1,632 @@
+import { expect } from "chai";
+import { deployments, ethers, network } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { IndexOracle, MockUSDC, MortgageManager, MortgagePool } from "../typechain-types";
+
+const DAY = 24 * 60 * 60;
+const PROPERTY_ID = 1; // $150,000 demo property
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("MortgageManager", function () {
+  let mockUSDC: MockUSDC;
+  let mortgagePool: MortgagePool;
+  let mortgageManager: MortgageManager;
+  let borrower: HardhatEthersSigner;
+
+  const increaseTime = async (seconds: number) => {
+    await network.provider.send("evm_increaseTime", [seconds]);
+    await network.provider.send("evm_mine", []);
+  };
+
+  // Apply and have the deployer approve; 20% down on a 30-year conventional fixed loan by default
+  const originate = async (productId = 0, durationMonths = 360, downPayment = usdc("30000")) => {
+    await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, productId, durationMonths, downPayment);
+    await mortgageManager.approveApplication(PROPERTY_ID);
+  };
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    const [, liquidityProvider, borrowerSigner] = await ethers.getSigners();
+    borrower = borrowerSigner;
+
+    mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+    mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+
+    for (const signer of [liquidityProvider, borrower]) {
+      await mockUSDC.mint(signer.address, usdc("1000000"));
+    }
+    await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+  });
+
+  describe("Amortization", function () {
+    it("Should size the level payment with the annuity formula", async function () {
+      // $100,000 at 6% over 30 years is $599.55 a month
+      expect(await mortgageManager.calculateMonthlyPayment(usdc("100000"), 600, 360)).to.be.closeTo(
+        usdc("599.55"),
+        usdc("0.01"),
+      );
+      // $200,000 at 4.5% over 15 years is $1,529.99 a month
+      expect(await mortgageManager.calculateMonthlyPayment(usdc("200000"), 450, 180)).to.be.closeTo(
+        usdc("1529.99"),
+        usdc("0.01"),
+      );
+      // Zero-rate loans repay equal principal installments
+      expect(await mortgageManager.calculateMonthlyPayment(usdc("120000"), 0, 120)).to.equal(usdc("1000"));
+    });
+
+    it("Should build a schedule that repays the loan to a zero balance", async function () {
+      await originate();
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      const schedule = await mortgageManager.getAmortizationSchedule(PROPERTY_ID);
+
+      expect(schedule.length).to.equal(360);
+      expect(schedule[0].paymentNumber).to.equal(1n);
+      expect(schedule[0].payment).to.equal(mortgage.monthlyPayment);
+      expect(schedule[359].remainingBalance).to.equal(0n);
+      expect(schedule.reduce((sum, entry) => sum + entry.principal, 0n)).to.equal(mortgage.loanAmount);
+
+      // Interest falls and principal grows as the balance is paid down
+      expect(schedule[0].interest).to.be.gt(schedule[1].interest);
+      expect(schedule[0].principal).to.be.lt(schedule[1].principal);
+    });
+
+    it("Should track outstanding principal and rebuild the schedule from the payments made", async function () {
+      await originate();
+      const [scheduledPayment] = await mortgageManager.getPaymentDue(PROPERTY_ID);
+      const [firstPayment] = await mortgageManager.getAmortizationSchedule(PROPERTY_ID);
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(scheduledPayment).to.equal(firstPayment.payment);
+      expect(mortgage.paymentsCount).to.equal(1n);
+      expect(mortgage.principalOutstanding).to.equal(firstPayment.remainingBalance);
+      expect(mortgage.interestPaid).to.equal(firstPayment.interest);
+
+      const schedule = await mortgageManager.getAmortizationSchedule(PROPERTY_ID);
+      expect(schedule.length).to.equal(359);
+      expect(schedule[0].paymentNumber).to.equal(2n);
+      expect(schedule[358].paymentNumber).to.equal(360n);
+      expect(schedule[358].remainingBalance).to.equal(0n);
+      expect(schedule.reduce((sum, entry) => sum + entry.principal, 0n)).to.equal(mortgage.principalOutstanding);
+    });
+  });
+
+  describe("Underwriting", function () {
+    beforeEach(async () => {
+      await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+    });
+
+    it("Should hold the down payment in escrow until an underwriter reviews the application", async function () {
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(1); // Applied
+      expect(mortgage.loanAmount).to.equal(usdc("120000"));
+      expect(await mortgageManager.totalEscrowed()).to.equal(usdc("30000"));
+      expect(await mockUSDC.balanceOf(await mortgageManager.getAddress())).to.equal(usdc("30000"));
+      expect(await mortgageManager.getPendingApplications()).to.deep.equal([BigInt(PROPERTY_ID)]);
+      expect(await mortgagePool.activeMortgages()).to.equal(0n); // Nothing funded yet
+
+      await expect(mortgageManager.connect(borrower).approveApplication(PROPERTY_ID)).to.be.revertedWith(
+        "Not an underwriter",
+      );
+      await expect(
+        mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000")),
+      ).to.be.revertedWith("Property already mortgaged");
+    });
+
+    it("Should fund the loan and release the escrow to the seller on approval", async function () {
+      const [seller] = await ethers.getSigners(); // The deployer is on record as the demo properties' seller
+      const sellerBefore = await mockUSDC.balanceOf(seller.address);
+      await mortgageManager.approveApplication(PROPERTY_ID); // Deployer is an underwriter
+
+      // The seller receives the full price: the pool's loan plus the escrowed down payment
+      expect((await mockUSDC.balanceOf(seller.address)) - sellerBefore).to.equal(usdc("150000"));
+      expect(await mockUSDC.balanceOf(await mortgageManager.getAddress())).to.equal(0n);
+
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(2); // Active
+      expect(mortgage.startTimestamp).to.be.gt(0n);
+      expect(await mortgageManager.totalEscrowed()).to.equal(0n);
+      expect(await mortgageManager.getPendingApplications()).to.deep.equal([]);
+      expect(await mortgagePool.activeMortgages()).to.equal(usdc("120000"));
+    });
+
+    it("Should refund the down payment when an application is rejected", async function () {
+      const balanceBefore = await mockUSDC.balanceOf(borrower.address);
+      await mortgageManager.rejectApplication(PROPERTY_ID, "Income could not be verified");
+
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(0); // None
+      expect(await mockUSDC.balanceOf(borrower.address)).to.equal(balanceBefore + usdc("30000"));
+      expect(await mortgageManager.totalEscrowed()).to.equal(0n);
+      expect(await mortgageManager.getBorrowerMortgages(borrower.address)).to.deep.equal([]);
+
+      // The property is free for a new application
+      await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+    });
+
+    it("Should let anyone expire an unreviewed application and refund the down payment", async function () {
+      await expect(mortgageManager.expireApplication(PROPERTY_ID)).to.be.revertedWith("Application not expired");
+
+      await increaseTime(15 * DAY);
+      expect(await mortgageManager.isApplicationExpired(PROPERTY_ID)).to.equal(true);
+      await expect(mortgageManager.approveApplication(PROPERTY_ID)).to.be.revertedWith("Application expired");
+
+      const balanceBefore = await mockUSDC.balanceOf(borrower.address);
+      const [, , , stranger] = await ethers.getSigners();
+      await mortgageManager.connect(stranger).expireApplication(PROPERTY_ID);
+
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(0); // None
+      expect(await mockUSDC.balanceOf(borrower.address)).to.equal(balanceBefore + usdc("30000"));
+      expect(await mortgageManager.totalEscrowed()).to.equal(0n);
+    });
+  });
+
+  describe("Prepayment", function () {
+    beforeEach(async () => {
+      await originate();
+    });
+
+    it("Should keep the term and lower the payment when reamortizing", async function () {
+      const before = await mortgageManager.getMortgage(PROPERTY_ID);
+      await mortgageManager.connect(borrower).prepayPrincipal(PROPERTY_ID, usdc("20000"), 1); // Reamortize
+
+      const after = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(after.principalOutstanding).to.equal(usdc("100000"));
+      expect(after.durationMonths).to.equal(before.durationMonths);
+      expect(after.maturityTimestamp).to.equal(before.maturityTimestamp);
+      expect(after.monthlyPayment).to.equal(
+        await mortgageManager.calculateMonthlyPayment(usdc("100000"), after.interestRateBPS, 360),
+      );
+      expect(after.monthlyPayment).to.be.lt(before.monthlyPayment);
+      expect(after.ownershipSharesBPS).to.equal(3333n); // $50k equity in a $150k home
+    });
+
+    it("Should keep the payment and bring maturity forward when shortening the term", async function () {
+      const before = await mortgageManager.getMortgage(PROPERTY_ID);
+      await mortgageManager.connect(borrower).prepayPrincipal(PROPERTY_ID, usdc("20000"), 0); // ShortenTerm
+
+      const after = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(after.monthlyPayment).to.equal(before.monthlyPayment);
+      expect(after.durationMonths).to.be.lt(before.durationMonths);
+      expect(after.maturityTimestamp).to.equal(
+        after.lastPaymentTimestamp + after.durationMonths * BigInt(await mortgageManager.SECONDS_PER_MONTH()),
+      );
+
+      // The shorter schedule still clears the balance by the new maturity
+      const schedule = await mortgageManager.getAmortizationSchedule(PROPERTY_ID);
+      expect(schedule.length).to.equal(Number(after.durationMonths));
+      expect(schedule[schedule.length - 1].remainingBalance).to.equal(0n);
+    });
+
+    it("Should send the borrower to payoff for the full balance", async function () {
+      await expect(
+        mortgageManager.connect(borrower).prepayPrincipal(PROPERTY_ID, usdc("120000"), 1),
+      ).to.be.revertedWith("Use payoff to repay in full");
+
+      const [payoffAmount, principal, accruedInterest] = await mortgageManager.getPayoffQuote(PROPERTY_ID);
+      expect(principal).to.equal(usdc("120000"));
+      expect(payoffAmount).to.equal(principal + accruedInterest);
+
+      await mortgageManager.connect(borrower).payoff(PROPERTY_ID);
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(3); // PaidOff
+      expect(mortgage.principalOutstanding).to.equal(0n);
+      expect(mortgage.ownershipSharesBPS).to.equal(10000n);
+      expect(await mortgagePool.activeMortgages()).to.equal(0n);
+    });
+  });
+
+  describe("Adjustable rate", function () {
+    const MONTH = 30 * DAY;
+    let indexOracle: IndexOracle;
+    let initialRate: bigint;
+
+    beforeEach(async () => {
+      indexOracle = await ethers.getContract<IndexOracle>("IndexOracle");
+      await originate(1); // 5/1 ARM: resets yearly at index + 2.50%, ±2% a reset and ±5% over the loan
+      initialRate = (await mortgageManager.getArmTerms(PROPERTY_ID)).initialRateBPS;
+    });
+
+    it("Should hold the initial rate through the fixed period", async function () {
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.interestRateBPS).to.equal(initialRate);
+      expect((await mortgageManager.getArmTerms(PROPERTY_ID)).nextResetTimestamp).to.equal(
+        mortgage.startTimestamp + BigInt(60 * MONTH),
+      );
+      await expect(mortgageManager.resetRate(PROPERTY_ID)).to.be.revertedWith("Reset not due");
+    });
+
+    it("Should cap rate increases per reset and over the life of the loan", async function () {
+      await indexOracle.setIndexRate(1000); // Index + margin would be 12.50%
+      await increaseTime(60 * MONTH);
+
+      const [, minRate, maxRate] = await mortgageManager.getNextResetPreview(PROPERTY_ID);
+      expect(minRate).to.equal(initialRate - 200n);
+      expect(maxRate).to.equal(initialRate + 200n);
+
+      await mortgageManager.resetRate(PROPERTY_ID);
+      let mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.interestRateBPS).to.equal(initialRate + 200n);
+      expect(mortgage.monthlyPayment).to.equal(
+        await mortgageManager.calculateMonthlyPayment(mortgage.principalOutstanding, initialRate + 200n, 360),
+      );
+      await expect(mortgageManager.resetRate(PROPERTY_ID)).to.be.revertedWith("Reset not due");
+
+      await increaseTime(12 * MONTH);
+      await mortgageManager.resetRate(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).interestRateBPS).to.equal(initialRate + 400n);
+
+      // The lifetime cap stops the third reset short of another full step
+      await increaseTime(12 * MONTH);
+      await mortgageManager.resetRate(PROPERTY_ID);
+      mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.interestRateBPS).to.equal(initialRate + 500n);
+    });
+
+    it("Should floor rate cuts at the per-reset cap, then follow the index", async function () {
+      await indexOracle.setIndexRate(0); // Index + margin would be 2.50%
+      await increaseTime(60 * MONTH);
+      await mortgageManager.resetRate(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).interestRateBPS).to.equal(initialRate - 200n);
+
+      // Index + margin is back inside both caps at the next reset
+      expect(initialRate - 400n).to.be.lt(250n);
+      await increaseTime(12 * MONTH);
+      await mortgageManager.resetRate(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).interestRateBPS).to.equal(250n);
+    });
+  });
+
+  describe("Interest-only and balloon loans", function () {
+    const MONTH = 30 * DAY;
+    // One month's interest, rounded like MortgageMath.monthlyInterest
+    const monthlyInterest = (balance: bigint, rateBPS: bigint) =>
+      (balance * ((rateBPS * 10n ** 18n) / 120000n)) / 10n ** 18n;
+
+    it("Should collect interest only, then amortize over the remaining term", async function () {
+      await originate(3); // 10 years interest-only, then 20 years amortizing
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.interestOnlyMonths).to.equal(120n);
+      expect(mortgage.monthlyPayment).to.equal(
+        await mortgageManager.calculateMonthlyPayment(usdc("120000"), mortgage.interestRateBPS, 240),
+      );
+
+      const [scheduledPayment] = await mortgageManager.getPaymentDue(PROPERTY_ID);
+      expect(scheduledPayment).to.equal(monthlyInterest(usdc("120000"), mortgage.interestRateBPS));
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).principalOutstanding).to.equal(usdc("120000"));
+
+      const schedule = await mortgageManager.getAmortizationSchedule(PROPERTY_ID);
+      expect(schedule.length).to.equal(359);
+      expect(schedule[118].principal).to.equal(0n); // Payment 120, the last interest-only one
+      expect(schedule[119].payment).to.equal(mortgage.monthlyPayment);
+      expect(schedule[358].remainingBalance).to.equal(0n);
+    });
+
+    it("Should size balloon payments on the long schedule and collect the balance at maturity", async function () {
+      await originate(4, 60); // 5-year balloon on a 30-year schedule
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.maturityTimestamp).to.equal(mortgage.startTimestamp + BigInt(60 * MONTH));
+      expect(mortgage.monthlyPayment).to.equal(
+        await mortgageManager.calculateMonthlyPayment(usdc("120000"), mortgage.interestRateBPS, 360),
+      );
+
+      const schedule = await mortgageManager.getAmortizationSchedule(PROPERTY_ID);
+      expect(schedule.length).to.equal(60);
+      const balloon = schedule[59];
+      expect(balloon.principal).to.equal(schedule[58].remainingBalance);
+      expect(balloon.principal).to.be.gt(usdc("100000"));
+      expect(balloon.remainingBalance).to.equal(0n);
+    });
+
+    it("Should default a balloon loan left unpaid past maturity", async function () {
+      await originate(4, 60);
+      for (let i = 0; i < 59; i++) {
+        await increaseTime(MONTH);
+        await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      }
+
+      // Only the balloon is left, and it clears the balance
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      const [scheduledPayment] = await mortgageManager.getPaymentDue(PROPERTY_ID);
+      expect(scheduledPayment).to.equal(
+        mortgage.principalOutstanding + monthlyInterest(mortgage.principalOutstanding, mortgage.interestRateBPS),
+      );
+
+      // Well inside the 90-day default period, but past maturity plus the 15-day grace period
+      await increaseTime(44 * DAY);
+      expect(await mortgageManager.isPastMaturity(PROPERTY_ID)).to.equal(false);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(2); // Active
+
+      await increaseTime(2 * DAY);
+      expect(await mortgageManager.isPastMaturity(PROPERTY_ID)).to.equal(true);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(5); // Foreclosed
+    });
+  });
+
+  describe("Escrow", function () {
+    beforeEach(async () => {
+      await originate();
+      // $2,400 taxes and $1,200 insurance a year, plus a two-month cushion the empty account is short of
+      await mortgageManager.runEscrowAnalysis(PROPERTY_ID, usdc("2400"), usdc("1200"));
+    });
+
+    it("Should spread projected bills and the cushion shortage over monthly payments", async function () {
+      const escrow = await mortgageManager.getEscrowAccount(PROPERTY_ID);
+      expect(escrow.monthlyEscrow).to.equal(usdc("350")); // ($3,600 + $600 shortage) / 12
+      expect(escrow.annualTaxes).to.equal(usdc("2400"));
+      expect(escrow.annualInsurance).to.equal(usdc("1200"));
+
+      const [, escrowPayment] = await mortgageManager.getPaymentDue(PROPERTY_ID);
+      expect(escrowPayment).to.equal(usdc("350"));
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      expect((await mortgageManager.getEscrowAccount(PROPERTY_ID)).balance).to.equal(usdc("350"));
+      expect(await mortgageManager.totalEscrowBalances()).to.equal(usdc("350"));
+
+      await expect(mortgageManager.runEscrowAnalysis(PROPERTY_ID, usdc("2400"), usdc("1200"))).to.be.revertedWith(
+        "Analysis not due",
+      );
+      await expect(
+        mortgageManager.connect(borrower).runEscrowAnalysis(PROPERTY_ID, 0, 0),
+      ).to.be.revertedWithCustomError(mortgageManager, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should pay bills out of escrow and record each disbursement", async function () {
+      const [, , , taxAuthority] = await ethers.getSigners();
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+
+      await expect(
+        mortgageManager.disburseEscrow(PROPERTY_ID, taxAuthority.address, usdc("701"), "County tax"),
+      ).to.be.revertedWith("Insufficient escrow balance");
+      await mortgageManager.disburseEscrow(PROPERTY_ID, taxAuthority.address, usdc("600"), "County tax");
+
+      expect(await mockUSDC.balanceOf(taxAuthority.address)).to.equal(usdc("600"));
+      expect((await mortgageManager.getEscrowAccount(PROPERTY_ID)).balance).to.equal(usdc("100"));
+      expect(await mortgageManager.totalEscrowBalances()).to.equal(usdc("100"));
+      const [disbursement] = await mortgageManager.getEscrowDisbursements(PROPERTY_ID);
+      expect(disbursement.payee).to.equal(taxAuthority.address);
+      expect(disbursement.amount).to.equal(usdc("600"));
+      expect(disbursement.memo).to.equal("County tax");
+    });
+
+    it("Should refund the surplus above the cushion at the next annual analysis", async function () {
+      for (let i = 0; i < 12; i++) {
+        await increaseTime(30 * DAY);
+        await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      }
+      await increaseTime(5 * DAY);
+      expect((await mortgageManager.getEscrowAccount(PROPERTY_ID)).balance).to.equal(usdc("4200"));
+
+      // Nothing was disbursed, so everything above the $600 cushion goes back to the borrower
+      const balanceBefore = await mockUSDC.balanceOf(borrower.address);
+      await mortgageManager.runEscrowAnalysis(PROPERTY_ID, usdc("2400"), usdc("1200"));
+
+      const escrow = await mortgageManager.getEscrowAccount(PROPERTY_ID);
+      expect(escrow.balance).to.equal(usdc("600"));
+      expect(escrow.monthlyEscrow).to.equal(usdc("300"));
+      expect(await mockUSDC.balanceOf(borrower.address)).to.equal(balanceBefore + usdc("3600"));
+      expect(await mortgageManager.totalEscrowBalances()).to.equal(usdc("600"));
+    });
+
+    it("Should refund the escrow balance to the borrower when the loan defaults", async function () {
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      await increaseTime(91 * DAY);
+
+      const balanceBefore = await mockUSDC.balanceOf(borrower.address);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+
+      const escrow = await mortgageManager.getEscrowAccount(PROPERTY_ID);
+      expect(escrow.balance).to.equal(0n);
+      expect(escrow.monthlyEscrow).to.equal(0n);
+      expect(await mortgageManager.totalEscrowBalances()).to.equal(0n);
+      expect(await mockUSDC.balanceOf(borrower.address)).to.equal(balanceBefore + usdc("350"));
+    });
+  });
+
+  describe("Forbearance and modification", function () {
+    const MONTH = 30 * DAY;
+    // Interest accrued pro rata since the last payment, rounded like the manager
+    const accruedInterest = (balance: bigint, rateBPS: bigint, elapsed: bigint) =>
+      (balance * ((rateBPS * 10n ** 18n) / 120000n) * elapsed) / (10n ** 18n * BigInt(MONTH));
+    const latestTimestamp = async () => BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+    beforeEach(async () => {
+      await originate();
+    });
+
+    it("Should pause payments and defer the interest accrued since the last payment", async function () {
+      const before = await mortgageManager.getMortgage(PROPERTY_ID);
+      await increaseTime(20 * DAY); // Unpaid time before the hardship is reported
+
+      await expect(mortgageManager.connect(borrower).grantForbearance(PROPERTY_ID, 3, false)).to.be.revertedWith(
+        "Not a servicer",
+      );
+      await mortgageManager.grantForbearance(PROPERTY_ID, 3, false); // Deployer is a servicer
+      let mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(6); // Forbearance
+      expect(mortgage.maturityTimestamp).to.equal(before.maturityTimestamp + BigInt(3 * MONTH));
+      await expect(mortgageManager.connect(borrower).makePayment(PROPERTY_ID)).to.be.revertedWith(
+        "Mortgage not active",
+      );
+      await expect(mortgageManager.connect(borrower).endForbearance(PROPERTY_ID)).to.be.revertedWith(
+        "Forbearance not over",
+      );
+
+      await increaseTime(3 * MONTH);
+      await mortgageManager.connect(borrower).endForbearance(PROPERTY_ID);
+
+      // Interest covers the 20 days before forbearance as well as the forbearance itself
+      const elapsed = (await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd - before.lastPaymentTimestamp;
+      const deferred = accruedInterest(usdc("120000"), before.interestRateBPS, elapsed);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).deferredInterest).to.equal(deferred);
+      mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(2); // Active
+      expect(mortgage.principalOutstanding).to.equal(usdc("120000"));
+
+      // Deferred interest is collected with the next payment
+      const [scheduledPayment] = await mortgageManager.getPaymentDue(PROPERTY_ID);
+      expect(scheduledPayment).to.equal(mortgage.monthlyPayment + deferred);
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).deferredInterest).to.equal(0n);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).interestPaid).to.be.gt(deferred);
+    });
+
+    it("Should capitalize forbearance interest and reamortize the larger balance", async function () {
+      const before = await mortgageManager.getMortgage(PROPERTY_ID);
+      await mortgageManager.grantForbearance(PROPERTY_ID, 2, true);
+      await increaseTime(2 * MONTH);
+      await mortgageManager.endForbearance(PROPERTY_ID);
+
+      const elapsed = (await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd - before.lastPaymentTimestamp;
+      const capitalized = accruedInterest(usdc("120000"), before.interestRateBPS, elapsed);
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.principalOutstanding).to.equal(usdc("120000") + capitalized);
+      expect(mortgage.monthlyPayment).to.equal(
+        await mortgageManager.calculateMonthlyPayment(mortgage.principalOutstanding, mortgage.interestRateBPS, 360),
+      );
+      expect(await mortgagePool.activeMortgages()).to.equal(mortgage.principalOutstanding);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).deferredInterest).to.equal(0n);
+    });
+
+    it("Should treat an expired forbearance as ended at its scheduled end", async function () {
+      await mortgageManager.grantForbearance(PROPERTY_ID, 3, false);
+      const scheduledEnd = (await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd;
+
+      // Nobody ends it: the default clock still runs from the scheduled end, not from whenever it is ended
+      await increaseTime(3 * MONTH + 89 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(2); // Active
+      expect(mortgage.lastPaymentTimestamp).to.equal(scheduledEnd);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd).to.equal(scheduledEnd);
+
+      await increaseTime(2 * DAY);
+      await mortgageManager.checkDefault(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).status).to.equal(5); // Foreclosed
+    });
+
+    it("Should let the borrower pay once forbearance expires without ending it first", async function () {
+      await mortgageManager.grantForbearance(PROPERTY_ID, 2, false);
+      const scheduledEnd = (await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd;
+      await increaseTime(2 * MONTH + 10 * DAY);
+
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(2); // Active
+      expect(mortgage.paymentsCount).to.equal(1n);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd).to.equal(scheduledEnd);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).deferredInterest).to.equal(0n);
+    });
+
+    it("Should only push maturity back by the time used when a servicer ends forbearance early", async function () {
+      const before = await mortgageManager.getMortgage(PROPERTY_ID);
+      await mortgageManager.grantForbearance(PROPERTY_ID, 6, false);
+      const start = (await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceStart;
+
+      await increaseTime(2 * MONTH);
+      await mortgageManager.endForbearance(PROPERTY_ID);
+      const end = await latestTimestamp();
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.maturityTimestamp).to.equal(before.maturityTimestamp + (end - start));
+      expect(mortgage.lastPaymentTimestamp).to.equal(end);
+      expect((await mortgageManager.getWorkout(PROPERTY_ID)).forbearanceEnd).to.equal(end);
+    });
+
+    it("Should modify the rate and term and keep the original terms on record", async function () {
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      const before = await mortgageManager.getMortgage(PROPERTY_ID);
+
+      await expect(mortgageManager.modifyLoan(PROPERTY_ID, 2001, 480)).to.be.revertedWith("Rate too high (max 20%)");
+      await mortgageManager.modifyLoan(PROPERTY_ID, 300, 480);
+
+      const mortgage = await mortgageManager.getMortgage(PROPERTY_ID);
+      expect(mortgage.status).to.equal(7); // Modified
+      expect(mortgage.interestRateBPS).to.equal(300n);
+      expect(mortgage.durationMonths).to.equal(481n); // One payment made, 480 to go
+      expect(mortgage.monthlyPayment).to.equal(
+        await mortgageManager.calculateMonthlyPayment(before.principalOutstanding, 300, 480),
+      );
+      expect(mortgage.maturityTimestamp).to.equal(before.lastPaymentTimestamp + BigInt(480 * MONTH));
+
+      const workout = await mortgageManager.getWorkout(PROPERTY_ID);
+      expect(workout.originalRateBPS).to.equal(before.interestRateBPS);
+      expect(workout.originalDurationMonths).to.equal(360n);
+      expect(workout.originalMonthlyPayment).to.equal(before.monthlyPayment);
+
+      // Modified loans keep taking payments on the new terms
+      await mortgageManager.connect(borrower).makePayment(PROPERTY_ID);
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).paymentsCount).to.equal(2n);
+    });
+  });
+
+  describe("Permit", function () {
+    // EIP-2612 approval of the manager, signed by the borrower
+    const signPermit = async (value: bigint) => {
+      const deadline = BigInt((await ethers.provider.getBlock("latest"))!.timestamp + DAY);
+      const spender = await mortgageManager.getAddress();
+      const signature = await borrower.signTypedData(
+        {
+          name: "Mock USDC",
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await mockUSDC.getAddress(),
+        },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { owner: borrower.address, spender, value, nonce: await mockUSDC.nonces(borrower.address), deadline },
+      );
+      const { v, r, s } = ethers.Signature.from(signature);
+      return [value, deadline, v, r, s] as const;
+    };
+
+    beforeEach(async () => {
+      await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), 0);
+    });
+
+    it("Should apply and pay with a signed permit instead of an approval", async function () {
+      await mortgageManager
+        .connect(borrower)
+        .permitAndCall(
+          ...(await signPermit(usdc("30000"))),
+          mortgageManager.interface.encodeFunctionData("applyForMortgage", [PROPERTY_ID, 0, 360, usdc("30000")]),
+        );
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).borrower).to.equal(borrower.address);
+      await mortgageManager.approveApplication(PROPERTY_ID);
+
+      const [scheduledPayment, escrowPayment, lateFee, insurancePremium] =
+        await mortgageManager.getPaymentDue(PROPERTY_ID);
+      await mortgageManager
+        .connect(borrower)
+        .permitAndCall(
+          ...(await signPermit(scheduledPayment + escrowPayment + lateFee + insurancePremium)),
+          mortgageManager.interface.encodeFunctionData("makePayment", [PROPERTY_ID]),
+        );
+      expect((await mortgageManager.getMortgage(PROPERTY_ID)).paymentsCount).to.equal(1n);
+      expect(await mockUSDC.allowance(borrower.address, await mortgageManager.getAddress())).to.equal(0n);
+    });
+
+    it("Should pass on the called function's revert reason", async function () {
+      await expect(
+        mortgageManager
+          .connect(borrower)
+          .permitAndCall(
+            ...(await signPermit(usdc("1000"))),
+            mortgageManager.interface.encodeFunctionData("makePayment", [PROPERTY_ID]),
+          ),
+      ).to.be.revertedWith("Mortgage not active");
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { expect } from "chai";
+import { deployments, ethers, network } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockUSDC, MortgagePool } from "../typechain-types";
+
+const DAY = 24 * 60 * 60;
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("MortgagePool", function () {
+  let mockUSDC: MockUSDC;
+  let mortgagePool: MortgagePool;
+  let manager: HardhatEthersSigner;
+  let liquidityProvider: HardhatEthersSigner;
+  let otherProvider: HardhatEthersSigner;
+
+  const increaseTime = async (seconds: number) => {
+    await network.provider.send("evm_increaseTime", [seconds]);
+    await network.provider.send("evm_mine", []);
+  };
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    [manager, liquidityProvider, otherProvider] = await ethers.getSigners();
+
+    mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+
+    // The deployer stands in for MortgageManager so tests drive funding, repayments and losses directly
+    await mortgagePool.authorizeBorrower(manager.address);
+    for (const signer of await ethers.getSigners()) {
+      await mockUSDC.mint(signer.address, usdc("10000"));
+      await mockUSDC.connect(signer).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    }
+  });
+
+  describe("ERC-4626 shares", function () {
+    it("Should move assets and shares exactly as the previews quote", async function () {
+      const pool = mortgagePool.connect(liquidityProvider);
+      const lp = liquidityProvider.address;
+
+      expect(await pool.previewDeposit(usdc("1000"))).to.equal(usdc("1000"));
+      await pool.deposit(usdc("1000"), lp);
+      expect(await pool.balanceOf(lp)).to.equal(usdc("1000"));
+
+      // $100 of interest lifts the share price to about $1.10
+      await mortgagePool.receiveMortgagePayment(0, usdc("100"));
+      expect(await pool.totalAssets()).to.equal(usdc("1100"));
+
+      const mintAssets = await pool.previewMint(usdc("100"));
+      expect(mintAssets).to.be.closeTo(usdc("110"), usdc("0.01"));
+      const balanceBeforeMint = await mockUSDC.balanceOf(lp);
+      await pool.mint(usdc("100"), lp);
+      expect(balanceBeforeMint - (await mockUSDC.balanceOf(lp))).to.equal(mintAssets);
+      expect(await pool.balanceOf(lp)).to.equal(usdc("1100"));
+
+      const withdrawShares = await pool.previewWithdraw(usdc("110"));
+      expect(withdrawShares).to.be.closeTo(usdc("100"), usdc("0.01"));
+      await pool.withdraw(usdc("110"), lp, lp);
+      expect(await pool.balanceOf(lp)).to.equal(usdc("1100") - withdrawShares);
+
+      const shares = await pool.balanceOf(lp);
+      const redeemAssets = await pool.previewRedeem(shares);
+      const balanceBeforeRedeem = await mockUSDC.balanceOf(lp);
+      await pool.redeem(shares, lp, lp);
+      expect((await mockUSDC.balanceOf(lp)) - balanceBeforeRedeem).to.equal(redeemAssets);
+      expect(await pool.totalSupply()).to.equal(0n);
+    });
+
+    it("Should cap instant withdrawals at the liquidity not lent out", async function () {
+      const pool = mortgagePool.connect(liquidityProvider);
+      const lp = liquidityProvider.address;
+
+      await pool.deposit(usdc("1000"), lp);
+      await mortgagePool.fundMortgage(manager.address, usdc("800"));
+
+      // Lent principal still counts toward share value, but only idle assets can be withdrawn
+      expect(await pool.totalAssets()).to.equal(usdc("1000"));
+      expect(await pool.availableLiquidity()).to.equal(usdc("200"));
+      expect(await pool.maxWithdraw(lp)).to.equal(usdc("200"));
+      expect(await pool.maxRedeem(lp)).to.equal(await pool.convertToShares(usdc("200")));
+
+      await expect(pool.withdraw(usdc("201"), lp, lp)).to.be.revertedWithCustomError(
+        pool,
+        "ERC4626ExceededMaxWithdraw",
+      );
+      await pool.withdraw(usdc("200"), lp, lp);
+      expect(await pool.maxWithdraw(lp)).to.equal(0n);
+    });
+
+    it("Should only let authorized managers fund mortgages", async function () {
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("1000"), liquidityProvider.address);
+
+      await expect(
+        mortgagePool.connect(liquidityProvider).fundMortgage(liquidityProvider.address, usdc("100")),
+      ).to.be.revertedWith("Not authorized");
+      await expect(mortgagePool.fundMortgage(manager.address, usdc("1001"))).to.be.revertedWith(
+        "Insufficient liquidity",
+      );
+    });
+  });
+
+  describe("Withdrawal queue", function () {
+    beforeEach(async () => {
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("1000"), liquidityProvider.address);
+      await mortgagePool.connect(otherProvider).deposit(usdc("1000"), otherProvider.address);
+      await mortgagePool.fundMortgage(manager.address, usdc("1800"));
+    });
+
+    it("Should settle requests in FIFO order as principal is repaid", async function () {
+      await mortgagePool.connect(liquidityProvider).requestWithdrawal(usdc("500"));
+      // Only $200 is idle, yet the smaller request still waits behind the first
+      await mortgagePool.connect(otherProvider).requestWithdrawal(usdc("100"));
+
+      expect(await mortgagePool.balanceOf(liquidityProvider.address)).to.equal(usdc("500"));
+      expect((await mortgagePool.getWithdrawalRequest(1)).settledTimestamp).to.equal(0n);
+      expect(await mortgagePool.getQueuePosition(1)).to.deep.equal([2n, usdc("600")]);
+      expect(await mortgagePool.availableLiquidity()).to.equal(0n);
+      expect(await mortgagePool.estimatedWaitTime(1)).to.equal(ethers.MaxUint256); // No repayments yet
+
+      await mortgagePool.receiveMortgagePayment(usdc("300"), 0);
+      const first = await mortgagePool.getWithdrawalRequest(0);
+      expect(first.settledTimestamp).to.be.gt(0n);
+      expect(first.assets).to.equal(usdc("500"));
+      expect(await mortgagePool.getQueuePosition(0)).to.deep.equal([0n, 0n]);
+      expect(await mortgagePool.getQueuePosition(1)).to.deep.equal([1n, usdc("100")]);
+
+      // Deposits don't settle the queue themselves; anyone can process it afterwards
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("100"), liquidityProvider.address);
+      expect((await mortgagePool.getWithdrawalRequest(1)).settledTimestamp).to.equal(0n);
+      await mortgagePool.processWithdrawalQueue();
+      expect((await mortgagePool.getWithdrawalRequest(1)).assets).to.equal(usdc("100"));
+      expect(await mortgagePool.claimableAssets()).to.equal(usdc("600"));
+    });
+
+    it("Should pay settled requests only to their owner, once", async function () {
+      await mortgagePool.connect(liquidityProvider).requestWithdrawal(usdc("500"));
+      await expect(mortgagePool.connect(liquidityProvider).claimWithdrawal(0)).to.be.revertedWith(
+        "Request not settled",
+      );
+
+      await mortgagePool.receiveMortgagePayment(usdc("300"), 0);
+      await expect(mortgagePool.connect(otherProvider).claimWithdrawal(0)).to.be.revertedWith("Not request owner");
+
+      const balanceBefore = await mockUSDC.balanceOf(liquidityProvider.address);
+      await mortgagePool.connect(liquidityProvider).claimWithdrawal(0);
+      expect((await mockUSDC.balanceOf(liquidityProvider.address)) - balanceBefore).to.equal(usdc("500"));
+      expect(await mortgagePool.claimableAssets()).to.equal(0n);
+      await expect(mortgagePool.connect(liquidityProvider).claimWithdrawal(0)).to.be.revertedWith("Already claimed");
+    });
+  });
+
+  describe("Tranches", function () {
+    beforeEach(async () => {
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("1000"), liquidityProvider.address);
+      await mortgagePool.connect(otherProvider).depositSenior(usdc("1000"), otherProvider.address);
+      await mortgagePool.fundMortgage(manager.address, usdc("1500"));
+    });
+
+    it("Should pay the senior target yield out of interest before the junior tranche", async function () {
+      expect(await mortgagePool.seniorShares(otherProvider.address)).to.equal(usdc("1000"));
+      expect(await mortgagePool.totalAssets()).to.equal(usdc("1000")); // Junior assets only
+      expect(await mortgagePool.juniorRatioBPS()).to.equal(5000n);
+
+      // A year at the 5% target owes the senior tranche $50
+      await increaseTime(365 * DAY);
+      expect(await mortgagePool.pendingSeniorInterest()).to.be.closeTo(usdc("50"), usdc("0.01"));
+
+      await mortgagePool.receiveMortgagePayment(0, usdc("80"));
+      expect(await mortgagePool.seniorAssets()).to.be.closeTo(usdc("1050"), usdc("0.01"));
+      expect(await mortgagePool.totalAssets()).to.be.closeTo(usdc("1030"), usdc("0.01"));
+      expect(await mortgagePool.seniorInterestOwed()).to.equal(0n);
+
+      // A shortfall goes entirely to the senior tranche and the rest stays owed
+      await increaseTime(365 * DAY);
+      await mortgagePool.receiveMortgagePayment(0, usdc("20"));
+      expect(await mortgagePool.seniorInterestOwed()).to.be.closeTo(usdc("32.50"), usdc("0.01"));
+      expect(await mortgagePool.totalAssets()).to.be.closeTo(usdc("1030"), usdc("0.01"));
+      expect(await mortgagePool.convertToSeniorAssets(usdc("1000"))).to.be.closeTo(usdc("1070"), usdc("0.01"));
+    });
+
+    it("Should redeem senior shares from idle liquidity or queue them", async function () {
+      const seniorPool = mortgagePool.connect(otherProvider);
+
+      await expect(seniorPool.redeemSenior(usdc("600"), otherProvider.address)).to.be.revertedWith(
+        "Insufficient liquidity",
+      );
+      const balanceBefore = await mockUSDC.balanceOf(otherProvider.address);
+      await seniorPool.redeemSenior(usdc("400"), otherProvider.address);
+      expect((await mockUSDC.balanceOf(otherProvider.address)) - balanceBefore).to.equal(usdc("400"));
+      expect(await mortgagePool.seniorShares(otherProvider.address)).to.equal(usdc("600"));
+
+      await seniorPool.requestSeniorWithdrawal(usdc("600"));
+      expect(await mortgagePool.seniorShares(otherProvider.address)).to.equal(0n);
+      await mortgagePool.receiveMortgagePayment(usdc("600"), 0);
+      expect((await mortgagePool.getWithdrawalRequest(0)).assets).to.equal(usdc("600"));
+      expect(await mortgagePool.seniorAssets()).to.equal(0n);
+    });
+
+    it("Should only let the owner set the senior target yield, up to 20%", async function () {
+      await mortgagePool.setSeniorTargetAPY(800);
+      expect(await mortgagePool.seniorTargetAPYBPS()).to.equal(800n);
+      await expect(mortgagePool.setSeniorTargetAPY(2001)).to.be.revertedWith("Target APY too high (max 20%)");
+      await expect(mortgagePool.connect(otherProvider).setSeniorTargetAPY(300)).to.be.revertedWithCustomError(
+        mortgagePool,
+        "OwnableUnauthorizedAccount",
+      );
+    });
+  });
+
+  describe("Yield", function () {
+    beforeEach(async () => {
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("1000"), liquidityProvider.address);
+    });
+
+    it("Should annualize interest earned over the liquidity in the pool", async function () {
+      expect(await mortgagePool.realizedAPY(30 * DAY)).to.equal(0n);
+
+      // $10 on $1,000 over 30 days is about 12.17% a year
+      await increaseTime(30 * DAY);
+      await mortgagePool.receiveMortgagePayment(0, usdc("10"));
+      expect(await mortgagePool.realizedAPY(30 * DAY)).to.be.closeTo(1216n, 2n);
+    });
+
+    it("Should measure trailing windows from daily checkpoints", async function () {
+      await increaseTime(30 * DAY);
+      await mortgagePool.receiveMortgagePayment(0, usdc("10"));
+      // The deposit came less than a day after deployment, so nothing new was recorded
+      expect(await mortgagePool.checkpointCount()).to.equal(1n);
+
+      // The next update a day or more later records the state the payment left behind
+      await increaseTime(8 * DAY);
+      await mortgagePool.checkpoint();
+      expect(await mortgagePool.checkpointCount()).to.equal(2n);
+
+      const checkpoints = await mortgagePool.getCheckpoints(0, 10);
+      expect(checkpoints.length).to.equal(2);
+      expect(checkpoints[0].sharePrice).to.equal(usdc("1"));
+      expect(checkpoints[1].sharePrice).to.be.closeTo(usdc("1.01"), 1n);
+      expect(checkpoints[1].totalInterestEarned).to.equal(usdc("10"));
+
+      // Nothing was earned in the last week; the 30 and 90 day windows reach back to deployment
+      const [apy7d, apy30d, apy90d] = await mortgagePool.trailingAPYs();
+      expect(apy7d).to.equal(0n);
+      expect(apy30d).to.be.closeTo(958n, 2n);
+      expect(apy90d).to.equal(apy30d);
+    });
+
+    it("Should estimate forward APY from the loans' average rate on the share lent out", async function () {
+      await mortgagePool.fundMortgage(manager.address, usdc("800"));
+      await mortgagePool.updateLoanRate(1, usdc("500"), 600);
+      await mortgagePool.updateLoanRate(2, usdc("300"), 400);
+
+      expect(await mortgagePool.weightedAverageRateBPS()).to.equal(525n);
+      expect(await mortgagePool.estimatedAPY()).to.equal(420n); // 5.25% on 80% of the pool
+
+      await mortgagePool.updateLoanRate(2, 0, 400);
+      expect(await mortgagePool.weightedAverageRateBPS()).to.equal(600n);
+    });
+  });
+
+  describe("Losses", function () {
+    beforeEach(async () => {
+      await mortgagePool.connect(liquidityProvider).deposit(usdc("1000"), liquidityProvider.address);
+      await mortgagePool.connect(otherProvider).depositSenior(usdc("1000"), otherProvider.address);
+      await mortgagePool.fundMortgage(manager.address, usdc("1500"));
+    });
+
+    it("Should write losses off the junior tranche before the senior", async function () {
+      await mortgagePool.realizeLoss(1, usdc("400"));
+      expect(await mortgagePool.totalAssets()).to.equal(usdc("600"));
+      expect(await mortgagePool.seniorAssets()).to.equal(usdc("1000"));
+
+      await mortgagePool.realizeLoss(2, usdc("800"));
+      expect(await mortgagePool.totalAssets()).to.equal(0n);
+      expect(await mortgagePool.seniorAssets()).to.equal(usdc("800"));
+      expect(await mortgagePool.unrecoveredSeniorLosses()).to.equal(usdc("200"));
+      expect(await mortgagePool.juniorRatioBPS()).to.equal(0n);
+      expect(await mortgagePool.activeMortgages()).to.equal(usdc("300"));
+      expect(await mortgagePool.cumulativeLossRatioBPS()).to.equal(8000n); // $1,200 of $1,500 lent
+
+      await expect(mortgagePool.realizeLoss(3, usdc("301"))).to.be.revertedWith("Loss exceeds active mortgages");
+      await expect(mortgagePool.connect(liquidityProvider).realizeLoss(3, usdc("100"))).to.be.revertedWith(
+        "Not authorized",
+      );
+    });
+
+    it("Should restore senior write-downs first out of foreclosure proceeds", async function () {
+      await mortgagePool.realizeLoss(1, usdc("1200"));
+
+      // Funding and repaying loans doesn't make the manager a recovery source
+      await expect(mortgagePool.receiveForeclosureProceeds(1, usdc("300"), 0)).to.be.revertedWith(
+        "Not a recovery source",
+      );
+      await mortgagePool.authorizeRecoverySource(manager.address);
+
+      // $200 makes the senior tranche whole, the junior tranche keeps $100 plus the fees
+      await mortgagePool.receiveForeclosureProceeds(1, usdc("300"), usdc("20"));
+      expect(await mortgagePool.unrecoveredSeniorLosses()).to.equal(0n);
+      expect(await mortgagePool.seniorAssets()).to.be.closeTo(usdc("1000"), usdc("0.01"));
+      expect(await mortgagePool.totalAssets()).to.be.closeTo(usdc("120"), usdc("0.01"));
+      expect(await mortgagePool.totalRecoveries()).to.equal(usdc("300"));
+      expect(await mortgagePool.cumulativeLossRatioBPS()).to.equal(6000n);
+    });
+
+    it("Should only let the owner grant recovery and insurer roles", async function () {
+      await expect(
+        mortgagePool.connect(otherProvider).authorizeRecoverySource(otherProvider.address),
+      ).to.be.revertedWithCustomError(mortgagePool, "OwnableUnauthorizedAccount");
+      await expect(
+        mortgagePool.connect(otherProvider).authorizeInsurer(otherProvider.address),
+      ).to.be.revertedWithCustomError(mortgagePool, "OwnableUnauthorizedAccount");
+
+      await mortgagePool.authorizeRecoverySource(otherProvider.address);
+      expect(await mortgagePool.recoverySources(otherProvider.address)).to.equal(true);
+      await mortgagePool.revokeRecoverySource(otherProvider.address);
+      await expect(
+        mortgagePool.connect(otherProvider).receiveForeclosureProceeds(1, usdc("100"), 0),
+      ).to.be.revertedWith("Not a recovery source");
+
+      await expect(mortgagePool.receiveInsurancePayout(1, usdc("100"))).to.be.revertedWith("Not an insurer");
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockUSDC, MortgageManager, MortgagePool, PropertyNFT, PropertyOnboarding } from "../typechain-types";
+
+const PROPERTY_ID = 1; // $150,000 demo property
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("PropertyNFT", function () {
+  let mockUSDC: MockUSDC;
+  let propertyNFT: PropertyNFT;
+  let mortgagePool: MortgagePool;
+  let mortgageManager: MortgageManager;
+  let borrower: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    const [, liquidityProvider, borrowerSigner, buyerSigner] = await ethers.getSigners();
+    borrower = borrowerSigner;
+    buyer = buyerSigner;
+
+    mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    propertyNFT = await ethers.getContract<PropertyNFT>("PropertyNFT");
+    mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+    mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+
+    for (const signer of [liquidityProvider, borrower]) {
+      await mockUSDC.mint(signer.address, usdc("1000000"));
+    }
+    await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+
+    // 20% down on a 30-year conventional fixed loan, approved by the deployer
+    await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+    await mortgageManager.approveApplication(PROPERTY_ID);
+  });
+
+  describe("Lien", function () {
+    it("Should record the manager as lienholder when the loan is funded", async function () {
+      expect(await propertyNFT.ownerOf(PROPERTY_ID)).to.equal(borrower.address);
+      expect(await propertyNFT.lienholders(PROPERTY_ID)).to.equal(await mortgageManager.getAddress());
+
+      const [lien] = await propertyNFT.getLiens(PROPERTY_ID);
+      expect(lien.lender).to.equal(await mortgageManager.getAddress());
+      expect(lien.principal).to.equal(usdc("120000"));
+      expect(lien.releasedTimestamp).to.equal(0n);
+    });
+
+    it("Should block the borrower from transferring a liened property", async function () {
+      await expect(
+        propertyNFT.connect(borrower).transferFrom(borrower.address, buyer.address, PROPERTY_ID),
+      ).to.be.revertedWith("Property has an active lien");
+    });
+
+    it("Should only let the lienholder seize or release", async function () {
+      await expect(propertyNFT.connect(buyer).seize(PROPERTY_ID, buyer.address)).to.be.revertedWith("Not lienholder");
+      await expect(propertyNFT.connect(borrower).releaseLien(PROPERTY_ID, ethers.ZeroHash)).to.be.revertedWith(
+        "Not lienholder",
+      );
+    });
+
+    it("Should release the lien when the loan is paid off", async function () {
+      await mortgageManager.connect(borrower).payoff(PROPERTY_ID);
+
+      expect(await propertyNFT.hasActiveLien(PROPERTY_ID)).to.equal(false);
+      const [lien] = await propertyNFT.getLiens(PROPERTY_ID);
+      expect(lien.releasedTimestamp).to.be.gt(0n);
+      expect(lien.releaseDocumentHash).to.not.equal(ethers.ZeroHash);
+      expect(lien.foreclosed).to.equal(false);
+
+      await propertyNFT.connect(borrower).transferFrom(borrower.address, buyer.address, PROPERTY_ID);
+      expect(await propertyNFT.ownerOf(PROPERTY_ID)).to.equal(buyer.address);
+    });
+  });
+
+  describe("Appraisals", function () {
+    it("Should let the role admin manage appraisers after ownership passes to the manager", async function () {
+      const [deployer] = await ethers.getSigners();
+      expect(await propertyNFT.owner()).to.equal(await mortgageManager.getAddress());
+      expect(await propertyNFT.roleAdmin()).to.equal(deployer.address);
+
+      await expect(propertyNFT.connect(buyer).authorizeAppraiser(buyer.address)).to.be.revertedWith(
+        "Not the role admin",
+      );
+      await propertyNFT.authorizeAppraiser(buyer.address);
+      await propertyNFT.connect(buyer).submitAppraisal(PROPERTY_ID, usdc("160000"), ethers.id("report"));
+      expect(await propertyNFT.currentValue(PROPERTY_ID)).to.equal(usdc("160000"));
+
+      await propertyNFT.revokeAppraiser(buyer.address);
+      await expect(
+        propertyNFT.connect(buyer).submitAppraisal(PROPERTY_ID, usdc("170000"), ethers.id("report")),
+      ).to.be.revertedWith("Not an appraiser");
+
+      // The admin role itself can be handed over
+      await propertyNFT.transferRoleAdmin(buyer.address);
+      await expect(propertyNFT.authorizeAppraiser(deployer.address)).to.be.revertedWith("Not the role admin");
+      await propertyNFT.connect(buyer).authorizeAppraiser(deployer.address);
+    });
+  });
+
+  describe("Metadata", function () {
+    const decode = async (tokenId: bigint | number = PROPERTY_ID) => {
+      const uri = await propertyNFT.tokenURI(tokenId);
+      expect(uri.startsWith("data:application/json;base64,")).to.equal(true);
+      return JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+    };
+    const attribute = (metadata: { attributes: { trait_type: string; value: string | number }[] }, trait: string) =>
+      metadata.attributes.find(a => a.trait_type === trait)?.value;
+
+    it("Should describe the property and its loan in the token metadata", async function () {
+      const metadata = await decode();
+      expect(metadata.name).to.equal("Property #1: 456 DeFi Street, Web3 Town, WT 67890");
+      expect(attribute(metadata, "Valuation (USDC)")).to.equal(150000);
+      expect(attribute(metadata, "Bedrooms")).to.equal(2);
+      expect(attribute(metadata, "Lien Status")).to.equal("Active");
+      expect(attribute(metadata, "Principal Outstanding (USDC)")).to.equal(120000);
+      expect(attribute(metadata, "Borrower Equity (%)")).to.equal(20);
+
+      // Attributes follow the loan as it is repaid
+      await mortgageManager.connect(borrower).payoff(PROPERTY_ID);
+      const paidOff = await decode();
+      expect(attribute(paidOff, "Lien Status")).to.equal("Released");
+      expect(attribute(paidOff, "Principal Outstanding (USDC)")).to.equal(undefined);
+    });
+
+    it("Should escape control characters in free-text fields", async function () {
+      const propertyOnboarding = await ethers.getContract<PropertyOnboarding>("PropertyOnboarding");
+      const description = 'Sunny "corner" lot\\\nTwo floors\r\n\tGarden\u0001';
+      const documents = {
+        titleDeedHash: ethers.id("deed"),
+        inspectionHash: ethers.id("inspection"),
+        surveyHash: ethers.id("survey"),
+      };
+      await propertyOnboarding.submitProperty("7 Escape Row", usdc("100000"), 1000, "", description, 3, 2, documents);
+      await propertyOnboarding.approveSubmission(0);
+
+      const metadata = await decode((await propertyOnboarding.getSubmission(0)).propertyId);
+      expect(metadata.description).to.equal(description);
+    });
+  });
+});
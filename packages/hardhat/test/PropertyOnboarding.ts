@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockUSDC, MortgageManager, MortgagePool, PropertyNFT, PropertyOnboarding } from "../typechain-types";
+
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("PropertyOnboarding", function () {
+  let propertyNFT: PropertyNFT;
+  let mortgageManager: MortgageManager;
+  let propertyOnboarding: PropertyOnboarding;
+  let seller: HardhatEthersSigner;
+
+  const documents = {
+    titleDeedHash: ethers.id("title-deed"),
+    inspectionHash: ethers.id("inspection"),
+    surveyHash: ethers.id("survey"),
+  };
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    [, , , seller] = await ethers.getSigners();
+
+    propertyNFT = await ethers.getContract<PropertyNFT>("PropertyNFT");
+    mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+    propertyOnboarding = await ethers.getContract<PropertyOnboarding>("PropertyOnboarding");
+
+    await propertyOnboarding
+      .connect(seller)
+      .submitProperty("1 Onboarding Way", usdc("100000"), 1000, "", "New listing", 3, 2, documents);
+  });
+
+  it("Should mint and list a seller's property once a reviewer approves it", async function () {
+    expect(await propertyOnboarding.getPendingSubmissions()).to.deep.equal([0n]);
+
+    await expect(propertyOnboarding.connect(seller).approveSubmission(0)).to.be.revertedWith("Not a reviewer");
+    await propertyOnboarding.approveSubmission(0); // Deployer is a reviewer
+
+    const submission = await propertyOnboarding.getSubmission(0);
+    expect(submission.status).to.equal(2); // Approved
+    expect(await propertyOnboarding.getPendingSubmissions()).to.deep.equal([]);
+    expect(await propertyNFT.ownerOf(submission.propertyId)).to.equal(await mortgageManager.getAddress());
+    expect((await propertyNFT.getProperty(submission.propertyId)).isListed).to.equal(true);
+
+    // Minting stays closed to everyone else
+    await expect(
+      propertyNFT.connect(seller).mintProperty(seller.address, "2 Nowhere St", usdc("1"), 1, "", "", 1, 1),
+    ).to.be.revertedWith("Not a minter");
+  });
+
+  it("Should pay the seller the down payment and loan funding when the mortgage is activated", async function () {
+    const [, liquidityProvider, borrower] = await ethers.getSigners();
+    const mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    const mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+
+    await mockUSDC.mint(liquidityProvider.address, usdc("1000000"));
+    await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+    await mockUSDC.mint(borrower.address, usdc("20000"));
+    await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+
+    await propertyOnboarding.approveSubmission(0);
+    const { propertyId } = await propertyOnboarding.getSubmission(0);
+    expect(await propertyNFT.sellers(propertyId)).to.equal(seller.address);
+
+    // 20% down; the seller is paid nothing until the loan is funded
+    await mortgageManager.connect(borrower).applyForMortgage(propertyId, 0, 360, usdc("20000"));
+    expect(await mockUSDC.balanceOf(seller.address)).to.equal(0n);
+
+    await mortgageManager.approveApplication(propertyId);
+    expect(await mockUSDC.balanceOf(seller.address)).to.equal(usdc("100000"));
+    expect(await mockUSDC.balanceOf(borrower.address)).to.equal(0n);
+    expect(await mockUSDC.balanceOf(await mortgageManager.getAddress())).to.equal(0n);
+    expect(await propertyNFT.ownerOf(propertyId)).to.equal(borrower.address);
+  });
+
+  it("Should let the role admin revoke the registry's minter access after the ownership handover", async function () {
+    const registry = await propertyOnboarding.getAddress();
+    expect(await propertyNFT.minters(registry)).to.equal(true);
+
+    await expect(propertyNFT.connect(seller).revokeMinter(registry)).to.be.revertedWith("Not the role admin");
+    await propertyNFT.revokeMinter(registry); // Deployer is the role admin
+    await expect(propertyOnboarding.approveSubmission(0)).to.be.revertedWith("Not a minter");
+
+    await propertyNFT.authorizeMinter(registry);
+    await propertyOnboarding.approveSubmission(0);
+  });
+
+  it("Should record the reason when a reviewer rejects a submission", async function () {
+    await expect(propertyOnboarding.rejectSubmission(0, "")).to.be.revertedWith("Reason required");
+    await propertyOnboarding.rejectSubmission(0, "Survey does not match the deed");
+
+    const submission = await propertyOnboarding.getSubmission(0);
+    expect(submission.status).to.equal(3); // Rejected
+    expect(submission.rejectionReason).to.equal("Survey does not match the deed");
+    expect(await propertyOnboarding.getSellerSubmissions(seller.address)).to.deep.equal([0n]);
+    await expect(propertyOnboarding.approveSubmission(0)).to.be.revertedWith("Submission not pending");
+  });
+
+  it("Should record a seller only once, before the property is listed", async function () {
+    const [deployer] = await ethers.getSigners();
+    await propertyOnboarding.approveSubmission(0);
+    const { propertyId } = await propertyOnboarding.getSubmission(0);
+
+    await propertyNFT.authorizeMinter(deployer.address); // Deployer is the role admin
+    await expect(propertyNFT.recordSeller(propertyId, deployer.address)).to.be.revertedWith("Seller already recorded");
+    expect(await propertyNFT.sellers(propertyId)).to.equal(seller.address);
+
+    // A listing without a seller on record can't have one added under a pending purchase
+    const tokenId = await propertyNFT.mintProperty.staticCall(
+      deployer.address,
+      "2 Late St",
+      usdc("1"),
+      1,
+      "",
+      "",
+      1,
+      1,
+    );
+    await propertyNFT.mintProperty(deployer.address, "2 Late St", usdc("1"), 1, "", "", 1, 1);
+    await propertyNFT.listProperty(tokenId);
+    await expect(propertyNFT.recordSeller(tokenId, deployer.address)).to.be.revertedWith("Property is listed");
+  });
+});
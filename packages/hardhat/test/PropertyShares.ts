@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockUSDC, MortgageManager, MortgagePool, PropertyNFT, PropertyShares } from "../typechain-types";
+
+const PROPERTY_ID = 1; // $150,000 demo property
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("PropertyShares", function () {
+  let mockUSDC: MockUSDC;
+  let mortgagePool: MortgagePool;
+  let mortgageManager: MortgageManager;
+  let propertyShares: PropertyShares;
+  let borrower: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    const [, liquidityProvider, borrowerSigner, buyerSigner] = await ethers.getSigners();
+    borrower = borrowerSigner;
+    buyer = buyerSigner;
+
+    mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+    mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+    propertyShares = await ethers.getContract<PropertyShares>("PropertyShares");
+
+    for (const signer of [liquidityProvider, borrower]) {
+      await mockUSDC.mint(signer.address, usdc("1000000"));
+    }
+    await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+
+    // 20% down on a 30-year conventional fixed loan, approved by the deployer
+    await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+    await mortgageManager.approveApplication(PROPERTY_ID);
+  });
+
+  it("Should split the property's shares between the borrower's equity and the pool", async function () {
+    const pool = await mortgagePool.getAddress();
+    expect(await propertyShares.balanceOf(borrower.address, PROPERTY_ID)).to.equal(200n); // 20% down
+    expect(await propertyShares.balanceOf(pool, PROPERTY_ID)).to.equal(800n);
+
+    // Locked by the lien like the NFT, then all the borrower's once the loan is repaid
+    await expect(
+      propertyShares.connect(borrower).safeTransferFrom(borrower.address, buyer.address, PROPERTY_ID, 100n, "0x"),
+    ).to.be.revertedWith("Property has an active lien");
+
+    await mortgageManager.connect(borrower).payoff(PROPERTY_ID);
+    expect(await propertyShares.balanceOf(borrower.address, PROPERTY_ID)).to.equal(1000n);
+    expect(await propertyShares.balanceOf(pool, PROPERTY_ID)).to.equal(0n);
+
+    // A co-investor buys into the home
+    await propertyShares.connect(borrower).safeTransferFrom(borrower.address, buyer.address, PROPERTY_ID, 250n, "0x");
+    expect(await propertyShares.ownershipBPS(PROPERTY_ID, buyer.address)).to.equal(2500n);
+  });
+
+  it("Should only let the holder of every share transfer the property NFT after payoff", async function () {
+    const propertyNFT = await ethers.getContract<PropertyNFT>("PropertyNFT");
+    await mortgageManager.connect(borrower).payoff(PROPERTY_ID);
+    await propertyShares.connect(borrower).safeTransferFrom(borrower.address, buyer.address, PROPERTY_ID, 250n, "0x");
+
+    await expect(
+      propertyNFT.connect(borrower).transferFrom(borrower.address, buyer.address, PROPERTY_ID),
+    ).to.be.revertedWith("Shares held by others");
+
+    // Buying the co-investor out reunites the shares with the title
+    await propertyShares.connect(buyer).safeTransferFrom(buyer.address, borrower.address, PROPERTY_ID, 250n, "0x");
+    await propertyNFT.connect(borrower).transferFrom(borrower.address, buyer.address, PROPERTY_ID);
+    expect(await propertyNFT.ownerOf(PROPERTY_ID)).to.equal(buyer.address);
+  });
+});
@@ -0,0 +1,81 @@
+import { expect } from "chai";
+import { deployments, ethers } from "hardhat";
+import { MockUSDC, MortgageManager, MortgagePool, RateModel } from "../typechain-types";
+
+const PROPERTY_ID = 1; // $150,000 demo property
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+describe("RateModel", function () {
+  let rateModel: RateModel;
+
+  beforeEach(async () => {
+    await deployments.fixture(["MortgageManager"]);
+    rateModel = await ethers.getContract<RateModel>("RateModel");
+  });
+
+  it("Should add the matching LTV and term tier premiums to the base rate", async function () {
+    // 4.25% base; LTV tiers 60/80/90% at +0/+0.25/+0.75; term tiers 10/15/20/30 years at +0/+0.25/+0.50/+0.75
+    expect(await rateModel.getRate(6000, 120, 0)).to.equal(425n);
+    expect(await rateModel.getRate(6001, 121, 0)).to.equal(475n);
+    expect(await rateModel.getRate(8000, 360, 0)).to.equal(525n);
+    expect(await rateModel.getRate(9000, 240, 0)).to.equal(550n);
+
+    await expect(rateModel.getRate(9001, 360, 0)).to.be.revertedWith("LTV too high");
+    await expect(rateModel.getRate(8000, 480, 0)).to.be.revertedWith("Term not supported");
+  });
+
+  it("Should scale the utilization premium with pool utilization, capped at 100%", async function () {
+    expect(await rateModel.getRate(6000, 120, 5000)).to.equal(525n); // +1% at half utilization
+    expect(await rateModel.getRate(6000, 120, 10000)).to.equal(625n);
+    expect(await rateModel.getRate(6000, 120, 25000)).to.equal(625n);
+
+    await rateModel.setUtilizationSlope(0);
+    expect(await rateModel.getRate(6000, 120, 10000)).to.equal(425n);
+  });
+
+  it("Should never quote above the 20% rate cap", async function () {
+    await rateModel.setBaseRate(2000);
+    expect(await rateModel.getRate(9000, 360, 10000)).to.equal(2000n);
+    await expect(rateModel.setBaseRate(2001)).to.be.revertedWith("Rate too high (max 20%)");
+  });
+
+  it("Should only accept ascending tier tables from the owner", async function () {
+    await rateModel.setLtvTiers([8000, 9500], [0, 100]);
+    expect(await rateModel.getRate(9500, 120, 0)).to.equal(525n);
+    expect((await rateModel.getLtvTiers()).length).to.equal(2);
+
+    await rateModel.setTermTiers([360], [50]);
+    expect(await rateModel.getRate(8000, 120, 0)).to.equal(475n);
+
+    await expect(rateModel.setLtvTiers([9000, 8000], [0, 0])).to.be.revertedWith("Tiers must be ascending");
+    await expect(rateModel.setLtvTiers([9000], [0, 0])).to.be.revertedWith("Length mismatch");
+    await expect(rateModel.setTermTiers([], [])).to.be.revertedWith("Empty tier table");
+
+    const [, stranger] = await ethers.getSigners();
+    await expect(rateModel.connect(stranger).setBaseRate(300)).to.be.revertedWithCustomError(
+      rateModel,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+
+  it("Should price each loan in MortgageManager from the model", async function () {
+    const [, liquidityProvider, borrower] = await ethers.getSigners();
+    const mockUSDC = await ethers.getContract<MockUSDC>("MockUSDC");
+    const mortgagePool = await ethers.getContract<MortgagePool>("MortgagePool");
+    const mortgageManager = await ethers.getContract<MortgageManager>("MortgageManager");
+
+    await mockUSDC.mint(liquidityProvider.address, usdc("1000000"));
+    await mockUSDC.connect(liquidityProvider).approve(await mortgagePool.getAddress(), ethers.MaxUint256);
+    await mortgagePool.connect(liquidityProvider).deposit(usdc("1000000"), liquidityProvider.address);
+
+    // 80% LTV over 30 years, taking the pool to 12% utilization: 4.25% + 0.25% + 0.75% + 0.24%
+    expect(await mortgageManager.quoteInterestRate(PROPERTY_ID, 0, usdc("30000"), 360)).to.equal(549n);
+    // 40% down over 10 years lands in the cheapest tiers
+    expect(await mortgageManager.quoteInterestRate(PROPERTY_ID, 0, usdc("60000"), 120)).to.equal(443n);
+
+    await mockUSDC.mint(borrower.address, usdc("30000"));
+    await mockUSDC.connect(borrower).approve(await mortgageManager.getAddress(), ethers.MaxUint256);
+    await mortgageManager.connect(borrower).applyForMortgage(PROPERTY_ID, 0, 360, usdc("30000"));
+    expect((await mortgageManager.getMortgage(PROPERTY_ID)).interestRateBPS).to.equal(549n);
+  });
+});
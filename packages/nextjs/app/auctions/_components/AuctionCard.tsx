@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { Address } from "@scaffold-ui/components";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useUSDCApproval } from "~~/hooks/useUSDCApproval";
+import { formatUSDC, parseUSDC } from "~~/utils/usdc";
+
+// Mirrors ForeclosureAuction.AuctionStatus
+const ACTIVE = 1;
+const SOLD = 2;
+
+type AuctionCardProps = {
+  propertyId: bigint;
+  canRestart: boolean;
+};
+
+/**
+ * A single foreclosure auction with its price, proceeds waterfall and bidding actions
+ */
+export const AuctionCard = ({ propertyId, canRestart }: AuctionCardProps) => {
+  const [newReserve, setNewReserve] = useState("");
+
+  const { data: auction } = useScaffoldReadContract({
+    contractName: "ForeclosureAuction",
+    functionName: "getAuction",
+    args: [propertyId],
+  });
+
+  const { data: property } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "getProperty",
+    args: [propertyId],
+  });
+
+  const { data: currentPrice } = useScaffoldReadContract({
+    contractName: "ForeclosureAuction",
+    functionName: "currentPrice",
+    args: [propertyId],
+  });
+
+  const isSold = auction?.status === SOLD;
+  const salePrice = isSold ? auction?.salePrice : currentPrice;
+
+  const { data: waterfall } = useScaffoldReadContract({
+    contractName: "ForeclosureAuction",
+    functionName: "previewWaterfall",
+    args: [propertyId, salePrice],
+  });
+
+  const { ensureAllowance, isApproving } = useUSDCApproval("ForeclosureAuction");
+  const { writeContractAsync: writeForeclosureAuction, isPending } = useScaffoldWriteContract("ForeclosureAuction");
+
+  if (!auction || !property || auction.status === 0) return null;
+
+  const isActive = auction.status === ACTIVE;
+  const endsAt = new Date(Number(auction.endTimestamp) * 1000);
+  const hasEnded = Number(auction.endTimestamp) <= Math.floor(Date.now() / 1000);
+  const debt = auction.principalOwed + auction.feesOwed + auction.insuranceOwed;
+
+  const handleBuy = async () => {
+    if (currentPrice === undefined) return;
+
+    try {
+      // The price only falls while the transaction is pending, so the quoted price caps what is pulled
+      await ensureAllowance(currentPrice);
+      await writeForeclosureAuction({
+        functionName: "buy",
+        args: [propertyId, currentPrice],
+      });
+      alert("Property purchased!");
+    } catch (error) {
+      console.error("Error buying property:", error);
+    }
+  };
+
+  const handleRestart = async () => {
+    if (!newReserve || parseFloat(newReserve) <= 0) {
+      alert("Please enter a reserve price");
+      return;
+    }
+
+    try {
+      await writeForeclosureAuction({
+        functionName: "restartAuction",
+        args: [propertyId, parseUSDC(newReserve)],
+      });
+      setNewReserve("");
+    } catch (error) {
+      console.error("Error restarting auction:", error);
+    }
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-xl">
+      <div className="card-body">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="card-title">{property.propertyAddress}</h3>
+            <p className="text-base-content/70">Property #{propertyId.toString()}</p>
+          </div>
+          {isSold ? (
+            <span className="badge badge-success">Sold</span>
+          ) : hasEnded ? (
+            <span className="badge badge-warning">Unsold</span>
+          ) : (
+            <span className="badge badge-info">Live</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-base-content/60">Former borrower:</span>
+          <Address address={auction.borrower} size="sm" />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 my-2">
+          <div>
+            <p className="text-xs text-base-content/60">{isSold ? "Sale Price" : "Current Price"}</p>
+            <p className="font-bold text-lg">{salePrice !== undefined ? formatUSDC(salePrice) : "-"} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Start Price</p>
+            <p className="font-bold">{formatUSDC(auction.startPrice)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Reserve Price</p>
+            <p className="font-bold">{formatUSDC(auction.reservePrice)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">{isSold ? "Buyer" : "Ends"}</p>
+            {isSold ? (
+              <Address address={auction.buyer} size="sm" />
+            ) : (
+              <p className="font-bold">{endsAt.toLocaleString()}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-base-200 p-4 rounded-lg">
+          <h4 className="font-semibold mb-2">Proceeds Waterfall</h4>
+          <table className="table table-xs w-full">
+            <thead>
+              <tr>
+                <th></th>
+                <th className="text-end">Owed (USDC)</th>
+                <th className="text-end">{isSold ? "Paid" : "At Current Price"} (USDC)</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>1. Pool principal</td>
+                <td className="text-end">{formatUSDC(auction.principalOwed)}</td>
+                <td className="text-end">{waterfall ? formatUSDC(waterfall[0]) : "-"}</td>
+              </tr>
+              <tr>
+                <td>2. Interest &amp; fees</td>
+                <td className="text-end">{formatUSDC(auction.feesOwed)}</td>
+                <td className="text-end">{waterfall ? formatUSDC(waterfall[1]) : "-"}</td>
+              </tr>
+              <tr>
+                <td>3. Insurance fund</td>
+                <td className="text-end">{formatUSDC(auction.insuranceOwed)}</td>
+                <td className="text-end">{waterfall ? formatUSDC(waterfall[2]) : "-"}</td>
+              </tr>
+              <tr>
+                <td>4. Borrower surplus</td>
+                <td className="text-end">-</td>
+                <td className="text-end">{waterfall ? formatUSDC(waterfall[3]) : "-"}</td>
+              </tr>
+            </tbody>
+          </table>
+          {auction.reservePrice < debt && (
+            <p className="text-xs text-warning mt-2">
+              The reserve was lowered below the {formatUSDC(debt)} USDC debt; a sale at the reserve leaves a shortfall.
+            </p>
+          )}
+        </div>
+
+        {isActive && !hasEnded && (
+          <div className="card-actions justify-end mt-2">
+            <button
+              className="btn btn-primary"
+              onClick={handleBuy}
+              disabled={isApproving || isPending || currentPrice === undefined}
+            >
+              {isApproving
+                ? "Approving USDC..."
+                : isPending
+                  ? "Buying..."
+                  : `Buy Now for ${currentPrice !== undefined ? formatUSDC(currentPrice) : "-"} USDC`}
+            </button>
+          </div>
+        )}
+
+        {isActive && hasEnded && canRestart && (
+          <div className="flex flex-col md:flex-row gap-2 mt-2">
+            <input
+              type="number"
+              placeholder="New reserve price (USDC)"
+              className="input input-bordered input-sm flex-grow"
+              value={newReserve}
+              onChange={e => setNewReserve(e.target.value)}
+            />
+            <button className="btn btn-warning btn-sm" onClick={handleRestart} disabled={isPending}>
+              Restart Auction
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+"use client";
+
+import { AuctionCard } from "./_components/AuctionCard";
+import { NextPage } from "next";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+const Auctions: NextPage = () => {
+  const { address } = useAccount();
+
+  const { data: auctionedProperties } = useScaffoldReadContract({
+    contractName: "ForeclosureAuction",
+    functionName: "getAuctionedProperties",
+  });
+
+  const { data: auctionOwner } = useScaffoldReadContract({
+    contractName: "ForeclosureAuction",
+    functionName: "owner",
+  });
+
+  const isAuctionOwner = !!address && auctionOwner?.toLowerCase() === address.toLowerCase();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2">Foreclosure Auctions</h1>
+        <p className="text-base-content/70">
+          Foreclosed properties are sold by Dutch auction. The price falls daily to a reserve covering the defaulted
+          debt; proceeds repay the pool, then the insurance reserve, and any surplus goes to the former borrower.
+        </p>
+      </div>
+
+      {!address && (
+        <div className="alert alert-warning mb-8">
+          <span>Please connect your wallet to bid on properties</span>
+        </div>
+      )}
+
+      {auctionedProperties && auctionedProperties.length > 0 ? (
+        <div className="space-y-6">
+          {[...auctionedProperties].reverse().map(propertyId => (
+            <AuctionCard key={propertyId.toString()} propertyId={propertyId} canRestart={isAuctionOwner} />
+          ))}
+        </div>
+      ) : (
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body items-center text-center py-16">
+            <h2 className="text-2xl font-bold mb-4">No Auctions Yet</h2>
+            <p className="text-base-content/70">Properties are auctioned here when a mortgage is foreclosed.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Auctions;
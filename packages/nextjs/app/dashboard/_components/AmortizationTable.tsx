@@ -0,0 +1,58 @@
+"use client";
+
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+type AmortizationTableProps = {
+  propertyId: number;
+};
+
+/**
+ * Payments left on a mortgage at its current balance, rate and term, read from MortgageManager.getAmortizationSchedule
+ */
+export const AmortizationTable = ({ propertyId }: AmortizationTableProps) => {
+  const { data: schedule, isLoading } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getAmortizationSchedule",
+    args: [BigInt(propertyId)],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <span className="loading loading-spinner loading-md"></span>
+      </div>
+    );
+  }
+
+  if (!schedule || schedule.length === 0) {
+    return <p className="text-sm text-base-content/70">No schedule available</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-96 rounded-lg border border-base-300">
+      <table className="table table-zebra table-sm table-pin-rows w-full">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th className="text-end">Payment (USDC)</th>
+            <th className="text-end">Principal (USDC)</th>
+            <th className="text-end">Interest (USDC)</th>
+            <th className="text-end">Balance (USDC)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {schedule.map(entry => (
+            <tr key={entry.paymentNumber.toString()}>
+              <td>{entry.paymentNumber.toString()}</td>
+              <td className="text-end">{formatUSDC(entry.payment)}</td>
+              <td className="text-end">{formatUSDC(entry.principal)}</td>
+              <td className="text-end">{formatUSDC(entry.interest)}</td>
+              <td className="text-end">{formatUSDC(entry.remainingBalance)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
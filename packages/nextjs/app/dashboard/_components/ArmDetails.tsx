@@ -0,0 +1,86 @@
+"use client";
+
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+type ArmDetailsProps = {
+  propertyId: number;
+};
+
+/**
+ * Next reset date and payment range for an adjustable-rate mortgage
+ */
+export const ArmDetails = ({ propertyId }: ArmDetailsProps) => {
+  const { data: isAdjustable } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "isAdjustable",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: armTerms } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getArmTerms",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: resetPreview } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getNextResetPreview",
+    args: [BigInt(propertyId)],
+  });
+
+  const { writeContractAsync: writeMortgageManager, isPending } = useScaffoldWriteContract("MortgageManager");
+
+  if (!isAdjustable || !armTerms || !resetPreview) return null;
+
+  const [nextResetTimestamp, minRateBPS, maxRateBPS, minPayment, maxPayment] = resetPreview;
+  const isResetDue = nextResetTimestamp > BigInt(0) && Number(nextResetTimestamp) <= Math.floor(Date.now() / 1000);
+
+  const handleReset = async () => {
+    try {
+      await writeMortgageManager({
+        functionName: "resetRate",
+        args: [BigInt(propertyId)],
+      });
+    } catch (error) {
+      console.error("Error resetting rate:", error);
+    }
+  };
+
+  return (
+    <div className="bg-base-200 p-4 rounded-lg mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-semibold">Adjustable Rate</h4>
+        <span className="badge badge-outline">
+          index + {(Number(armTerms.marginBPS) / 100).toFixed(2)}%, caps {Number(armTerms.perResetCapBPS) / 100}/
+          {Number(armTerms.lifetimeCapBPS) / 100}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-base-content/60">Next Reset</p>
+          <p className="font-bold">
+            {nextResetTimestamp > BigInt(0) ? new Date(Number(nextResetTimestamp) * 1000).toLocaleDateString() : "-"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Rate Range at Reset</p>
+          <p className="font-bold">
+            {(Number(minRateBPS) / 100).toFixed(2)}% - {(Number(maxRateBPS) / 100).toFixed(2)}%
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Payment Range at Reset</p>
+          <p className="font-bold">
+            {formatUSDC(minPayment)} - {formatUSDC(maxPayment)} USDC
+          </p>
+        </div>
+      </div>
+      {isResetDue && (
+        <button className="btn btn-sm btn-warning mt-3" onClick={handleReset} disabled={isPending}>
+          {isPending ? "Resetting..." : "Apply Rate Reset"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+"use client";
+
+import { Address } from "@scaffold-ui/components";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+const ESCROW_ANALYSIS_INTERVAL_SECONDS = 365 * 24 * 60 * 60;
+
+type EscrowDetailsProps = {
+  propertyId: number;
+};
+
+/**
+ * Tax and insurance escrow balance with its disbursement history
+ */
+export const EscrowDetails = ({ propertyId }: EscrowDetailsProps) => {
+  const { data: escrow } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getEscrowAccount",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: disbursements } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getEscrowDisbursements",
+    args: [BigInt(propertyId)],
+  });
+
+  // Escrow is set up by the first escrow analysis
+  if (!escrow || escrow.lastAnalysisTimestamp === BigInt(0)) return null;
+
+  const nextAnalysis = new Date((Number(escrow.lastAnalysisTimestamp) + ESCROW_ANALYSIS_INTERVAL_SECONDS) * 1000);
+
+  return (
+    <div className="bg-base-200 p-4 rounded-lg mb-4">
+      <h4 className="font-semibold mb-2">Tax &amp; Insurance Escrow</h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-base-content/60">Escrow Balance</p>
+          <p className="font-bold">{formatUSDC(escrow.balance)} USDC</p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Monthly Escrow</p>
+          <p className="font-bold">{formatUSDC(escrow.monthlyEscrow)} USDC</p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Projected Taxes / Insurance</p>
+          <p className="font-bold">
+            {formatUSDC(escrow.annualTaxes)} / {formatUSDC(escrow.annualInsurance)} USDC
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Next Analysis</p>
+          <p className="font-bold">{nextAnalysis.toLocaleDateString()}</p>
+        </div>
+      </div>
+
+      {disbursements && disbursements.length > 0 && (
+        <div className="overflow-x-auto mt-4">
+          <table className="table table-xs w-full">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Payee</th>
+                <th>Memo</th>
+                <th className="text-end">Amount (USDC)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...disbursements].reverse().map((disbursement, idx) => (
+                <tr key={idx}>
+                  <td>{new Date(Number(disbursement.timestamp) * 1000).toLocaleDateString()}</td>
+                  <td>
+                    <Address address={disbursement.payee} size="xs" />
+                  </td>
+                  <td>{disbursement.memo}</td>
+                  <td className="text-end">{formatUSDC(disbursement.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
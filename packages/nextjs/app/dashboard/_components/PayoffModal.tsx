@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { encodeFunctionData } from "viem";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useUSDCApproval } from "~~/hooks/useUSDCApproval";
+import { formatUSDC, parseUSDC } from "~~/utils/usdc";
+
+// Mirrors MortgageManager.PrepaymentMode
+const SHORTEN_TERM = 0;
+const REAMORTIZE = 1;
+
+type PayoffModalProps = {
+  propertyId: number;
+  propertyAddress?: string;
+  onClose: () => void;
+};
+
+/**
+ * Early payoff and principal prepayment options for an active mortgage
+ */
+export const PayoffModal = ({ propertyId, propertyAddress, onClose }: PayoffModalProps) => {
+  const [prepayAmount, setPrepayAmount] = useState("");
+  const [prepayMode, setPrepayMode] = useState(SHORTEN_TERM);
+
+  const { data: payoffQuote } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getPayoffQuote",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: mortgageManager } = useDeployedContractInfo({ contractName: "MortgageManager" });
+  const { signPermit, isApproving } = useUSDCApproval("MortgageManager");
+  const { writeContractAsync: writeMortgageManager, isPending } = useScaffoldWriteContract("MortgageManager");
+
+  const [payoffAmount, principal, accruedInterest] = payoffQuote || [BigInt(0), BigInt(0), BigInt(0)];
+
+  const handlePayoff = async () => {
+    // Interest keeps accruing until the transaction is mined; only the quote at that point is pulled
+    const buffer = payoffAmount / BigInt(1000);
+
+    try {
+      const args = [BigInt(propertyId)] as const;
+      const permit = await signPermit(payoffAmount + buffer);
+      if (permit && mortgageManager) {
+        await writeMortgageManager({
+          functionName: "permitAndCall",
+          args: [...permit, encodeFunctionData({ abi: mortgageManager.abi, functionName: "payoff", args })],
+        });
+      } else {
+        await writeMortgageManager({ functionName: "payoff", args });
+      }
+      alert("Loan paid off! You now own the property outright.");
+      onClose();
+    } catch (error) {
+      console.error("Error paying off loan:", error);
+    }
+  };
+
+  const handlePrepay = async () => {
+    if (!prepayAmount) {
+      alert("Please enter a prepayment amount");
+      return;
+    }
+
+    try {
+      const amount = parseUSDC(prepayAmount);
+      const args = [BigInt(propertyId), amount, prepayMode] as const;
+      const permit = await signPermit(amount);
+      if (permit && mortgageManager) {
+        await writeMortgageManager({
+          functionName: "permitAndCall",
+          args: [...permit, encodeFunctionData({ abi: mortgageManager.abi, functionName: "prepayPrincipal", args })],
+        });
+      } else {
+        await writeMortgageManager({ functionName: "prepayPrincipal", args });
+      }
+      alert("Principal prepayment submitted successfully!");
+      setPrepayAmount("");
+      onClose();
+    } catch (error) {
+      console.error("Error prepaying principal:", error);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg mb-4">Pay Off or Prepay</h3>
+
+        <div className="mb-4">
+          <p className="text-sm text-base-content/70 mb-2">Property</p>
+          <p className="font-semibold">{propertyAddress}</p>
+        </div>
+
+        <div className="bg-base-200 p-4 rounded-lg mb-4">
+          <div className="flex justify-between mb-2">
+            <span>Outstanding Principal:</span>
+            <span className="font-bold">{formatUSDC(principal)} USDC</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Accrued Interest:</span>
+            <span className="font-bold">{formatUSDC(accruedInterest)} USDC</span>
+          </div>
+          <div className="divider my-2"></div>
+          <div className="flex justify-between text-lg">
+            <span className="font-semibold">Payoff Amount:</span>
+            <span className="font-bold text-primary">{formatUSDC(payoffAmount)} USDC</span>
+          </div>
+        </div>
+
+        <button
+          className="btn btn-primary w-full mb-6"
+          onClick={handlePayoff}
+          disabled={isApproving || isPending || payoffAmount === BigInt(0)}
+        >
+          {isApproving ? "Approving USDC..." : isPending ? "Processing..." : "Pay Off Loan"}
+        </button>
+
+        <div className="divider">or prepay principal</div>
+
+        <div className="form-control mb-4">
+          <label className="label">
+            <span className="label-text">Prepayment Amount (USDC)</span>
+          </label>
+          <input
+            type="number"
+            placeholder="1000"
+            className="input input-bordered"
+            value={prepayAmount}
+            onChange={e => setPrepayAmount(e.target.value)}
+            step="100"
+          />
+        </div>
+
+        <div className="form-control mb-4">
+          <label className="label cursor-pointer">
+            <span className="label-text">Keep my payment, shorten the term</span>
+            <input
+              type="radio"
+              className="radio radio-primary"
+              checked={prepayMode === SHORTEN_TERM}
+              onChange={() => setPrepayMode(SHORTEN_TERM)}
+            />
+          </label>
+          <label className="label cursor-pointer">
+            <span className="label-text">Keep my term, lower the payment</span>
+            <input
+              type="radio"
+              className="radio radio-primary"
+              checked={prepayMode === REAMORTIZE}
+              onChange={() => setPrepayMode(REAMORTIZE)}
+            />
+          </label>
+        </div>
+
+        <div className="modal-action">
+          <button className="btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={handlePrepay}
+            disabled={isApproving || isPending || !prepayAmount}
+          >
+            {isApproving ? "Approving USDC..." : isPending ? "Processing..." : "Prepay Principal"}
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose}></div>
+    </div>
+  );
+};
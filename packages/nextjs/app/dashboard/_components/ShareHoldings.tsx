@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { AddressInput } from "@scaffold-ui/components";
+import { isAddress } from "viem";
+import { useAccount } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+type ShareHoldingsProps = {
+  propertyId: number;
+};
+
+/**
+ * The borrower's fractional shares of the property, and transfers to co-investors once the lien is released
+ */
+export const ShareHoldings = ({ propertyId }: ShareHoldingsProps) => {
+  const { address } = useAccount();
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const { data: mortgagePool } = useDeployedContractInfo({ contractName: "MortgagePool" });
+
+  const { data: property } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "getProperty",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: hasActiveLien } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "hasActiveLien",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: yourShares } = useScaffoldReadContract({
+    contractName: "PropertyShares",
+    functionName: "balanceOf",
+    args: [address, BigInt(propertyId)],
+  });
+
+  const { data: financedShares } = useScaffoldReadContract({
+    contractName: "PropertyShares",
+    functionName: "balanceOf",
+    args: [mortgagePool?.address, BigInt(propertyId)],
+  });
+
+  const { writeContractAsync: writePropertyShares, isPending } = useScaffoldWriteContract("PropertyShares");
+
+  if (!property || yourShares === undefined) return null;
+
+  const handleTransfer = async () => {
+    if (!address || !isAddress(recipient) || !amount || BigInt(amount) <= BigInt(0)) return;
+    try {
+      await writePropertyShares({
+        functionName: "safeTransferFrom",
+        args: [address, recipient, BigInt(propertyId), BigInt(amount), "0x"],
+      });
+      alert("Shares transferred!");
+      setAmount("");
+    } catch (error) {
+      console.error("Error transferring shares:", error);
+    }
+  };
+
+  return (
+    <div className="bg-base-200 p-4 rounded-lg mb-4">
+      <h4 className="font-semibold mb-2">Fractional Shares</h4>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-base-content/60">Your Shares</p>
+          <p className="font-bold">
+            {yourShares.toString()} / {property.totalShares.toString()}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Held by Pool</p>
+          <p className="font-bold">{(financedShares || BigInt(0)).toString()}</p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Transfers</p>
+          <p className="font-bold">{hasActiveLien ? "Locked by lien" : "Open"}</p>
+        </div>
+      </div>
+      {hasActiveLien ? (
+        <p className="text-xs text-base-content/60 mt-2">
+          Shares move from the pool to you as you pay down principal, and can be sold to co-investors once the loan is
+          repaid.
+        </p>
+      ) : (
+        yourShares > BigInt(0) && (
+          <div className="flex flex-col md:flex-row gap-2 mt-3">
+            <div className="flex-grow">
+              <AddressInput value={recipient} onChange={setRecipient} placeholder="Co-investor address" />
+            </div>
+            <input
+              type="number"
+              placeholder="Shares"
+              className="input input-bordered input-sm w-full md:w-32"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              min="1"
+              max={yourShares.toString()}
+              step="1"
+            />
+            <button
+              className="btn btn-sm btn-primary"
+              onClick={handleTransfer}
+              disabled={isPending || !isAddress(recipient) || !amount}
+            >
+              Transfer
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+"use client";
+
+import { Address } from "@scaffold-ui/components";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+type TitleHistoryProps = {
+  propertyId: number;
+};
+
+/**
+ * Liens recorded against the property on-chain, with their release certificates
+ */
+export const TitleHistory = ({ propertyId }: TitleHistoryProps) => {
+  const { data: liens } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "getLiens",
+    args: [BigInt(propertyId)],
+  });
+
+  if (!liens || liens.length === 0) return null;
+
+  const formatDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleDateString();
+
+  return (
+    <div className="bg-base-200 p-4 rounded-lg mb-4">
+      <h4 className="font-semibold mb-2">Title History</h4>
+      <div className="overflow-x-auto">
+        <table className="table table-xs w-full">
+          <thead>
+            <tr>
+              <th>Lender</th>
+              <th className="text-end">Principal (USDC)</th>
+              <th>Recorded</th>
+              <th>Released</th>
+              <th>Release Certificate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...liens].reverse().map((lien, idx) => (
+              <tr key={idx}>
+                <td>
+                  <Address address={lien.lender} size="xs" />
+                </td>
+                <td className="text-end">{formatUSDC(lien.principal)}</td>
+                <td>{formatDate(lien.recordedTimestamp)}</td>
+                <td>
+                  {lien.releasedTimestamp === BigInt(0) ? (
+                    <span className="badge badge-warning badge-sm">Active</span>
+                  ) : lien.foreclosed ? (
+                    `Foreclosed ${formatDate(lien.releasedTimestamp)}`
+                  ) : (
+                    formatDate(lien.releasedTimestamp)
+                  )}
+                </td>
+                <td className="font-mono">
+                  {lien.releasedTimestamp > BigInt(0) && !lien.foreclosed
+                    ? `${lien.releaseDocumentHash.substring(0, 10)}...`
+                    : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { USDC_DECIMALS, formatUSDC } from "~~/utils/usdc";
+
+const WIDTH = 400;
+const HEIGHT = 80;
+const PADDING = 4;
+
+type ValuationHistoryProps = {
+  propertyId: number;
+  principalOutstanding: bigint;
+};
+
+/**
+ * The property's appraisal trend, with the borrower's equity and LTV at the latest valuation
+ */
+export const ValuationHistory = ({ propertyId, principalOutstanding }: ValuationHistoryProps) => {
+  const { data: appraisals } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "getAppraisals",
+    args: [BigInt(propertyId)],
+  });
+
+  const { data: loanToValueBPS } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getLoanToValue",
+    args: [BigInt(propertyId)],
+  });
+
+  if (!appraisals || appraisals.length === 0) return null;
+
+  const original = appraisals[0].value;
+  const current = appraisals[appraisals.length - 1].value;
+  const equity = current > principalOutstanding ? current - principalOutstanding : BigInt(0);
+  const changePercent = (Number(current - original) / Number(original)) * 100;
+
+  const values = appraisals.map(appraisal => Number(formatUnits(appraisal.value, USDC_DECIMALS)));
+  const min = Math.min(...values);
+  const range = Math.max(Math.max(...values) - min, 1e-9);
+  const first = Number(appraisals[0].timestamp);
+  const span = Math.max(Number(appraisals[appraisals.length - 1].timestamp) - first, 1);
+  const polyline = appraisals
+    .map((appraisal, idx) => {
+      const x = PADDING + ((Number(appraisal.timestamp) - first) / span) * (WIDTH - 2 * PADDING);
+      const y = HEIGHT - PADDING - ((values[idx] - min) / range) * (HEIGHT - 2 * PADDING);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const formatDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleDateString();
+
+  return (
+    <div className="bg-base-200 p-4 rounded-lg mb-4">
+      <h4 className="font-semibold mb-2">Valuation</h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-2">
+        <div>
+          <p className="text-xs text-base-content/60">Current Value</p>
+          <p className="font-bold">{formatUSDC(current)} USDC</p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Since Origination</p>
+          <p className={`font-bold ${changePercent < 0 ? "text-error" : "text-success"}`}>
+            {changePercent >= 0 ? "+" : ""}
+            {changePercent.toFixed(1)}%
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Current Equity</p>
+          <p className="font-bold">{formatUSDC(equity)} USDC</p>
+        </div>
+        <div>
+          <p className="text-xs text-base-content/60">Loan-to-Value</p>
+          <p className="font-bold">
+            {loanToValueBPS !== undefined ? `${(Number(loanToValueBPS) / 100).toFixed(1)}%` : "-"}
+          </p>
+        </div>
+      </div>
+      {appraisals.length < 2 ? (
+        <p className="text-xs text-base-content/60">
+          Valued at {formatUSDC(original)} USDC on {formatDate(appraisals[0].timestamp)}. No reappraisals yet.
+        </p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20" preserveAspectRatio="none">
+            <polyline fill="none" stroke="currentColor" strokeWidth="2" className="text-primary" points={polyline} />
+          </svg>
+          <div className="flex justify-between text-xs text-base-content/60">
+            <span>{formatDate(appraisals[0].timestamp)}</span>
+            <span>{appraisals.length - 1} reappraisal(s)</span>
+            <span>{formatDate(appraisals[appraisals.length - 1].timestamp)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+"use client";
+
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+// Mirrors MortgageManager.MortgageStatus
+const FORBEARANCE = 6;
+const MODIFIED = 7;
+
+type WorkoutDetailsProps = {
+  propertyId: number;
+  status: number;
+  interestRateBPS: bigint;
+  durationMonths: bigint;
+  monthlyPayment: bigint;
+};
+
+/**
+ * Forbearance status and modified loan terms granted by a servicer
+ */
+export const WorkoutDetails = ({
+  propertyId,
+  status,
+  interestRateBPS,
+  durationMonths,
+  monthlyPayment,
+}: WorkoutDetailsProps) => {
+  const { data: workout } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getWorkout",
+    args: [BigInt(propertyId)],
+  });
+
+  const { writeContractAsync: writeMortgageManager, isPending } = useScaffoldWriteContract("MortgageManager");
+
+  if (!workout) return null;
+
+  const isInForbearance = status === FORBEARANCE;
+  const isModified = workout.modifiedTimestamp > BigInt(0);
+  if (!isInForbearance && !isModified && workout.deferredInterest === BigInt(0)) return null;
+
+  const forbearanceEnd = new Date(Number(workout.forbearanceEnd) * 1000);
+  const isForbearanceOver = Number(workout.forbearanceEnd) <= Math.floor(Date.now() / 1000);
+
+  const handleEndForbearance = async () => {
+    try {
+      await writeMortgageManager({
+        functionName: "endForbearance",
+        args: [BigInt(propertyId)],
+      });
+    } catch (error) {
+      console.error("Error ending forbearance:", error);
+    }
+  };
+
+  return (
+    <div className="bg-base-200 p-4 rounded-lg mb-4">
+      <h4 className="font-semibold mb-2">Hardship Assistance</h4>
+
+      {isInForbearance && (
+        <div className="text-sm mb-2">
+          <p>
+            Payments are paused until <span className="font-bold">{forbearanceEnd.toLocaleDateString()}</span>. Interest
+            keeps accruing and will be{" "}
+            {workout.capitalizeInterest ? "added to your principal" : "due with your first payment afterwards"}.
+          </p>
+          {isForbearanceOver && (
+            <button className="btn btn-sm btn-primary mt-2" onClick={handleEndForbearance} disabled={isPending}>
+              {isPending ? "Resuming..." : "Resume Payments"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {workout.deferredInterest > BigInt(0) && (
+        <p className="text-sm mb-2">
+          Deferred interest due with your next payment:{" "}
+          <span className="font-bold">{formatUSDC(workout.deferredInterest)} USDC</span>
+        </p>
+      )}
+
+      {isModified && (
+        <div className="overflow-x-auto">
+          <table className="table table-xs w-full">
+            <thead>
+              <tr>
+                <th></th>
+                <th className="text-end">Original</th>
+                <th className="text-end">{status === MODIFIED ? "Modified" : "Current"}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Rate</td>
+                <td className="text-end">{(Number(workout.originalRateBPS) / 100).toFixed(2)}%</td>
+                <td className="text-end font-bold">{(Number(interestRateBPS) / 100).toFixed(2)}%</td>
+              </tr>
+              <tr>
+                <td>Term</td>
+                <td className="text-end">{workout.originalDurationMonths.toString()} months</td>
+                <td className="text-end font-bold">{durationMonths.toString()} months</td>
+              </tr>
+              <tr>
+                <td>Monthly Payment</td>
+                <td className="text-end">{formatUSDC(workout.originalMonthlyPayment)} USDC</td>
+                <td className="text-end font-bold">{formatUSDC(monthlyPayment)} USDC</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-base-content/60 mt-1">
+            Modified on {new Date(Number(workout.modifiedTimestamp) * 1000).toLocaleDateString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,78 +1,77 @@
 "use client";
 
 import { useState } from "react";
+import { AmortizationTable } from "./_components/AmortizationTable";
+import { ArmDetails } from "./_components/ArmDetails";
+import { EscrowDetails } from "./_components/EscrowDetails";
+import { PayoffModal } from "./_components/PayoffModal";
+import { ShareHoldings } from "./_components/ShareHoldings";
+import { TitleHistory } from "./_components/TitleHistory";
+import { ValuationHistory } from "./_components/ValuationHistory";
+import { WorkoutDetails } from "./_components/WorkoutDetails";
 import { NextPage } from "next";
-import { formatEther, parseEther } from "viem";
+import { encodeFunctionData } from "viem";
 import { useAccount } from "wagmi";
-import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { usePropertyCatalog } from "~~/hooks/usePropertyCatalog";
+import { useUSDCApproval } from "~~/hooks/useUSDCApproval";
+import { formatUSDC } from "~~/utils/usdc";
 
 const Dashboard: NextPage = () => {
   const { address } = useAccount();
-  const [paymentAmount, setPaymentAmount] = useState("");
   const [selectedMortgage, setSelectedMortgage] = useState<number | null>(null);
+  const [scheduleMortgage, setScheduleMortgage] = useState<number | null>(null);
+  const [payoffMortgage, setPayoffMortgage] = useState<number | null>(null);
 
-  // Read user's mortgages (simplified - in production we'd iterate)
-  const { data: mortgage0 } = useScaffoldReadContract({
-    contractName: "MortgageManager",
-    functionName: "getMortgage",
-    args: [BigInt(0)],
-  });
+  // Every property with its mortgage; the connected account's loans are picked out below
+  const { allProperties } = usePropertyCatalog();
 
-  const { data: mortgage1 } = useScaffoldReadContract({
+  // Properties the connected account has applied to finance
+  const { data: borrowerPropertyIds } = useScaffoldReadContract({
     contractName: "MortgageManager",
-    functionName: "getMortgage",
-    args: [BigInt(1)],
+    functionName: "getBorrowerMortgages",
+    args: [address],
   });
 
-  const { data: mortgage2 } = useScaffoldReadContract({
+  const { data: mortgageManager } = useDeployedContractInfo({ contractName: "MortgageManager" });
+  const { signPermit, isApproving } = useUSDCApproval("MortgageManager");
+  const { writeContractAsync: makePayment, isPending } = useScaffoldWriteContract("MortgageManager");
+
+  // Installment and late fee for the mortgage being paid (handles interest-only periods and balloons)
+  const { data: paymentDue } = useScaffoldReadContract({
     contractName: "MortgageManager",
-    functionName: "getMortgage",
-    args: [BigInt(2)],
+    functionName: "getPaymentDue",
+    args: [selectedMortgage !== null ? BigInt(selectedMortgage) : undefined],
   });
 
-  const { writeContractAsync: makePayment, isPending } = useScaffoldWriteContract("MortgageManager");
+  // The account's loans, skipping properties someone else has financed since
+  const borrowerMortgages = allProperties.flatMap(({ id, mortgage }) =>
+    mortgage && mortgage.borrower === address && borrowerPropertyIds?.includes(id) ? [mortgage] : [],
+  );
+  // Applied, Active, Forbearance or Modified
+  const mortgages = borrowerMortgages.filter(mortgage => [1, 2, 6, 7].includes(mortgage.status));
+  // Paid Off, Defaulted or Foreclosed
+  const closedMortgages = borrowerMortgages.filter(mortgage => [3, 4, 5].includes(mortgage.status));
 
-  const mortgages = [mortgage0, mortgage1, mortgage2]
-    .filter(m => m && m.borrower === address && m.status === 2) // Status 2 = Active
-    .map((m, idx) => ({
-      propertyId: idx,
-      ...m,
-    }));
-
-  const properties = [
-    {
-      id: 0,
-      address: "123 Blockchain Ave, Crypto City, CC 12345",
-      image: "https://images.unsplash.com/photo-1568605114967-8130f3a36994?w=400",
-    },
-    {
-      id: 1,
-      address: "456 DeFi Street, Web3 Town, WT 67890",
-      image: "https://images.unsplash.com/photo-1572120360610-d971b9d7767c?w=400",
-    },
-    {
-      id: 2,
-      address: "789 Ethereum Boulevard, Smart City, SC 54321",
-      image: "https://images.unsplash.com/photo-1564013799919-ab600027ffc6?w=400",
-    },
-  ];
-
-  const handlePayment = async (propertyId: number, monthlyPayment: bigint) => {
-    if (!paymentAmount && !monthlyPayment) {
-      alert("Please enter payment amount");
+  const handlePayment = async (propertyId: number, amountDue: bigint) => {
+    if (!amountDue) {
+      alert("Nothing is due on this mortgage");
       return;
     }
 
-    const amount = paymentAmount ? parseEther(paymentAmount) : monthlyPayment;
-
     try {
-      await makePayment({
-        functionName: "makePayment",
-        args: [BigInt(propertyId)],
-        value: amount,
-      });
+      // makePayment pulls exactly the amount due
+      const args = [BigInt(propertyId)] as const;
+      const permit = await signPermit(amountDue);
+      if (permit && mortgageManager) {
+        await makePayment({
+          functionName: "permitAndCall",
+          args: [...permit, encodeFunctionData({ abi: mortgageManager.abi, functionName: "makePayment", args })],
+        });
+      } else {
+        await makePayment({ functionName: "makePayment", args });
+      }
       alert("Payment submitted successfully!");
-      setPaymentAmount("");
       setSelectedMortgage(null);
     } catch (error) {
       console.error("Error making payment:", error);
@@ -80,11 +79,30 @@ const Dashboard: NextPage = () => {
   };
 
   const getStatusBadge = (status: number) => {
-    const statuses = ["None", "Applied", "Active", "Paid Off", "Defaulted", "Foreclosed"];
-    const colors = ["badge-ghost", "badge-info", "badge-success", "badge-primary", "badge-error", "badge-warning"];
+    const statuses = ["None", "Applied", "Active", "Paid Off", "Defaulted", "Foreclosed", "Forbearance", "Modified"];
+    const colors = [
+      "badge-ghost",
+      "badge-info",
+      "badge-success",
+      "badge-primary",
+      "badge-error",
+      "badge-warning",
+      "badge-warning",
+      "badge-accent",
+    ];
     return <span className={`badge ${colors[status]}`}>{statuses[status]}</span>;
   };
 
+  const getScheduleLabel = (scheduleType: number, interestOnlyMonths: bigint, paymentsCount: bigint) => {
+    if (scheduleType === 1) {
+      return paymentsCount < interestOnlyMonths
+        ? `Interest-only (${(interestOnlyMonths - paymentsCount).toString()} payments left)`
+        : "Amortizing (after interest-only)";
+    }
+    if (scheduleType === 2) return "Balloon";
+    return "Fully amortizing";
+  };
+
   const calculateDaysUntilPayment = (lastPaymentTime: bigint) => {
     const monthInSeconds = 30 * 24 * 60 * 60;
     const nextPaymentTime = Number(lastPaymentTime) + monthInSeconds;
@@ -124,13 +142,13 @@ const Dashboard: NextPage = () => {
         <div className="space-y-6">
           {mortgages.map(mortgage => {
             if (!mortgage) return null;
-            const property = properties.find(p => p.id === Number(mortgage.propertyId));
+            const property = allProperties.find(p => p.id === mortgage.propertyId);
             const ownershipPercent = Number(mortgage.ownershipSharesBPS) / 100;
-            const remainingBalance =
-              (mortgage.loanAmount || BigInt(0)) -
-              ((mortgage.totalPaid || BigInt(0)) - (mortgage.downPayment || BigInt(0)));
+            const remainingBalance = mortgage.principalOutstanding || BigInt(0);
             const daysUntilPayment = calculateDaysUntilPayment(mortgage.lastPaymentTimestamp || BigInt(0));
             const isOverdue = daysUntilPayment < 0;
+            const isAwaitingReview = mortgage.status === 1;
+            const isInForbearance = mortgage.status === 6;
 
             return (
               <div key={mortgage.propertyId} className="card bg-base-100 shadow-xl">
@@ -139,8 +157,8 @@ const Dashboard: NextPage = () => {
                     {/* Property Image */}
                     <div className="flex-shrink-0">
                       <img
-                        src={property?.image}
-                        alt={property?.address}
+                        src={property?.imageURI}
+                        alt={property?.propertyAddress}
                         className="w-full lg:w-64 h-48 object-cover rounded-lg"
                       />
                     </div>
@@ -149,8 +167,17 @@ const Dashboard: NextPage = () => {
                     <div className="flex-grow">
                       <div className="flex justify-between items-start mb-4">
                         <div>
-                          <h3 className="text-2xl font-bold">{property?.address}</h3>
+                          <h3 className="text-2xl font-bold">{property?.propertyAddress}</h3>
                           <p className="text-base-content/70">Property #{mortgage.propertyId}</p>
+                          <p className="text-sm text-base-content/60">
+                            {getScheduleLabel(
+                              mortgage.scheduleType || 0,
+                              mortgage.interestOnlyMonths || BigInt(0),
+                              mortgage.paymentsCount || BigInt(0),
+                            )}
+                            {!!mortgage.maturityTimestamp &&
+                              ` · Matures ${new Date(Number(mortgage.maturityTimestamp) * 1000).toLocaleDateString()}`}
+                          </p>
                         </div>
                         {getStatusBadge(mortgage.status || 0)}
                       </div>
@@ -169,22 +196,26 @@ const Dashboard: NextPage = () => {
                       </div>
 
                       {/* Financial Stats */}
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
                         <div>
-                          <p className="text-xs text-base-content/60">Property Value</p>
-                          <p className="font-bold">
-                            {formatEther(mortgage.propertyValue || BigInt(0)).substring(0, 6)} ETH
-                          </p>
+                          <p className="text-xs text-base-content/60">Value at Origination</p>
+                          <p className="font-bold">{formatUSDC(mortgage.propertyValue || BigInt(0))} USDC</p>
                         </div>
                         <div>
                           <p className="text-xs text-base-content/60">Remaining Balance</p>
-                          <p className="font-bold">{formatEther(remainingBalance).substring(0, 6)} ETH</p>
+                          <p className="font-bold">{formatUSDC(remainingBalance)} USDC</p>
                         </div>
                         <div>
                           <p className="text-xs text-base-content/60">Monthly Payment</p>
-                          <p className="font-bold">
-                            {formatEther(mortgage.monthlyPayment || BigInt(0)).substring(0, 5)} ETH
-                          </p>
+                          <p className="font-bold">{formatUSDC(mortgage.monthlyPayment || BigInt(0))} USDC</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-base-content/60">Interest Paid</p>
+                          <p className="font-bold">{formatUSDC(mortgage.interestPaid || BigInt(0))} USDC</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-base-content/60">Late Fees Paid</p>
+                          <p className="font-bold">{formatUSDC(mortgage.feesPaid || BigInt(0))} USDC</p>
                         </div>
                         <div>
                           <p className="text-xs text-base-content/60">Payments Made</p>
@@ -194,25 +225,91 @@ const Dashboard: NextPage = () => {
                         </div>
                       </div>
 
+                      {/* Appraisals, current equity and LTV */}
+                      {!isAwaitingReview && (
+                        <ValuationHistory
+                          propertyId={Number(mortgage.propertyId)}
+                          principalOutstanding={remainingBalance}
+                        />
+                      )}
+
+                      {/* Adjustable-rate details */}
+                      {!isAwaitingReview && <ArmDetails propertyId={Number(mortgage.propertyId)} />}
+
+                      {/* Forbearance and modified terms */}
+                      {!isAwaitingReview && (
+                        <WorkoutDetails
+                          propertyId={Number(mortgage.propertyId)}
+                          status={mortgage.status || 0}
+                          interestRateBPS={mortgage.interestRateBPS || BigInt(0)}
+                          durationMonths={mortgage.durationMonths || BigInt(0)}
+                          monthlyPayment={mortgage.monthlyPayment || BigInt(0)}
+                        />
+                      )}
+
+                      {/* Tax and insurance escrow */}
+                      {!isAwaitingReview && <EscrowDetails propertyId={Number(mortgage.propertyId)} />}
+
+                      {/* Fractional shares of the property */}
+                      {!isAwaitingReview && <ShareHoldings propertyId={Number(mortgage.propertyId)} />}
+
+                      {/* Liens recorded on the property NFT */}
+                      {!isAwaitingReview && <TitleHistory propertyId={Number(mortgage.propertyId)} />}
+
                       {/* Payment Status */}
-                      <div className={`alert ${isOverdue ? "alert-error" : "alert-info"} mb-4`}>
-                        <span className="text-sm">
-                          {isOverdue
-                            ? `⚠️ Payment is ${Math.abs(daysUntilPayment)} days overdue! Late fees may apply.`
-                            : `📅 Next payment due in ${daysUntilPayment} days`}
-                        </span>
-                      </div>
+                      {isAwaitingReview ? (
+                        <div className="alert alert-info mb-4">
+                          <span className="text-sm">
+                            🕒 Application awaiting underwriter review. Your down payment is held in escrow and will be
+                            refunded if the application is rejected or expires.
+                          </span>
+                        </div>
+                      ) : isInForbearance ? null : (
+                        <div className={`alert ${isOverdue ? "alert-error" : "alert-info"} mb-4`}>
+                          <span className="text-sm">
+                            {isOverdue
+                              ? `⚠️ Payment is ${Math.abs(daysUntilPayment)} days overdue! Late fees may apply.`
+                              : `📅 Next payment due in ${daysUntilPayment} days`}
+                          </span>
+                        </div>
+                      )}
 
                       {/* Action Buttons */}
                       <div className="flex gap-2">
                         <button
                           className="btn btn-primary"
                           onClick={() => setSelectedMortgage(Number(mortgage.propertyId))}
+                          disabled={isAwaitingReview || isInForbearance}
                         >
                           Make Payment
                         </button>
+                        <button
+                          className="btn btn-secondary"
+                          onClick={() => setPayoffMortgage(Number(mortgage.propertyId))}
+                          disabled={isAwaitingReview || isInForbearance}
+                        >
+                          Pay off loan
+                        </button>
+                        <button
+                          className="btn btn-outline"
+                          onClick={() =>
+                            setScheduleMortgage(
+                              scheduleMortgage === Number(mortgage.propertyId) ? null : Number(mortgage.propertyId),
+                            )
+                          }
+                        >
+                          {scheduleMortgage === Number(mortgage.propertyId) ? "Hide Schedule" : "View Schedule"}
+                        </button>
                         <button className="btn btn-outline">View History</button>
                       </div>
+
+                      {/* Amortization Schedule */}
+                      {scheduleMortgage === Number(mortgage.propertyId) && (
+                        <div className="mt-6">
+                          <h4 className="font-semibold mb-2">Remaining Schedule</h4>
+                          <AmortizationTable propertyId={Number(mortgage.propertyId)} />
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -222,6 +319,45 @@ const Dashboard: NextPage = () => {
         </div>
       )}
 
+      {closedMortgages.length > 0 && (
+        <div className="card bg-base-100 shadow-xl mt-6">
+          <div className="card-body">
+            <h2 className="card-title">Closed Loans</h2>
+            <div className="overflow-x-auto">
+              <table className="table table-sm w-full">
+                <thead>
+                  <tr>
+                    <th>Property</th>
+                    <th>Status</th>
+                    <th className="text-end">Loan Amount (USDC)</th>
+                    <th className="text-end">Interest Paid (USDC)</th>
+                    <th className="text-end">Payments Made</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {closedMortgages.map(mortgage => (
+                    <tr key={mortgage.propertyId.toString()}>
+                      <td>
+                        <div className="font-semibold">
+                          {allProperties.find(p => p.id === mortgage.propertyId)?.propertyAddress}
+                        </div>
+                        <div className="text-xs text-base-content/60">Property #{mortgage.propertyId.toString()}</div>
+                      </td>
+                      <td>{getStatusBadge(mortgage.status)}</td>
+                      <td className="text-end">{formatUSDC(mortgage.loanAmount)}</td>
+                      <td className="text-end">{formatUSDC(mortgage.interestPaid)}</td>
+                      <td className="text-end">
+                        {mortgage.paymentsCount.toString()} / {mortgage.durationMonths.toString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Payment Modal */}
       {selectedMortgage !== null && (
         <div className="modal modal-open">
@@ -229,77 +365,73 @@ const Dashboard: NextPage = () => {
             <h3 className="font-bold text-lg mb-4">Make Mortgage Payment</h3>
 
             {(() => {
-              const mortgage = mortgages.find(m => m.propertyId === selectedMortgage);
+              const mortgage = mortgages.find(m => m.propertyId === BigInt(selectedMortgage));
               if (!mortgage) return null;
 
-              const property = properties.find(p => p.id === selectedMortgage);
-              const daysUntilPayment = calculateDaysUntilPayment(mortgage.lastPaymentTimestamp || BigInt(0));
-              const isOverdue = daysUntilPayment < 0;
-              const monthlyPayment = mortgage.monthlyPayment || BigInt(0);
-              const expectedPayment = isOverdue
-                ? monthlyPayment + (monthlyPayment * BigInt(500)) / BigInt(10000) // 5% late fee
-                : monthlyPayment;
+              const property = allProperties.find(p => p.id === BigInt(selectedMortgage));
+              const [scheduledPayment, escrowPayment, lateFee, insurancePremium] = paymentDue || [
+                BigInt(0),
+                BigInt(0),
+                BigInt(0),
+                BigInt(0),
+              ];
+              const expectedPayment = scheduledPayment + escrowPayment + lateFee + insurancePremium;
+              const isFinalPayment =
+                (mortgage.paymentsCount || BigInt(0)) + BigInt(1) >= (mortgage.durationMonths || BigInt(0));
 
               return (
                 <>
                   <div className="mb-4">
                     <p className="text-sm text-base-content/70 mb-2">Property</p>
-                    <p className="font-semibold">{property?.address}</p>
+                    <p className="font-semibold">{property?.propertyAddress}</p>
                   </div>
 
                   <div className="bg-base-200 p-4 rounded-lg mb-4">
                     <div className="flex justify-between mb-2">
-                      <span>Monthly Payment:</span>
-                      <span className="font-bold">{formatEther(monthlyPayment)} ETH</span>
+                      <span>
+                        {isFinalPayment && mortgage.scheduleType === 2 ? "Balloon Payment:" : "Scheduled Payment:"}
+                      </span>
+                      <span className="font-bold">{formatUSDC(scheduledPayment)} USDC</span>
                     </div>
-                    {isOverdue && (
+                    {escrowPayment > BigInt(0) && (
+                      <div className="flex justify-between mb-2">
+                        <span>Tax &amp; Insurance Escrow:</span>
+                        <span className="font-bold">{formatUSDC(escrowPayment)} USDC</span>
+                      </div>
+                    )}
+                    {insurancePremium > BigInt(0) && (
+                      <div className="flex justify-between mb-2">
+                        <span>Default Insurance Premium:</span>
+                        <span className="font-bold">{formatUSDC(insurancePremium)} USDC</span>
+                      </div>
+                    )}
+                    {lateFee > BigInt(0) && (
                       <div className="flex justify-between text-error">
-                        <span>Late Fee (5%):</span>
-                        <span className="font-bold">
-                          {formatEther((monthlyPayment * BigInt(500)) / BigInt(10000))} ETH
-                        </span>
+                        <span>Late Fee:</span>
+                        <span className="font-bold">{formatUSDC(lateFee)} USDC</span>
                       </div>
                     )}
                     <div className="divider my-2"></div>
                     <div className="flex justify-between text-lg">
                       <span className="font-semibold">Total Due:</span>
-                      <span className="font-bold text-primary">{formatEther(expectedPayment)} ETH</span>
+                      <span className="font-bold text-primary">{formatUSDC(expectedPayment)} USDC</span>
                     </div>
                   </div>
 
-                  <div className="form-control mb-4">
-                    <label className="label">
-                      <span className="label-text">Payment Amount (ETH)</span>
-                    </label>
-                    <input
-                      type="number"
-                      placeholder={formatEther(expectedPayment)}
-                      className="input input-bordered"
-                      value={paymentAmount}
-                      onChange={e => setPaymentAmount(e.target.value)}
-                      step="0.01"
-                    />
-                    <label className="label">
-                      <span className="label-text-alt">Leave empty to pay exact amount due</span>
-                    </label>
-                  </div>
+                  <p className="text-sm text-base-content/70 mb-4">
+                    The exact amount due is paid in USDC. Use &quot;Pay off loan&quot; to prepay principal.
+                  </p>
 
                   <div className="modal-action">
-                    <button
-                      className="btn"
-                      onClick={() => {
-                        setSelectedMortgage(null);
-                        setPaymentAmount("");
-                      }}
-                    >
+                    <button className="btn" onClick={() => setSelectedMortgage(null)}>
                       Cancel
                     </button>
                     <button
                       className="btn btn-primary"
                       onClick={() => handlePayment(selectedMortgage, expectedPayment)}
-                      disabled={isPending}
+                      disabled={isApproving || isPending}
                     >
-                      {isPending ? "Processing..." : "Confirm Payment"}
+                      {isApproving ? "Approving USDC..." : isPending ? "Processing..." : "Confirm Payment"}
                     </button>
                   </div>
                 </>
@@ -309,6 +441,15 @@ const Dashboard: NextPage = () => {
           <div className="modal-backdrop" onClick={() => setSelectedMortgage(null)}></div>
         </div>
       )}
+
+      {/* Payoff / Prepayment Modal */}
+      {payoffMortgage !== null && (
+        <PayoffModal
+          propertyId={payoffMortgage}
+          propertyAddress={allProperties.find(p => p.id === BigInt(payoffMortgage))?.propertyAddress}
+          onClose={() => setPayoffMortgage(null)}
+        />
+      )}
     </div>
   );
 };
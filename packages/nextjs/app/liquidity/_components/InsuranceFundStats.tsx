@@ -0,0 +1,142 @@
+"use client";
+
+import { maxUint256 } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+const formatBPS = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+/**
+ * Reserves, coverage and claims history of the default insurance fund
+ */
+export const InsuranceFundStats = () => {
+  const { data: reserves } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "reserves",
+  });
+
+  const { data: insuredPrincipal } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "insuredPrincipal",
+  });
+
+  const { data: maxExposure } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "maxExposure",
+  });
+
+  const { data: coverageRatioBPS } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "coverageRatioBPS",
+  });
+
+  const { data: targetCoverageRatioBPS } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "targetCoverageRatioBPS",
+  });
+
+  const { data: isSolvent } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "isSolvent",
+  });
+
+  const { data: premiumRateBPS } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "premiumRateBPS",
+  });
+
+  const { data: coverageBPS } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "coverageBPS",
+  });
+
+  const { data: totalPremiums } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "totalPremiums",
+  });
+
+  const { data: totalClaimsPaid } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "totalClaimsPaid",
+  });
+
+  const { data: claimCount } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "claimCount",
+  });
+
+  return (
+    <div className="card bg-base-100 shadow-xl mb-8">
+      <div className="card-body">
+        <div className="flex justify-between items-center">
+          <h3 className="card-title">🛡️ Insurance Fund</h3>
+          {isSolvent !== undefined && (
+            <span className={`badge ${isSolvent ? "badge-success" : "badge-error"}`}>
+              {isSolvent ? "Solvent" : "Below target"}
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Reserves:</span>
+              <span className="font-bold">{formatUSDC(reserves || BigInt(0))} USDC</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Insured Principal:</span>
+              <span className="font-bold">{formatUSDC(insuredPrincipal || BigInt(0))} USDC</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Max Exposure:</span>
+              <span className="font-bold">{formatUSDC(maxExposure || BigInt(0))} USDC</span>
+            </div>
+          </div>
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Coverage Ratio:</span>
+              <span className="font-bold">
+                {coverageRatioBPS === undefined
+                  ? "-"
+                  : coverageRatioBPS === maxUint256
+                    ? "∞"
+                    : formatBPS(coverageRatioBPS)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Solvency Target:</span>
+              <span className="font-bold">
+                {targetCoverageRatioBPS !== undefined ? formatBPS(targetCoverageRatioBPS) : "-"}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Policy:</span>
+              <span className="font-bold">
+                {coverageBPS !== undefined ? formatBPS(coverageBPS) : "-"} of defaulted principal
+              </span>
+            </div>
+          </div>
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Premiums Collected:</span>
+              <span className="font-bold">{formatUSDC(totalPremiums || BigInt(0))} USDC</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Claims Paid:</span>
+              <span className="font-bold">
+                {formatUSDC(totalClaimsPaid || BigInt(0))} USDC ({claimCount?.toString() || "0"} claims)
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>Premium Rate:</span>
+              <span className="font-bold">{premiumRateBPS !== undefined ? formatBPS(premiumRateBPS) : "-"} / year</span>
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-base-content/60">
+          Borrowers pay premiums with every installment. When a loan defaults the fund pays its share of the balance to
+          the pool, limited to the reserves it holds, and is repaid from the foreclosure sale.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { USDC_DECIMALS, parseUSDC } from "~~/utils/usdc";
+
+// Most recent checkpoints to plot (about three months at one per day)
+const MAX_POINTS = BigInt(90);
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+type Point = {
+  timestamp: number;
+  junior: number;
+  senior: number;
+};
+
+const toPolyline = (points: Point[], key: "junior" | "senior", min: number, max: number) => {
+  const first = points[0].timestamp;
+  const span = Math.max(points[points.length - 1].timestamp - first, 1);
+  const range = Math.max(max - min, 1e-9);
+  return points
+    .map(point => {
+      const x = PADDING + ((point.timestamp - first) / span) * (WIDTH - 2 * PADDING);
+      const y = HEIGHT - PADDING - ((point[key] - min) / range) * (HEIGHT - 2 * PADDING);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+};
+
+/**
+ * Junior and senior share price history from the pool's checkpoints, ending at the live price
+ */
+export const SharePriceChart = () => {
+  const { data: checkpointCount } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "checkpointCount",
+  });
+
+  const fromIndex =
+    checkpointCount === undefined ? undefined : checkpointCount > MAX_POINTS ? checkpointCount - MAX_POINTS : BigInt(0);
+
+  const { data: checkpoints } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "getCheckpoints",
+    args: [fromIndex, MAX_POINTS],
+  });
+
+  const { data: juniorSharePrice } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToAssets",
+    args: [parseUSDC("1")],
+  });
+
+  const { data: seniorSharePrice } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorAssets",
+    args: [parseUSDC("1")],
+  });
+
+  const points: Point[] = (checkpoints || []).map(checkpoint => ({
+    timestamp: Number(checkpoint.timestamp),
+    junior: Number(formatUnits(checkpoint.sharePrice, USDC_DECIMALS)),
+    senior: Number(formatUnits(checkpoint.seniorSharePrice, USDC_DECIMALS)),
+  }));
+  if (points.length > 0 && juniorSharePrice !== undefined && seniorSharePrice !== undefined) {
+    points.push({
+      timestamp: Math.floor(Date.now() / 1000),
+      junior: Number(formatUnits(juniorSharePrice, USDC_DECIMALS)),
+      senior: Number(formatUnits(seniorSharePrice, USDC_DECIMALS)),
+    });
+  }
+
+  const prices = points.flatMap(point => [point.junior, point.senior]);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+
+  return (
+    <div className="card bg-base-100 shadow-xl mb-8">
+      <div className="card-body">
+        <div className="flex justify-between items-center">
+          <h3 className="card-title">Share Price History</h3>
+          <div className="flex gap-4 text-sm">
+            <span className="text-warning">● Junior</span>
+            <span className="text-info">● Senior</span>
+          </div>
+        </div>
+        {points.length < 2 ? (
+          <p className="text-sm text-base-content/70">
+            Not enough history yet. The pool records a checkpoint at most once a day as deposits, withdrawals and
+            repayments come in.
+          </p>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+              <polyline
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                className="text-warning"
+                points={toPolyline(points, "junior", min, max)}
+              />
+              <polyline
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                className="text-info"
+                points={toPolyline(points, "senior", min, max)}
+              />
+            </svg>
+            <div className="flex justify-between text-xs text-base-content/60">
+              <span>{new Date(points[0].timestamp * 1000).toLocaleDateString()}</span>
+              <span>
+                {min.toFixed(4)} - {max.toFixed(4)} USDC per share
+              </span>
+              <span>Now</span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+"use client";
+
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC, parseUSDC } from "~~/utils/usdc";
+
+/**
+ * Side-by-side value, pricing and risk of the senior and junior tranches
+ */
+export const TrancheStats = () => {
+  const { data: totalLiquidity } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "totalLiquidity",
+  });
+
+  const { data: seniorAssets } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "seniorAssets",
+  });
+
+  const { data: juniorAssets } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "totalAssets",
+  });
+
+  const { data: seniorSharePrice } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorAssets",
+    args: [parseUSDC("1")],
+  });
+
+  const { data: juniorSharePrice } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToAssets",
+    args: [parseUSDC("1")],
+  });
+
+  const { data: seniorTargetAPYBPS } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "seniorTargetAPYBPS",
+  });
+
+  const { data: pendingSeniorInterest } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "pendingSeniorInterest",
+  });
+
+  const { data: juniorRatioBPS } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "juniorRatioBPS",
+  });
+
+  const { data: totalLossesAbsorbed } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "totalLossesAbsorbed",
+  });
+
+  const { data: totalRecoveries } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "totalRecoveries",
+  });
+
+  const { data: cumulativeLossRatioBPS } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "cumulativeLossRatioBPS",
+  });
+
+  const seniorShareOfPool =
+    totalLiquidity && totalLiquidity > BigInt(0) && seniorAssets !== undefined
+      ? Number((seniorAssets * BigInt(10000)) / totalLiquidity) / 100
+      : 0;
+
+  return (
+    <div className="card bg-base-100 shadow-xl mb-8">
+      <div className="card-body">
+        <h3 className="card-title">Tranches</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-base-200 p-4 rounded-lg">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-semibold">🛡️ Senior</h4>
+              <span className="badge badge-info">
+                {seniorTargetAPYBPS !== undefined ? Number(seniorTargetAPYBPS) / 100 : "-"}% target
+              </span>
+            </div>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Value:</span>
+                <span className="font-bold">{formatUSDC(seniorAssets || BigInt(0))} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Share Price:</span>
+                <span className="font-bold">{seniorSharePrice ? formatUSDC(seniorSharePrice, 6) : "1.0"} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Share of Pool:</span>
+                <span className="font-bold">{seniorShareOfPool.toFixed(1)}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Target Yield Owed:</span>
+                <span className="font-bold">{formatUSDC(pendingSeniorInterest || BigInt(0))} USDC</span>
+              </div>
+            </div>
+            <p className="text-xs text-base-content/60 mt-2">
+              Paid first from every interest repayment, up to the target yield. Loses value only once the junior tranche
+              is wiped out.
+            </p>
+          </div>
+
+          <div className="bg-base-200 p-4 rounded-lg">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-semibold">⚡ Junior</h4>
+              <span className="badge badge-warning">Residual yield</span>
+            </div>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Value:</span>
+                <span className="font-bold">{formatUSDC(juniorAssets || BigInt(0))} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Share Price:</span>
+                <span className="font-bold">{juniorSharePrice ? formatUSDC(juniorSharePrice, 6) : "1.0"} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Loss Buffer:</span>
+                <span className="font-bold">
+                  {juniorRatioBPS !== undefined ? (Number(juniorRatioBPS) / 100).toFixed(1) : "0"}% of pool
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Losses Written Off:</span>
+                <span className="font-bold">{formatUSDC(totalLossesAbsorbed || BigInt(0))} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Recovered from Sales:</span>
+                <span className="font-bold">{formatUSDC(totalRecoveries || BigInt(0))} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Net Loss Ratio:</span>
+                <span className="font-bold">
+                  {cumulativeLossRatioBPS !== undefined ? (Number(cumulativeLossRatioBPS) / 100).toFixed(2) : "0"}% of
+                  lent
+                </span>
+              </div>
+            </div>
+            <p className="text-xs text-base-content/60 mt-2">
+              Takes all interest left after the senior tranche, and absorbs default losses first. Losses are written off
+              when a loan defaults; foreclosure sales restore senior write-downs before junior ones.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
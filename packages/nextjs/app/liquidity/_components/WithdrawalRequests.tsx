@@ -0,0 +1,120 @@
+"use client";
+
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+type WithdrawalRequestRowProps = {
+  requestId: bigint;
+};
+
+const formatWait = (seconds: bigint) => {
+  if (seconds === BigInt(0)) return "Next repayment";
+  // type(uint256).max: no repayment history to extrapolate from yet
+  if (seconds > BigInt(100 * 365 * 24 * 60 * 60)) return "Unknown";
+  const days = Number(seconds) / (24 * 60 * 60);
+  return days < 1 ? "< 1 day" : `~${Math.ceil(days)} days`;
+};
+
+/**
+ * A single queued or settled withdrawal request
+ */
+const WithdrawalRequestRow = ({ requestId }: WithdrawalRequestRowProps) => {
+  const { data: request } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "getWithdrawalRequest",
+    args: [requestId],
+  });
+
+  const { data: queuePosition } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "getQueuePosition",
+    args: [requestId],
+  });
+
+  const { data: estimatedWait } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "estimatedWaitTime",
+    args: [requestId],
+  });
+
+  const { writeContractAsync: writeMortgagePool, isPending } = useScaffoldWriteContract("MortgagePool");
+
+  if (!request || request.claimed) return null;
+
+  const isSettled = request.settledTimestamp > BigInt(0);
+
+  const handleClaim = async () => {
+    try {
+      await writeMortgagePool({
+        functionName: "claimWithdrawal",
+        args: [requestId],
+      });
+      alert("Withdrawal claimed!");
+    } catch (error) {
+      console.error("Error claiming withdrawal:", error);
+    }
+  };
+
+  return (
+    <tr>
+      <td>#{requestId.toString()}</td>
+      <td>{new Date(Number(request.requestedTimestamp) * 1000).toLocaleDateString()}</td>
+      <td>{request.tranche === 1 ? "Senior" : "Junior"}</td>
+      <td className="text-end">{formatUSDC(request.shares, 6)}</td>
+      <td className="text-end">
+        {isSettled ? formatUSDC(request.assets) : queuePosition ? `≈ ${formatUSDC(queuePosition[1])}` : "-"}
+      </td>
+      <td>{isSettled ? "Ready" : queuePosition ? `#${queuePosition[0].toString()} in line` : "-"}</td>
+      <td>{isSettled ? "-" : estimatedWait !== undefined ? formatWait(estimatedWait) : "-"}</td>
+      <td className="text-end">
+        {isSettled && (
+          <button className="btn btn-xs btn-primary" onClick={handleClaim} disabled={isPending}>
+            Claim
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+type WithdrawalRequestsProps = {
+  requestIds: readonly bigint[];
+};
+
+/**
+ * An LP's pending withdrawal requests with their queue position and claim actions
+ */
+export const WithdrawalRequests = ({ requestIds }: WithdrawalRequestsProps) => {
+  return (
+    <div className="card bg-base-100 shadow-xl mt-8">
+      <div className="card-body">
+        <h3 className="card-title">⏳ Withdrawal Queue</h3>
+        <p className="text-sm text-base-content/70">
+          Queued shares are redeemed first-in, first-out as borrowers repay principal. The value shown for queued
+          requests includes every request ahead of yours.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="table table-sm w-full">
+            <thead>
+              <tr>
+                <th>Request</th>
+                <th>Requested</th>
+                <th>Tranche</th>
+                <th className="text-end">Shares</th>
+                <th className="text-end">USDC</th>
+                <th>Status</th>
+                <th>Estimated Wait</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...requestIds].reverse().map(requestId => (
+                <WithdrawalRequestRow key={requestId.toString()} requestId={requestId} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,25 @@
 "use client";
 
 import { useState } from "react";
+import { InsuranceFundStats } from "./_components/InsuranceFundStats";
+import { SharePriceChart } from "./_components/SharePriceChart";
+import { TrancheStats } from "./_components/TrancheStats";
+import { WithdrawalRequests } from "./_components/WithdrawalRequests";
 import { NextPage } from "next";
-import { formatEther, parseEther } from "viem";
 import { useAccount } from "wagmi";
 import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useUSDCApproval } from "~~/hooks/useUSDCApproval";
+import { formatUSDC, parseUSDC, tryParseUSDC } from "~~/utils/usdc";
+
+const formatBPS = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+// Mirrors MortgagePool.Tranche
+const JUNIOR = 0;
+const SENIOR = 1;
 
 const Liquidity: NextPage = () => {
   const { address } = useAccount();
+  const [tranche, setTranche] = useState(JUNIOR);
   const [depositAmount, setDepositAmount] = useState("");
   const [withdrawShares, setWithdrawShares] = useState("");
 
@@ -22,9 +34,9 @@ const Liquidity: NextPage = () => {
     functionName: "activeMortgages",
   });
 
-  const { data: insuranceReserve } = useScaffoldReadContract({
-    contractName: "MortgagePool",
-    functionName: "insuranceReserve",
+  const { data: insuranceReserves } = useScaffoldReadContract({
+    contractName: "InsuranceFund",
+    functionName: "reserves",
   });
 
   const { data: totalInterestEarned } = useScaffoldReadContract({
@@ -37,34 +49,145 @@ const Liquidity: NextPage = () => {
     functionName: "estimatedAPY",
   });
 
-  const { data: userShares } = useScaffoldReadContract({
+  const { data: trailingAPYs } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "trailingAPYs",
+  });
+
+  const { data: juniorShares } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "balanceOf",
+    args: [address],
+  });
+
+  const { data: seniorShares } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "seniorShares",
+    args: [address],
+  });
+
+  // ERC-4626 previews quote exactly what a deposit or redemption would get right now
+  const { data: juniorShareValue } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "previewRedeem",
+    args: [juniorShares],
+  });
+
+  const { data: seniorShareValue } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorAssets",
+    args: [seniorShares],
+  });
+
+  const { data: maxRedeemableJuniorShares } = useScaffoldReadContract({
     contractName: "MortgagePool",
-    functionName: "lpShares",
+    functionName: "maxRedeem",
     args: [address],
   });
 
-  const { data: userShareValue } = useScaffoldReadContract({
+  const { data: availableLiquidity } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "availableLiquidity",
+  });
+
+  const { data: availableSeniorShares } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorShares",
+    args: [availableLiquidity],
+  });
+
+  const { data: juniorSharePrice } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToAssets",
+    args: [parseUSDC("1")],
+  });
+
+  const { data: seniorSharePrice } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorAssets",
+    args: [parseUSDC("1")],
+  });
+
+  const { data: withdrawalRequestIds } = useScaffoldReadContract({
     contractName: "MortgagePool",
-    functionName: "getShareValue",
+    functionName: "getWithdrawalRequests",
     args: [address],
   });
 
-  // Available liquidity can be calculated from totalLiquidity - activeMortgages
+  const parsedDeposit = tryParseUSDC(depositAmount);
+  const { data: juniorDepositQuote } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "previewDeposit",
+    args: [parsedDeposit],
+  });
 
+  const { data: seniorDepositQuote } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorShares",
+    args: [parsedDeposit],
+  });
+
+  const parsedWithdraw = tryParseUSDC(withdrawShares);
+  const { data: juniorWithdrawQuote } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "previewRedeem",
+    args: [parsedWithdraw],
+  });
+
+  const { data: seniorWithdrawQuote } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "convertToSeniorAssets",
+    args: [parsedWithdraw],
+  });
+
+  // Everything below works on the selected tranche
+  const isSenior = tranche === SENIOR;
+  const userShares = isSenior ? seniorShares : juniorShares;
+  const userShareValue = isSenior ? seniorShareValue : juniorShareValue;
+  const sharePrice = isSenior ? seniorSharePrice : juniorSharePrice;
+  const depositSharesQuote = isSenior ? seniorDepositQuote : juniorDepositQuote;
+  const withdrawAssetsQuote = isSenior ? seniorWithdrawQuote : juniorWithdrawQuote;
+  const maxRedeemableShares = isSenior
+    ? seniorShares !== undefined && availableSeniorShares !== undefined
+      ? seniorShares < availableSeniorShares
+        ? seniorShares
+        : availableSeniorShares
+      : undefined
+    : maxRedeemableJuniorShares;
+
+  const { data: usdcBalance } = useScaffoldReadContract({
+    contractName: "MockUSDC",
+    functionName: "balanceOf",
+    args: [address],
+  });
+
+  const { ensureAllowance, signPermit, isApproving } = useUSDCApproval("MortgagePool");
   const { writeContractAsync: depositLiquidity, isPending: isDepositing } = useScaffoldWriteContract("MortgagePool");
   const { writeContractAsync: withdrawLiquidity, isPending: isWithdrawing } = useScaffoldWriteContract("MortgagePool");
 
   const handleDeposit = async () => {
-    if (!depositAmount) {
+    if (!address || !parsedDeposit) {
       alert("Please enter an amount");
       return;
     }
 
     try {
-      await depositLiquidity({
-        functionName: "depositLiquidity",
-        value: parseEther(depositAmount),
-      });
+      if (isSenior) {
+        // Only junior deposits have a permit variant
+        await ensureAllowance(parsedDeposit);
+        await depositLiquidity({ functionName: "depositSenior", args: [parsedDeposit, address] });
+      } else {
+        const permit = await signPermit(parsedDeposit);
+        if (permit) {
+          const [, deadline, v, r, s] = permit;
+          await depositLiquidity({
+            functionName: "depositWithPermit",
+            args: [parsedDeposit, address, deadline, v, r, s],
+          });
+        } else {
+          await depositLiquidity({ functionName: "deposit", args: [parsedDeposit, address] });
+        }
+      }
       alert("Liquidity deposited successfully!");
       setDepositAmount("");
     } catch (error) {
@@ -73,16 +196,23 @@ const Liquidity: NextPage = () => {
   };
 
   const handleWithdraw = async () => {
-    if (!withdrawShares) {
+    if (!address || !parsedWithdraw) {
       alert("Please enter shares amount");
       return;
     }
 
     try {
-      await withdrawLiquidity({
-        functionName: "withdrawLiquidity",
-        args: [parseEther(withdrawShares)],
-      });
+      if (isSenior) {
+        await withdrawLiquidity({
+          functionName: "redeemSenior",
+          args: [parsedWithdraw, address],
+        });
+      } else {
+        await withdrawLiquidity({
+          functionName: "redeem",
+          args: [parsedWithdraw, address, address],
+        });
+      }
       alert("Liquidity withdrawn successfully!");
       setWithdrawShares("");
     } catch (error) {
@@ -90,6 +220,28 @@ const Liquidity: NextPage = () => {
     }
   };
 
+  const handleRequestWithdrawal = async () => {
+    if (!parsedWithdraw) {
+      alert("Please enter shares amount");
+      return;
+    }
+
+    try {
+      await withdrawLiquidity({
+        functionName: isSenior ? "requestSeniorWithdrawal" : "requestWithdrawal",
+        args: [parsedWithdraw],
+      });
+      alert("Withdrawal request queued!");
+      setWithdrawShares("");
+    } catch (error) {
+      console.error("Error requesting withdrawal:", error);
+    }
+  };
+
+  // Larger withdrawals than idle liquidity allows wait in the queue
+  const mustQueue =
+    parsedWithdraw !== undefined && maxRedeemableShares !== undefined && parsedWithdraw > maxRedeemableShares;
+
   const utilizationRate =
     totalLiquidity && totalLiquidity > BigInt(0)
       ? Number(((activeMortgages || BigInt(0)) * BigInt(100)) / totalLiquidity)
@@ -113,31 +265,37 @@ const Liquidity: NextPage = () => {
         <div className="stat bg-base-100 shadow rounded-lg">
           <div className="stat-title">Total Pool Value</div>
           <div className="stat-value text-primary text-2xl">
-            {totalLiquidity ? formatEther(totalLiquidity).substring(0, 6) : "0"} ETH
+            {totalLiquidity ? formatUSDC(totalLiquidity) : "0"} USDC
           </div>
           <div className="stat-desc">Available liquidity for mortgages</div>
         </div>
 
         <div className="stat bg-base-100 shadow rounded-lg">
           <div className="stat-title">Estimated APY</div>
-          <div className="stat-value text-secondary text-2xl">{estimatedAPY ? Number(estimatedAPY) / 100 : "3.5"}%</div>
-          <div className="stat-desc">Annual percentage yield</div>
+          <div className="stat-value text-secondary text-2xl">
+            {estimatedAPY !== undefined ? formatBPS(estimatedAPY) : "-"}
+          </div>
+          <div className="stat-desc">
+            {trailingAPYs
+              ? `Realized 7d ${formatBPS(trailingAPYs[0])} · 30d ${formatBPS(trailingAPYs[1])} · 90d ${formatBPS(trailingAPYs[2])}`
+              : "Loan rates × utilization"}
+          </div>
         </div>
 
         <div className="stat bg-base-100 shadow rounded-lg">
           <div className="stat-title">Active Mortgages</div>
           <div className="stat-value text-accent text-2xl">
-            {activeMortgages ? formatEther(activeMortgages).substring(0, 6) : "0"} ETH
+            {activeMortgages ? formatUSDC(activeMortgages) : "0"} USDC
           </div>
           <div className="stat-desc">Currently deployed capital</div>
         </div>
 
         <div className="stat bg-base-100 shadow rounded-lg">
-          <div className="stat-title">Insurance Reserve</div>
+          <div className="stat-title">Insurance Fund</div>
           <div className="stat-value text-info text-2xl">
-            {insuranceReserve ? formatEther(insuranceReserve).substring(0, 6) : "0"} ETH
+            {insuranceReserves ? formatUSDC(insuranceReserves) : "0"} USDC
           </div>
-          <div className="stat-desc">Default protection fund</div>
+          <div className="stat-desc">Default cover funded by borrower premiums</div>
         </div>
       </div>
 
@@ -151,35 +309,68 @@ const Liquidity: NextPage = () => {
           </div>
           <p className="text-sm text-base-content/70">
             {activeMortgages && totalLiquidity
-              ? `${formatEther(activeMortgages).substring(0, 6)} ETH deployed out of ${formatEther(totalLiquidity).substring(0, 6)} ETH total`
+              ? `${formatUSDC(activeMortgages)} USDC deployed out of ${formatUSDC(totalLiquidity)} USDC total`
               : "No mortgages active yet"}
           </p>
         </div>
       </div>
 
+      <SharePriceChart />
+
+      <TrancheStats />
+
+      <InsuranceFundStats />
+
+      {/* Tranche selection applies to both deposits and withdrawals */}
+      <div role="tablist" className="tabs tabs-boxed mb-8 w-fit">
+        <button
+          role="tab"
+          className={`tab ${tranche === JUNIOR ? "tab-active" : ""}`}
+          onClick={() => setTranche(JUNIOR)}
+        >
+          ⚡ Junior
+        </button>
+        <button
+          role="tab"
+          className={`tab ${tranche === SENIOR ? "tab-active" : ""}`}
+          onClick={() => setTranche(SENIOR)}
+        >
+          🛡️ Senior
+        </button>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Deposit Section */}
         <div className="card bg-base-100 shadow-xl">
           <div className="card-body">
-            <h2 className="card-title text-2xl mb-4">💰 Deposit Liquidity</h2>
+            <h2 className="card-title text-2xl mb-4">💰 Deposit Liquidity ({isSenior ? "Senior" : "Junior"})</h2>
             <p className="text-sm text-base-content/70 mb-4">
-              Deposit ETH to become a liquidity provider and earn competitive yields (typically 3-5% APY) from mortgage
-              interest payments
+              {isSenior
+                ? "Senior deposits earn a capped target yield, paid before the junior tranche, and are protected by the junior tranche against defaults"
+                : "Junior deposits take all mortgage interest left after the senior tranche's target yield, and absorb default losses first"}
             </p>
 
             <div className="form-control">
               <label className="label">
-                <span className="label-text">Amount (ETH)</span>
+                <span className="label-text">Amount (USDC)</span>
+                <span className="label-text-alt">Balance: {formatUSDC(usdcBalance || BigInt(0))} USDC</span>
               </label>
               <input
                 type="number"
-                placeholder="10.0"
+                placeholder="10000"
                 className="input input-bordered input-lg"
                 value={depositAmount}
                 onChange={e => setDepositAmount(e.target.value)}
-                step="0.1"
+                step="100"
                 disabled={!address}
               />
+              {depositSharesQuote !== undefined && (
+                <label className="label">
+                  <span className="label-text-alt">
+                    You receive ≈ {formatUSDC(depositSharesQuote, 6)} {isSenior ? "senior" : "mpUSDC"} pool shares
+                  </span>
+                </label>
+              )}
             </div>
 
             <div className="bg-base-200 p-4 rounded-lg mt-4">
@@ -188,16 +379,26 @@ const Liquidity: NextPage = () => {
                 <li>✓ Earn passive income from mortgage interest</li>
                 <li>✓ 2% insurance protection against defaults</li>
                 <li>✓ Withdraw anytime (if liquidity available)</li>
-                <li>✓ Proportional share of all pool earnings</li>
+                {isSenior ? (
+                  <>
+                    <li>✓ First claim on interest repayments</li>
+                    <li>✓ Junior capital absorbs losses before yours</li>
+                  </>
+                ) : (
+                  <>
+                    <li>✓ Residual share of all pool earnings</li>
+                    <li>✓ Transferable ERC-4626 share tokens (mpUSDC)</li>
+                  </>
+                )}
               </ul>
             </div>
 
             <button
               className="btn btn-primary btn-lg mt-4"
               onClick={handleDeposit}
-              disabled={!address || isDepositing || !depositAmount}
+              disabled={!address || isApproving || isDepositing || !depositAmount}
             >
-              {isDepositing ? "Depositing..." : "Deposit Liquidity"}
+              {isApproving ? "Approving USDC..." : isDepositing ? "Depositing..." : "Deposit Liquidity"}
             </button>
           </div>
         </div>
@@ -205,19 +406,23 @@ const Liquidity: NextPage = () => {
         {/* Withdraw Section */}
         <div className="card bg-base-100 shadow-xl">
           <div className="card-body">
-            <h2 className="card-title text-2xl mb-4">💸 Withdraw Liquidity</h2>
+            <h2 className="card-title text-2xl mb-4">💸 Withdraw Liquidity ({isSenior ? "Senior" : "Junior"})</h2>
 
             {address && userShares !== undefined && userShares > BigInt(0) ? (
               <>
                 <div className="stats stats-vertical shadow mb-4">
                   <div className="stat">
                     <div className="stat-title">Your Shares</div>
-                    <div className="stat-value text-primary text-xl">{formatEther(userShares).substring(0, 10)}</div>
+                    <div className="stat-value text-primary text-xl">{formatUSDC(userShares, 6)}</div>
+                  </div>
+                  <div className="stat">
+                    <div className="stat-title">Share Price</div>
+                    <div className="stat-value text-xl">{sharePrice ? formatUSDC(sharePrice, 6) : "1.0"} USDC</div>
                   </div>
                   <div className="stat">
                     <div className="stat-title">Current Value</div>
                     <div className="stat-value text-secondary text-xl">
-                      {userShareValue ? formatEther(userShareValue).substring(0, 10) : "0"} ETH
+                      {userShareValue ? formatUSDC(userShareValue) : "0"} USDC
                     </div>
                   </div>
                 </div>
@@ -225,7 +430,9 @@ const Liquidity: NextPage = () => {
                 <div className="form-control">
                   <label className="label">
                     <span className="label-text">Shares to Withdraw</span>
-                    <span className="label-text-alt">Max: {formatEther(userShares).substring(0, 10)}</span>
+                    <span className="label-text-alt">
+                      Withdrawable now: {formatUSDC(maxRedeemableShares || BigInt(0), 6)}
+                    </span>
                   </label>
                   <input
                     type="number"
@@ -235,39 +442,62 @@ const Liquidity: NextPage = () => {
                     onChange={e => setWithdrawShares(e.target.value)}
                     step="0.1"
                   />
+                  {withdrawAssetsQuote !== undefined && (
+                    <label className="label">
+                      <span className="label-text-alt">You receive ≈ {formatUSDC(withdrawAssetsQuote)} USDC</span>
+                    </label>
+                  )}
                 </div>
 
                 <div className="alert alert-info mt-4">
                   <span className="text-sm">
-                    Withdrawals are subject to available liquidity. Funds locked in active mortgages cannot be withdrawn
-                    immediately.
+                    {mustQueue
+                      ? "Not enough idle liquidity for this amount right now. Join the withdrawal queue and your shares will be redeemed as borrowers repay principal."
+                      : "Withdrawals are subject to available liquidity. Funds locked in active mortgages can be withdrawn through the queue."}
                   </span>
                 </div>
 
-                <button
-                  className="btn btn-secondary btn-lg mt-4"
-                  onClick={handleWithdraw}
-                  disabled={isWithdrawing || !withdrawShares}
-                >
-                  {isWithdrawing ? "Withdrawing..." : "Withdraw Liquidity"}
-                </button>
+                {mustQueue ? (
+                  <button
+                    className="btn btn-secondary btn-lg mt-4"
+                    onClick={handleRequestWithdrawal}
+                    disabled={isWithdrawing || !withdrawShares}
+                  >
+                    {isWithdrawing ? "Queueing..." : "Join Withdrawal Queue"}
+                  </button>
+                ) : (
+                  <button
+                    className="btn btn-secondary btn-lg mt-4"
+                    onClick={handleWithdraw}
+                    disabled={isWithdrawing || !withdrawShares}
+                  >
+                    {isWithdrawing ? "Withdrawing..." : "Withdraw Liquidity"}
+                  </button>
+                )}
               </>
             ) : (
               <div className="text-center py-8">
-                <p className="text-base-content/70 mb-4">You don&apos;t have any liquidity deposited yet</p>
-                <p className="text-sm text-base-content/60">Deposit ETH to start earning yield</p>
+                <p className="text-base-content/70 mb-4">
+                  You don&apos;t have any {isSenior ? "senior" : "junior"} liquidity deposited yet
+                </p>
+                <p className="text-sm text-base-content/60">Deposit USDC to start earning yield</p>
               </div>
             )}
           </div>
         </div>
       </div>
 
+      {/* Pending withdrawal requests */}
+      {address && withdrawalRequestIds && withdrawalRequestIds.length > 0 && (
+        <WithdrawalRequests requestIds={withdrawalRequestIds} />
+      )}
+
       {/* Total Interest Earned */}
       {totalInterestEarned && totalInterestEarned > BigInt(0) && (
         <div className="card bg-gradient-to-r from-primary to-secondary text-primary-content shadow-xl mt-8">
           <div className="card-body items-center text-center">
             <h3 className="card-title text-2xl">📈 Total Interest Earned by Pool</h3>
-            <p className="text-4xl font-bold">{formatEther(totalInterestEarned).substring(0, 8)} ETH</p>
+            <p className="text-4xl font-bold">{formatUSDC(totalInterestEarned)} USDC</p>
             <p>Distributed proportionally to all liquidity providers</p>
           </div>
         </div>
@@ -0,0 +1,38 @@
+"use client";
+
+import { keccak256 } from "viem";
+
+type DocumentHashInputProps = {
+  label: string;
+  hash?: `0x${string}`;
+  onHash: (hash: `0x${string}` | undefined) => void;
+};
+
+/**
+ * File picker that hashes the chosen document in the browser; the file itself is never uploaded
+ */
+export const DocumentHashInput = ({ label, hash, onHash }: DocumentHashInputProps) => {
+  const handleChange = async (file?: File) => {
+    if (!file) {
+      onHash(undefined);
+      return;
+    }
+    onHash(keccak256(new Uint8Array(await file.arrayBuffer())));
+  };
+
+  return (
+    <div className="form-control">
+      <label className="label">
+        <span className="label-text">{label}</span>
+      </label>
+      <input
+        type="file"
+        className="file-input file-input-bordered file-input-sm"
+        onChange={e => handleChange(e.target.files?.[0])}
+      />
+      <span className="text-xs text-base-content/60 font-mono mt-1 truncate" title={hash}>
+        {hash ?? "No file chosen"}
+      </span>
+    </div>
+  );
+};
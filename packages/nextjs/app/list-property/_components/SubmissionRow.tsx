@@ -0,0 +1,45 @@
+"use client";
+
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+// Mirrors PropertyOnboarding.SubmissionStatus
+const APPROVED = 2;
+const REJECTED = 3;
+
+type SubmissionRowProps = {
+  submissionId: bigint;
+};
+
+/**
+ * One of the seller's submissions with its review outcome
+ */
+export const SubmissionRow = ({ submissionId }: SubmissionRowProps) => {
+  const { data: submission } = useScaffoldReadContract({
+    contractName: "PropertyOnboarding",
+    functionName: "getSubmission",
+    args: [submissionId],
+  });
+
+  if (!submission) return null;
+
+  return (
+    <tr>
+      <td>#{submissionId.toString()}</td>
+      <td>{submission.propertyAddress}</td>
+      <td className="text-end">{formatUSDC(submission.valueUSD)}</td>
+      <td>{new Date(Number(submission.submittedTimestamp) * 1000).toLocaleDateString()}</td>
+      <td>
+        {submission.status === APPROVED ? (
+          <span className="badge badge-success badge-sm">Listed as #{submission.propertyId.toString()}</span>
+        ) : submission.status === REJECTED ? (
+          <span className="badge badge-error badge-sm" title={submission.rejectionReason}>
+            Rejected: {submission.rejectionReason}
+          </span>
+        ) : (
+          <span className="badge badge-info badge-sm">In review</span>
+        )}
+      </td>
+    </tr>
+  );
+};
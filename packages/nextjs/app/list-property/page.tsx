@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { DocumentHashInput } from "./_components/DocumentHashInput";
+import { SubmissionRow } from "./_components/SubmissionRow";
+import { NextPage } from "next";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { parseUSDC } from "~~/utils/usdc";
+
+const DEFAULT_SHARES = "1000";
+
+const ListProperty: NextPage = () => {
+  const { address } = useAccount();
+  const [propertyAddress, setPropertyAddress] = useState("");
+  const [value, setValue] = useState("");
+  const [totalShares, setTotalShares] = useState(DEFAULT_SHARES);
+  const [imageURI, setImageURI] = useState("");
+  const [description, setDescription] = useState("");
+  const [bedrooms, setBedrooms] = useState("");
+  const [bathrooms, setBathrooms] = useState("");
+  const [titleDeedHash, setTitleDeedHash] = useState<`0x${string}`>();
+  const [inspectionHash, setInspectionHash] = useState<`0x${string}`>();
+  const [surveyHash, setSurveyHash] = useState<`0x${string}`>();
+
+  const { data: submissionIds } = useScaffoldReadContract({
+    contractName: "PropertyOnboarding",
+    functionName: "getSellerSubmissions",
+    args: [address],
+  });
+
+  const { writeContractAsync: writePropertyOnboarding, isPending } = useScaffoldWriteContract("PropertyOnboarding");
+
+  const handleSubmit = async () => {
+    if (!propertyAddress || !value || parseFloat(value) <= 0) {
+      alert("Please enter the property address and value");
+      return;
+    }
+    if (!titleDeedHash || !inspectionHash || !surveyHash) {
+      alert("Please attach the title deed, inspection report and survey");
+      return;
+    }
+
+    try {
+      await writePropertyOnboarding({
+        functionName: "submitProperty",
+        args: [
+          propertyAddress,
+          parseUSDC(value),
+          BigInt(totalShares),
+          imageURI,
+          description,
+          BigInt(bedrooms || 0),
+          BigInt(bathrooms || 0),
+          { titleDeedHash, inspectionHash, surveyHash },
+        ],
+      });
+      alert("Property submitted! A reviewer will check your documents before it is listed.");
+      setPropertyAddress("");
+      setValue("");
+      setTotalShares(DEFAULT_SHARES);
+      setImageURI("");
+      setDescription("");
+      setBedrooms("");
+      setBathrooms("");
+    } catch (error) {
+      console.error("Error submitting property:", error);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2">List Your Property</h1>
+        <p className="text-base-content/70">
+          Submit your property with its title deed, inspection and survey. Once a reviewer approves it, the property is
+          tokenized and listed for buyers to finance through the pool.
+        </p>
+      </div>
+
+      {!address && (
+        <div className="alert alert-warning mb-8">
+          <span>Please connect your wallet to submit a property</span>
+        </div>
+      )}
+
+      <div className="card bg-base-100 shadow-xl">
+        <div className="card-body">
+          <h2 className="card-title">Property Details</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="form-control md:col-span-2">
+              <label className="label">
+                <span className="label-text">Address</span>
+              </label>
+              <input
+                type="text"
+                placeholder="123 Main St, City, ST 12345"
+                className="input input-bordered"
+                value={propertyAddress}
+                onChange={e => setPropertyAddress(e.target.value)}
+              />
+            </div>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Asking Value (USDC)</span>
+              </label>
+              <input
+                type="number"
+                placeholder="250000"
+                className="input input-bordered"
+                value={value}
+                onChange={e => setValue(e.target.value)}
+              />
+            </div>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Fractional Shares</span>
+              </label>
+              <input
+                type="number"
+                className="input input-bordered"
+                value={totalShares}
+                onChange={e => setTotalShares(e.target.value)}
+              />
+            </div>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Bedrooms</span>
+              </label>
+              <input
+                type="number"
+                min="0"
+                className="input input-bordered"
+                value={bedrooms}
+                onChange={e => setBedrooms(e.target.value)}
+              />
+            </div>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text">Bathrooms</span>
+              </label>
+              <input
+                type="number"
+                min="0"
+                className="input input-bordered"
+                value={bathrooms}
+                onChange={e => setBathrooms(e.target.value)}
+              />
+            </div>
+            <div className="form-control md:col-span-2">
+              <label className="label">
+                <span className="label-text">Image URL</span>
+              </label>
+              <input
+                type="text"
+                placeholder="https:// or ipfs://"
+                className="input input-bordered"
+                value={imageURI}
+                onChange={e => setImageURI(e.target.value)}
+              />
+            </div>
+            <div className="form-control md:col-span-2">
+              <label className="label">
+                <span className="label-text">Description</span>
+              </label>
+              <textarea
+                className="textarea textarea-bordered"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <h2 className="card-title mt-4">Documents</h2>
+          <p className="text-sm text-base-content/70">
+            Files stay on your device. Only their keccak256 hashes are recorded on-chain, so reviewers can check the
+            copies you send them against your submission.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <DocumentHashInput label="Title Deed" hash={titleDeedHash} onHash={setTitleDeedHash} />
+            <DocumentHashInput label="Inspection Report" hash={inspectionHash} onHash={setInspectionHash} />
+            <DocumentHashInput label="Survey" hash={surveyHash} onHash={setSurveyHash} />
+          </div>
+
+          <div className="card-actions justify-end mt-4">
+            <button className="btn btn-primary" onClick={handleSubmit} disabled={!address || isPending}>
+              {isPending ? <span className="loading loading-spinner"></span> : "Submit for Review"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {submissionIds && submissionIds.length > 0 && (
+        <div className="card bg-base-100 shadow-xl mt-8">
+          <div className="card-body">
+            <h2 className="card-title">Your Submissions</h2>
+            <div className="overflow-x-auto">
+              <table className="table table-sm w-full">
+                <thead>
+                  <tr>
+                    <th>Submission</th>
+                    <th>Address</th>
+                    <th className="text-end">Value (USDC)</th>
+                    <th>Submitted</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...submissionIds].reverse().map(submissionId => (
+                    <SubmissionRow key={submissionId.toString()} submissionId={submissionId} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListProperty;
@@ -4,10 +4,29 @@ import Link from "next/link";
 import type { NextPage } from "next";
 import { useAccount } from "wagmi";
 import { BanknotesIcon, ChartBarIcon, HomeIcon, ShieldCheckIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+const formatBPS = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
 
 const Home: NextPage = () => {
   const { address: connectedAddress } = useAccount();
 
+  const { data: estimatedAPY } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "estimatedAPY",
+  });
+
+  const { data: trailingAPYs } = useScaffoldReadContract({
+    contractName: "MortgagePool",
+    functionName: "trailingAPYs",
+  });
+
+  // Every quote starts from the rate model's base rate, before LTV, term and utilization premiums
+  const { data: baseRateBPS } = useScaffoldReadContract({
+    contractName: "RateModel",
+    functionName: "baseRateBPS",
+  });
+
   return (
     <>
       <div className="flex items-center flex-col grow pt-10">
@@ -36,14 +55,20 @@ const Home: NextPage = () => {
           <div className="stats stats-vertical lg:stats-horizontal shadow w-full">
             <div className="stat place-items-center">
               <div className="stat-title font-semibold">Borrower Rate</div>
-              <div className="stat-value text-success text-3xl">4-6%</div>
-              <div className="stat-desc font-medium">APR · Market driven</div>
+              <div className="stat-value text-success text-3xl">
+                {baseRateBPS !== undefined ? `From ${formatBPS(baseRateBPS)}` : "-"}
+              </div>
+              <div className="stat-desc font-medium">APR · Priced by LTV, term and pool utilization</div>
             </div>
 
             <div className="stat place-items-center">
               <div className="stat-title font-semibold">LP Yield</div>
-              <div className="stat-value text-info text-3xl">3-5%</div>
-              <div className="stat-desc font-medium">APY · Competitive returns</div>
+              <div className="stat-value text-info text-3xl">
+                {estimatedAPY !== undefined ? formatBPS(estimatedAPY) : "-"}
+              </div>
+              <div className="stat-desc font-medium">
+                {trailingAPYs ? `APY · ${formatBPS(trailingAPYs[1])} realized over 30 days` : "APY · From active loans"}
+              </div>
             </div>
 
             <div className="stat place-items-center">
@@ -67,7 +92,7 @@ const Home: NextPage = () => {
                 <ul className="text-left space-y-2">
                   <li>✓ Browse tokenized properties</li>
                   <li>✓ Apply with 10-20% down payment</li>
-                  <li>✓ Get instant approval</li>
+                  <li>✓ Transparent on-chain underwriting</li>
                   <li>✓ Track ownership growth</li>
                   <li>✓ Rates 30-40% lower than banks</li>
                 </ul>
@@ -85,8 +110,8 @@ const Home: NextPage = () => {
                 <BanknotesIcon className="h-12 w-12 text-secondary mb-4" />
                 <h3 className="card-title">For Lenders</h3>
                 <ul className="text-left space-y-2">
-                  <li>✓ Deposit ETH into pool</li>
-                  <li>✓ Earn competitive yields (3-5% APY)</li>
+                  <li>✓ Deposit USDC into pool</li>
+                  <li>✓ Earn yield from mortgage interest</li>
                   <li>✓ Automatic yield distribution</li>
                   <li>✓ Insurance protection</li>
                   <li>✓ Withdraw anytime</li>
@@ -135,8 +160,10 @@ const Home: NextPage = () => {
             <div className="flex gap-4">
               <div className="text-primary text-3xl">⚡</div>
               <div>
-                <h3 className="font-bold mb-2">Instant Approval</h3>
-                <p className="text-sm">Smart contracts automate underwriting and approval</p>
+                <h3 className="font-bold mb-2">Escrowed Applications</h3>
+                <p className="text-sm">
+                  Down payments stay in escrow until underwriters approve, and are refunded otherwise
+                </p>
               </div>
             </div>
             <div className="flex gap-4">
@@ -2,73 +2,126 @@
 
 import { useState } from "react";
 import { NextPage } from "next";
-import { formatEther, parseEther } from "viem";
+import { encodeFunctionData } from "viem";
 import { useAccount } from "wagmi";
-import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { usePropertyCatalog } from "~~/hooks/usePropertyCatalog";
+import { useUSDCApproval } from "~~/hooks/useUSDCApproval";
+import { formatUSDC, tryParseUSDC } from "~~/utils/usdc";
+
+// Mirrors LoanProductRegistry.ScheduleType
+const INTEREST_ONLY = 1;
+const BALLOON = 2;
+
+const describeSchedule = (scheduleType: number, interestOnlyMonths: bigint, balloonAmortizationMonths: bigint) => {
+  if (scheduleType === INTEREST_ONLY) return `Interest-only ${Number(interestOnlyMonths) / 12}y, then amortizing`;
+  if (scheduleType === BALLOON) return `Balloon (${Number(balloonAmortizationMonths) / 12}y amortization)`;
+  return "Fully amortizing";
+};
 
 const Properties: NextPage = () => {
   const { address } = useAccount();
-  const [selectedProperty, setSelectedProperty] = useState<number | null>(null);
+  const [selectedProperty, setSelectedProperty] = useState<bigint | null>(null);
   const [downPayment, setDownPayment] = useState("");
-  const [durationYears, setDurationYears] = useState("30");
-
-  // Total properties available (hardcoded for demo)
-
-  // Mock property data (in production, we'd read each property)
-  const properties = [
-    {
-      id: 0,
-      address: "123 Blockchain Ave, Crypto City, CC 12345",
-      value: "200",
-      image: "https://images.unsplash.com/photo-1568605114967-8130f3a36994?w=800",
-      description: "Modern 3BR/2BA suburban home with smart contract deed",
-      beds: 3,
-      baths: 2,
-    },
-    {
-      id: 1,
-      address: "456 DeFi Street, Web3 Town, WT 67890",
-      value: "150",
-      image: "https://images.unsplash.com/photo-1572120360610-d971b9d7767c?w=800",
-      description: "Cozy 2BR/1BA starter home with NFT title",
-      beds: 2,
-      baths: 1,
-    },
-    {
-      id: 2,
-      address: "789 Ethereum Boulevard, Smart City, SC 54321",
-      value: "350",
-      image: "https://images.unsplash.com/photo-1564013799919-ab600027ffc6?w=800",
-      description: "Luxury 4BR/3BA family home with pool and tokenized ownership",
-      beds: 4,
-      baths: 3,
-    },
-  ];
+  const [productId, setProductId] = useState(0);
+  const [durationMonthsInput, setDurationMonthsInput] = useState("360");
+
+  const [listedOnly, setListedOnly] = useState(true);
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [minBedrooms, setMinBedrooms] = useState(0);
+
+  const { properties, allProperties, isLoading } = usePropertyCatalog({
+    listedOnly,
+    minPrice: tryParseUSDC(minPrice),
+    maxPrice: tryParseUSDC(maxPrice),
+    minBedrooms: minBedrooms > 0 ? minBedrooms : undefined,
+  });
+  const selected = selectedProperty !== null ? allProperties.find(p => p.id === selectedProperty) : undefined;
 
+  const { data: mortgageManager } = useDeployedContractInfo({ contractName: "MortgageManager" });
+  const { signPermit, isApproving } = useUSDCApproval("MortgageManager");
   const { writeContractAsync: applyForMortgage, isPending } = useScaffoldWriteContract("MortgageManager");
 
-  const handleApply = async (propertyId: number, propertyValue: string) => {
-    if (!downPayment) {
-      alert("Please enter a down payment");
+  const { data: loanProducts } = useScaffoldReadContract({
+    contractName: "LoanProductRegistry",
+    functionName: "getProducts",
+  });
+
+  const product = loanProducts?.[productId];
+  const isAdjustable = !!product && product.arm.resetIntervalMonths > BigInt(0);
+  const interestOnlyMonths = product?.scheduleType === INTEREST_ONLY ? product.interestOnlyMonths : BigInt(0);
+  // Cheapest entry point across active products, shown on the property cards
+  const lowestMinDownBPS = loanProducts
+    ?.filter(p => p.active)
+    .reduce((min, p) => (p.minDownPaymentBPS < min ? p.minDownPaymentBPS : min), BigInt(10000));
+
+  const downPaymentAmount = tryParseUSDC(downPayment);
+  const durationMonths = BigInt(durationMonthsInput);
+  const amortizationMonths =
+    product?.scheduleType === BALLOON ? product.balloonAmortizationMonths : durationMonths - interestOnlyMonths;
+
+  // Rate quote for the loan being configured in the modal
+  const { data: quotedRateBPS, isError: isQuoteError } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "quoteInterestRate",
+    args: [selectedProperty ?? undefined, BigInt(productId), downPaymentAmount, durationMonths],
+  });
+
+  const { data: quotedSchedule } = useScaffoldReadContract({
+    contractName: "MortgageMath",
+    functionName: "calculateSchedule",
+    args: [
+      selected && downPaymentAmount !== undefined ? selected.valueUSD - downPaymentAmount : undefined,
+      quotedRateBPS,
+      durationMonths,
+      interestOnlyMonths,
+      amortizationMonths,
+    ],
+  });
+  const hasQuote = !!quotedSchedule && quotedSchedule.length > 0 && !isQuoteError;
+
+  const handleSelectProduct = (id: number) => {
+    setProductId(id);
+    // Keep the chosen term if the new product offers it, otherwise pick its longest term
+    const terms = loanProducts?.[id].allowedTerms ?? [];
+    if (terms.length > 0 && !terms.includes(durationMonths)) {
+      setDurationMonthsInput(terms[terms.length - 1].toString());
+    }
+  };
+
+  const handleApply = async (propertyId: bigint, propertyValue: bigint) => {
+    if (!downPaymentAmount) {
+      alert("Please enter a valid down payment");
+      return;
+    }
+    if (!product) {
+      alert("Please choose a loan product");
       return;
     }
 
-    const downPaymentEth = parseEther(downPayment);
-    const propertyValueEth = parseEther(propertyValue);
-    const minDownPayment = propertyValueEth / BigInt(10); // 10%
+    const minDownPayment = (propertyValue * product.minDownPaymentBPS) / BigInt(10000);
 
-    if (downPaymentEth < minDownPayment) {
-      alert(`Minimum down payment is ${formatEther(minDownPayment)} ETH (10%)`);
+    if (downPaymentAmount < minDownPayment) {
+      alert(
+        `Minimum down payment for ${product.name} is ${formatUSDC(minDownPayment)} USDC (${Number(product.minDownPaymentBPS) / 100}%)`,
+      );
       return;
     }
 
     try {
-      await applyForMortgage({
-        functionName: "applyForMortgage",
-        args: [BigInt(propertyId), BigInt(parseInt(durationYears) * 12)],
-        value: downPaymentEth,
-      });
-      alert("Mortgage application submitted successfully!");
+      // The manager pulls the down payment into escrow, under a signed permit when one is needed
+      const args = [propertyId, BigInt(productId), durationMonths, downPaymentAmount] as const;
+      const permit = await signPermit(downPaymentAmount);
+      if (permit && mortgageManager) {
+        await applyForMortgage({
+          functionName: "permitAndCall",
+          args: [...permit, encodeFunctionData({ abi: mortgageManager.abi, functionName: "applyForMortgage", args })],
+        });
+      } else {
+        await applyForMortgage({ functionName: "applyForMortgage", args });
+      }
+      alert("Mortgage application submitted! Your down payment is held in escrow until an underwriter reviews it.");
       setSelectedProperty(null);
       setDownPayment("");
     } catch (error) {
@@ -89,17 +142,81 @@ const Properties: NextPage = () => {
         </div>
       )}
 
+      {/* Catalog filters */}
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="label cursor-pointer gap-2">
+          <input
+            type="checkbox"
+            className="toggle toggle-primary toggle-sm"
+            checked={listedOnly}
+            onChange={e => setListedOnly(e.target.checked)}
+          />
+          <span className="label-text">Available only</span>
+        </label>
+        <div className="form-control">
+          <label className="label">
+            <span className="label-text">Min. Price (USDC)</span>
+          </label>
+          <input
+            type="number"
+            className="input input-bordered input-sm w-36"
+            value={minPrice}
+            onChange={e => setMinPrice(e.target.value)}
+          />
+        </div>
+        <div className="form-control">
+          <label className="label">
+            <span className="label-text">Max. Price (USDC)</span>
+          </label>
+          <input
+            type="number"
+            className="input input-bordered input-sm w-36"
+            value={maxPrice}
+            onChange={e => setMaxPrice(e.target.value)}
+          />
+        </div>
+        <div className="form-control">
+          <label className="label">
+            <span className="label-text">Bedrooms</span>
+          </label>
+          <select
+            className="select select-bordered select-sm"
+            value={minBedrooms}
+            onChange={e => setMinBedrooms(Number(e.target.value))}
+          >
+            <option value={0}>Any</option>
+            {[1, 2, 3, 4, 5].map(beds => (
+              <option key={beds} value={beds}>
+                {beds}+
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!isLoading && properties.length === 0 && (
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body items-center text-center py-16">
+            <h2 className="text-2xl font-bold mb-4">No Matching Properties</h2>
+            <p className="text-base-content/70">Try widening the price range or including properties under mortgage.</p>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {properties.map(property => (
-          <div key={property.id} className="card bg-base-100 shadow-xl">
+          <div key={property.id.toString()} className="card bg-base-100 shadow-xl">
             <figure className="h-48 overflow-hidden">
-              <img src={property.image} alt={property.address} className="w-full h-full object-cover" />
+              <img src={property.imageURI} alt={property.propertyAddress} className="w-full h-full object-cover" />
             </figure>
             <div className="card-body">
-              <h2 className="card-title text-lg">{property.address}</h2>
+              <div className="flex justify-between items-start gap-2">
+                <h2 className="card-title text-lg">{property.propertyAddress}</h2>
+                {!property.isListed && <span className="badge badge-ghost">Mortgaged</span>}
+              </div>
               <div className="flex gap-2 text-sm text-base-content/70 mb-2">
-                <span>🛏️ {property.beds} beds</span>
-                <span>🚿 {property.baths} baths</span>
+                <span>🛏️ {property.bedrooms.toString()} beds</span>
+                <span>🚿 {property.bathrooms.toString()} baths</span>
               </div>
               <p className="text-sm text-base-content/70">{property.description}</p>
 
@@ -108,11 +225,15 @@ const Properties: NextPage = () => {
               <div className="flex justify-between items-center">
                 <div>
                   <p className="text-xs text-base-content/60">Property Value</p>
-                  <p className="text-2xl font-bold text-primary">{property.value} ETH</p>
+                  <p className="text-2xl font-bold text-primary">{formatUSDC(property.valueUSD)} USDC</p>
                 </div>
                 <div className="text-right">
                   <p className="text-xs text-base-content/60">Min. Down Payment</p>
-                  <p className="text-lg font-semibold">{(parseFloat(property.value) * 0.1).toFixed(1)} ETH</p>
+                  <p className="text-lg font-semibold">
+                    {lowestMinDownBPS !== undefined
+                      ? `${formatUSDC((property.valueUSD * lowestMinDownBPS) / BigInt(10000))} USDC`
+                      : "-"}
+                  </p>
                 </div>
               </div>
 
@@ -120,7 +241,7 @@ const Properties: NextPage = () => {
                 <button
                   className="btn btn-primary btn-sm"
                   onClick={() => setSelectedProperty(property.id)}
-                  disabled={!address}
+                  disabled={!address || !property.isListed}
                 >
                   Apply for Mortgage
                 </button>
@@ -131,48 +252,114 @@ const Properties: NextPage = () => {
       </div>
 
       {/* Application Modal */}
-      {selectedProperty !== null && (
+      {selected && (
         <div className="modal modal-open">
-          <div className="modal-box max-w-2xl">
+          <div className="modal-box max-w-3xl">
             <h3 className="font-bold text-lg mb-4">Apply for Mortgage</h3>
 
             <div className="mb-4">
               <p className="text-sm text-base-content/70 mb-2">Property</p>
-              <p className="font-semibold">{properties[selectedProperty].address}</p>
-              <p className="text-2xl font-bold text-primary mt-2">{properties[selectedProperty].value} ETH</p>
+              <p className="font-semibold">{selected.propertyAddress}</p>
+              <p className="text-2xl font-bold text-primary mt-2">{formatUSDC(selected.valueUSD)} USDC</p>
+            </div>
+
+            <div className="mb-4">
+              <p className="label-text mb-2">Loan Product</p>
+              <div className="overflow-x-auto rounded-lg border border-base-300">
+                <table className="table table-sm w-full">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Product</th>
+                      <th>Rate</th>
+                      <th className="text-end">Min. Down</th>
+                      <th>Terms</th>
+                      <th>Schedule</th>
+                      <th className="text-end">Late Fee</th>
+                      <th className="text-end">Grace / Default</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loanProducts?.map(
+                      (p, idx) =>
+                        p.active && (
+                          <tr
+                            key={idx}
+                            className={`cursor-pointer ${idx === productId ? "bg-base-200" : ""}`}
+                            onClick={() => handleSelectProduct(idx)}
+                          >
+                            <td>
+                              <input
+                                type="radio"
+                                className="radio radio-primary radio-sm"
+                                checked={idx === productId}
+                                onChange={() => handleSelectProduct(idx)}
+                              />
+                            </td>
+                            <td className="font-semibold">{p.name}</td>
+                            <td>
+                              {p.arm.resetIntervalMonths > BigInt(0)
+                                ? `Adjustable (index + ${(Number(p.arm.marginBPS) / 100).toFixed(2)}%)`
+                                : "Fixed"}
+                            </td>
+                            <td className="text-end">{Number(p.minDownPaymentBPS) / 100}%</td>
+                            <td>{p.allowedTerms.map(t => `${Number(t) / 12}y`).join(", ")}</td>
+                            <td>
+                              {describeSchedule(p.scheduleType, p.interestOnlyMonths, p.balloonAmortizationMonths)}
+                            </td>
+                            <td className="text-end">{Number(p.lateFeeBPS) / 100}%</td>
+                            <td className="text-end">
+                              {Number(p.gracePeriod) / 86400}d / {Number(p.defaultPeriod) / 86400}d
+                            </td>
+                          </tr>
+                        ),
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {isAdjustable && product && (
+                <p className="text-xs text-base-content/60 mt-2">
+                  Rate fixed for {Number(product.arm.initialFixedMonths) / 12} years, then resets every{" "}
+                  {Number(product.arm.resetIntervalMonths)} months (caps {Number(product.arm.perResetCapBPS) / 100}% per
+                  reset, {Number(product.arm.lifetimeCapBPS) / 100}% lifetime)
+                </p>
+              )}
             </div>
 
             <div className="form-control mb-4">
               <label className="label">
-                <span className="label-text">Down Payment (ETH)</span>
-                <span className="label-text-alt text-base-content/60">
-                  Min: {(parseFloat(properties[selectedProperty].value) * 0.1).toFixed(1)} ETH (10%)
-                </span>
+                <span className="label-text">Down Payment (USDC)</span>
+                {product && (
+                  <span className="label-text-alt text-base-content/60">
+                    Min: {formatUSDC((selected.valueUSD * product.minDownPaymentBPS) / BigInt(10000))} USDC (
+                    {Number(product.minDownPaymentBPS) / 100}%)
+                  </span>
+                )}
               </label>
               <input
                 type="number"
-                placeholder="20"
+                placeholder="40000"
                 className="input input-bordered"
                 value={downPayment}
                 onChange={e => setDownPayment(e.target.value)}
-                step="0.1"
+                step="1000"
               />
             </div>
 
             <div className="form-control mb-4">
               <label className="label">
-                <span className="label-text">Loan Duration (Years)</span>
+                <span className="label-text">Loan Duration</span>
               </label>
               <select
                 className="select select-bordered"
-                value={durationYears}
-                onChange={e => setDurationYears(e.target.value)}
+                value={durationMonthsInput}
+                onChange={e => setDurationMonthsInput(e.target.value)}
               >
-                <option value="10">10 years</option>
-                <option value="15">15 years</option>
-                <option value="20">20 years</option>
-                <option value="25">25 years</option>
-                <option value="30">30 years</option>
+                {product?.allowedTerms.map(term => (
+                  <option key={term.toString()} value={term.toString()}>
+                    {Number(term) / 12} years
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -183,17 +370,48 @@ const Properties: NextPage = () => {
                   <div className="flex justify-between">
                     <span>Loan Amount:</span>
                     <span className="font-semibold">
-                      {(parseFloat(properties[selectedProperty].value) - parseFloat(downPayment)).toFixed(2)} ETH
+                      {formatUSDC(selected.valueUSD - (downPaymentAmount ?? BigInt(0)))} USDC
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>{isAdjustable ? "Initial Rate:" : "Interest Rate:"}</span>
+                    <span className="font-semibold text-success">
+                      {isQuoteError
+                        ? "Not available for these terms"
+                        : quotedRateBPS !== undefined
+                          ? `${(Number(quotedRateBPS) / 100).toFixed(2)}% APR`
+                          : "Quoting..."}
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Interest Rate:</span>
-                    <span className="font-semibold text-success">5.0% APR</span>
+                    <span>{interestOnlyMonths > BigInt(0) ? "Interest-Only Payment:" : "Monthly Payment:"}</span>
+                    <span className="font-semibold">
+                      {hasQuote ? `${formatUSDC(quotedSchedule[0].payment)} USDC` : "-"}
+                    </span>
                   </div>
+                  {interestOnlyMonths > BigInt(0) && (
+                    <div className="flex justify-between">
+                      <span>Payment from Year {Number(interestOnlyMonths) / 12 + 1}:</span>
+                      <span className="font-semibold">
+                        {hasQuote ? `${formatUSDC(quotedSchedule[Number(interestOnlyMonths)].payment)} USDC` : "-"}
+                      </span>
+                    </div>
+                  )}
+                  {product?.scheduleType === BALLOON && (
+                    <div className="flex justify-between">
+                      <span>Balloon Due at Maturity:</span>
+                      <span className="font-semibold text-warning">
+                        {hasQuote ? `${formatUSDC(quotedSchedule[quotedSchedule.length - 1].payment)} USDC` : "-"}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Initial Ownership:</span>
                     <span className="font-semibold text-primary">
-                      {((parseFloat(downPayment) / parseFloat(properties[selectedProperty].value)) * 100).toFixed(1)}%
+                      {(Number(((downPaymentAmount ?? BigInt(0)) * BigInt(10000)) / selected.valueUSD) / 100).toFixed(
+                        1,
+                      )}
+                      %
                     </span>
                   </div>
                 </div>
@@ -206,10 +424,10 @@ const Properties: NextPage = () => {
               </button>
               <button
                 className="btn btn-primary"
-                onClick={() => handleApply(selectedProperty, properties[selectedProperty].value)}
-                disabled={isPending || !downPayment}
+                onClick={() => handleApply(selected.id, selected.valueUSD)}
+                disabled={isApproving || isPending || !downPayment || !product}
               >
-                {isPending ? "Submitting..." : "Submit Application"}
+                {isApproving ? "Approving USDC..." : isPending ? "Submitting..." : "Submit Application"}
               </button>
             </div>
           </div>
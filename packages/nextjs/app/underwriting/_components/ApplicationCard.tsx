@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { Address } from "@scaffold-ui/components";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+const APPLICATION_EXPIRY_SECONDS = 14 * 24 * 60 * 60;
+
+type ApplicationCardProps = {
+  propertyId: bigint;
+  canReview: boolean;
+};
+
+/**
+ * A single pending mortgage application with underwriting actions
+ */
+export const ApplicationCard = ({ propertyId, canReview }: ApplicationCardProps) => {
+  const [rejectReason, setRejectReason] = useState("");
+
+  const { data: application } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getMortgage",
+    args: [propertyId],
+  });
+
+  const { data: property } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "getProperty",
+    args: [propertyId],
+  });
+
+  const { data: isExpired } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "isApplicationExpired",
+    args: [propertyId],
+  });
+
+  const { writeContractAsync: writeMortgageManager, isPending } = useScaffoldWriteContract("MortgageManager");
+
+  if (!application || !property) return null;
+
+  const ltvPercent =
+    application.propertyValue > BigInt(0)
+      ? Number((application.loanAmount * BigInt(10000)) / application.propertyValue) / 100
+      : 0;
+  const expiresAt = new Date((Number(application.appliedTimestamp) + APPLICATION_EXPIRY_SECONDS) * 1000);
+
+  const handleApprove = async () => {
+    try {
+      await writeMortgageManager({
+        functionName: "approveApplication",
+        args: [propertyId],
+      });
+    } catch (error) {
+      console.error("Error approving application:", error);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectReason) {
+      alert("Please enter a rejection reason");
+      return;
+    }
+
+    try {
+      await writeMortgageManager({
+        functionName: "rejectApplication",
+        args: [propertyId, rejectReason],
+      });
+      setRejectReason("");
+    } catch (error) {
+      console.error("Error rejecting application:", error);
+    }
+  };
+
+  const handleExpire = async () => {
+    try {
+      await writeMortgageManager({
+        functionName: "expireApplication",
+        args: [propertyId],
+      });
+    } catch (error) {
+      console.error("Error expiring application:", error);
+    }
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-xl">
+      <div className="card-body">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="card-title">{property.propertyAddress}</h3>
+            <p className="text-base-content/70">Property #{propertyId.toString()}</p>
+          </div>
+          {isExpired ? (
+            <span className="badge badge-warning">Expired</span>
+          ) : (
+            <span className="badge badge-info">Pending</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-base-content/60">Applicant:</span>
+          <Address address={application.borrower} size="sm" />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 my-2">
+          <div>
+            <p className="text-xs text-base-content/60">Property Value</p>
+            <p className="font-bold">{formatUSDC(application.propertyValue)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Down Payment (escrowed)</p>
+            <p className="font-bold">{formatUSDC(application.downPayment)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Loan Amount</p>
+            <p className="font-bold">{formatUSDC(application.loanAmount)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">LTV</p>
+            <p className="font-bold">{ltvPercent.toFixed(1)}%</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Term</p>
+            <p className="font-bold">{application.durationMonths.toString()} months</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Rate</p>
+            <p className="font-bold">{(Number(application.interestRateBPS) / 100).toFixed(2)}% APR</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Monthly Payment</p>
+            <p className="font-bold">{formatUSDC(application.monthlyPayment)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Review Deadline</p>
+            <p className="font-bold">{expiresAt.toLocaleDateString()}</p>
+          </div>
+        </div>
+
+        {isExpired ? (
+          <div className="card-actions justify-end">
+            <button className="btn btn-warning btn-sm" onClick={handleExpire} disabled={isPending}>
+              Close &amp; Refund Applicant
+            </button>
+          </div>
+        ) : (
+          canReview && (
+            <div className="flex flex-col md:flex-row gap-2 mt-2">
+              <input
+                type="text"
+                placeholder="Rejection reason"
+                className="input input-bordered input-sm flex-grow"
+                value={rejectReason}
+                onChange={e => setRejectReason(e.target.value)}
+              />
+              <button className="btn btn-error btn-sm" onClick={handleReject} disabled={isPending}>
+                Reject
+              </button>
+              <button className="btn btn-success btn-sm" onClick={handleApprove} disabled={isPending}>
+                Approve &amp; Fund
+              </button>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
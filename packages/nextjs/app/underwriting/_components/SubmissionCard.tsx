@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Address } from "@scaffold-ui/components";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { formatUSDC } from "~~/utils/usdc";
+
+type SubmissionCardProps = {
+  submissionId: bigint;
+  canReview: boolean;
+};
+
+/**
+ * A seller's property submission awaiting review, with its document hashes
+ */
+export const SubmissionCard = ({ submissionId, canReview }: SubmissionCardProps) => {
+  const [rejectReason, setRejectReason] = useState("");
+
+  const { data: submission } = useScaffoldReadContract({
+    contractName: "PropertyOnboarding",
+    functionName: "getSubmission",
+    args: [submissionId],
+  });
+
+  const { writeContractAsync: writePropertyOnboarding, isPending } = useScaffoldWriteContract("PropertyOnboarding");
+
+  if (!submission) return null;
+
+  const handleApprove = async () => {
+    try {
+      await writePropertyOnboarding({
+        functionName: "approveSubmission",
+        args: [submissionId],
+      });
+    } catch (error) {
+      console.error("Error approving submission:", error);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectReason) {
+      alert("Please enter a rejection reason");
+      return;
+    }
+
+    try {
+      await writePropertyOnboarding({
+        functionName: "rejectSubmission",
+        args: [submissionId, rejectReason],
+      });
+      setRejectReason("");
+    } catch (error) {
+      console.error("Error rejecting submission:", error);
+    }
+  };
+
+  const documents = [
+    { label: "Title Deed", hash: submission.documents.titleDeedHash },
+    { label: "Inspection", hash: submission.documents.inspectionHash },
+    { label: "Survey", hash: submission.documents.surveyHash },
+  ];
+
+  return (
+    <div className="card bg-base-100 shadow-xl">
+      <div className="card-body">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="card-title">{submission.propertyAddress}</h3>
+            <p className="text-base-content/70">Submission #{submissionId.toString()}</p>
+          </div>
+          <span className="badge badge-info">Pending</span>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-base-content/60">Seller:</span>
+          <Address address={submission.seller} size="sm" />
+        </div>
+
+        <p className="text-sm text-base-content/70">{submission.description}</p>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 my-2">
+          <div>
+            <p className="text-xs text-base-content/60">Asking Value</p>
+            <p className="font-bold">{formatUSDC(submission.valueUSD)} USDC</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Fractional Shares</p>
+            <p className="font-bold">{submission.totalShares.toString()}</p>
+          </div>
+          <div>
+            <p className="text-xs text-base-content/60">Submitted</p>
+            <p className="font-bold">{new Date(Number(submission.submittedTimestamp) * 1000).toLocaleDateString()}</p>
+          </div>
+        </div>
+
+        <div className="bg-base-200 p-4 rounded-lg">
+          <h4 className="font-semibold mb-2">Document Hashes</h4>
+          {documents.map(({ label, hash }) => (
+            <div key={label} className="flex gap-2 text-xs">
+              <span className="w-20 text-base-content/60">{label}</span>
+              <span className="font-mono truncate">{hash}</span>
+            </div>
+          ))}
+        </div>
+
+        {canReview && (
+          <div className="flex flex-col md:flex-row gap-2 mt-2">
+            <input
+              type="text"
+              placeholder="Rejection reason"
+              className="input input-bordered input-sm flex-grow"
+              value={rejectReason}
+              onChange={e => setRejectReason(e.target.value)}
+            />
+            <button className="btn btn-error btn-sm" onClick={handleReject} disabled={isPending}>
+              Reject
+            </button>
+            <button className="btn btn-success btn-sm" onClick={handleApprove} disabled={isPending}>
+              Approve &amp; List
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+"use client";
+
+import { ApplicationCard } from "./_components/ApplicationCard";
+import { SubmissionCard } from "./_components/SubmissionCard";
+import { NextPage } from "next";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+const Underwriting: NextPage = () => {
+  const { address } = useAccount();
+
+  const { data: pendingApplications } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "getPendingApplications",
+  });
+
+  const { data: isUnderwriter } = useScaffoldReadContract({
+    contractName: "MortgageManager",
+    functionName: "underwriters",
+    args: [address],
+  });
+
+  const { data: pendingSubmissions } = useScaffoldReadContract({
+    contractName: "PropertyOnboarding",
+    functionName: "getPendingSubmissions",
+  });
+
+  const { data: isReviewer } = useScaffoldReadContract({
+    contractName: "PropertyOnboarding",
+    functionName: "reviewers",
+    args: [address],
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2">Underwriting Queue</h1>
+        <p className="text-base-content/70">Review pending mortgage applications and their escrowed down payments</p>
+      </div>
+
+      {!address && (
+        <div className="alert alert-warning mb-8">
+          <span>Please connect your wallet to review applications</span>
+        </div>
+      )}
+
+      {address && !isUnderwriter && (
+        <div className="alert alert-info mb-8">
+          <span>
+            Your wallet is not an authorized underwriter. You can view the queue and close expired applications.
+          </span>
+        </div>
+      )}
+
+      {pendingApplications && pendingApplications.length > 0 ? (
+        <div className="space-y-6">
+          {pendingApplications.map(propertyId => (
+            <ApplicationCard key={propertyId.toString()} propertyId={propertyId} canReview={!!isUnderwriter} />
+          ))}
+        </div>
+      ) : (
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body items-center text-center py-16">
+            <h2 className="text-2xl font-bold mb-4">No Pending Applications</h2>
+            <p className="text-base-content/70">New mortgage applications will appear here for review.</p>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-12 mb-8">
+        <h2 className="text-3xl font-bold mb-2">Property Onboarding</h2>
+        <p className="text-base-content/70">
+          Check seller documents against their hashes before the property is tokenized and listed
+        </p>
+      </div>
+
+      {address && !isReviewer && (
+        <div className="alert alert-info mb-8">
+          <span>Your wallet is not an authorized property reviewer.</span>
+        </div>
+      )}
+
+      {pendingSubmissions && pendingSubmissions.length > 0 ? (
+        <div className="space-y-6">
+          {pendingSubmissions.map(submissionId => (
+            <SubmissionCard key={submissionId.toString()} submissionId={submissionId} canReview={!!isReviewer} />
+          ))}
+        </div>
+      ) : (
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body items-center text-center py-16">
+            <h2 className="text-2xl font-bold mb-4">No Pending Submissions</h2>
+            <p className="text-base-content/70">Properties submitted by sellers will appear here for review.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Underwriting;
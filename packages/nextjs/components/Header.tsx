@@ -11,7 +11,10 @@ import {
   BugAntIcon,
   BuildingOffice2Icon,
   ChartBarIcon,
+  ClipboardDocumentCheckIcon,
+  DocumentPlusIcon,
   HomeIcon,
+  ScaleIcon,
 } from "@heroicons/react/24/outline";
 import { FaucetButton, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
 import { USDCFaucet } from "~~/components/scaffold-eth/USDCFaucet";
@@ -34,6 +37,11 @@ export const menuLinks: HeaderMenuLink[] = [
     href: "/properties",
     icon: <BuildingOffice2Icon className="h-4 w-4" />,
   },
+  {
+    label: "List Property",
+    href: "/list-property",
+    icon: <DocumentPlusIcon className="h-4 w-4" />,
+  },
   {
     label: "Liquidity Pool",
     href: "/liquidity",
@@ -44,6 +52,16 @@ export const menuLinks: HeaderMenuLink[] = [
     href: "/dashboard",
     icon: <ChartBarIcon className="h-4 w-4" />,
   },
+  {
+    label: "Underwriting",
+    href: "/underwriting",
+    icon: <ClipboardDocumentCheckIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Auctions",
+    href: "/auctions",
+    icon: <ScaleIcon className="h-4 w-4" />,
+  },
   {
     label: "Debug Contracts",
     href: "/debug",
@@ -6,123 +6,106 @@ import { GenericContractsDeclaration } from "~~/utils/scaffold-eth/contract";
 
 const deployedContracts = {
   31337: {
-    MockUSDC: {
-      address: "0x63fea6E447F120B8Faf85B53cdaD8348e645D80E",
+    ForeclosureAuction: {
+      address: "0x610178dA211FEF7D417bC0e6FeD39F05609AD788",
       abi: [
-        {
-          inputs: [],
-          stateMutability: "nonpayable",
-          type: "constructor",
-        },
         {
           inputs: [
             {
               internalType: "address",
-              name: "spender",
+              name: "_propertyNFT",
               type: "address",
             },
             {
-              internalType: "uint256",
-              name: "allowance",
-              type: "uint256",
+              internalType: "address",
+              name: "_mortgagePool",
+              type: "address",
             },
             {
-              internalType: "uint256",
-              name: "needed",
-              type: "uint256",
+              internalType: "address",
+              name: "_insuranceFund",
+              type: "address",
             },
           ],
-          name: "ERC20InsufficientAllowance",
-          type: "error",
+          stateMutability: "nonpayable",
+          type: "constructor",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "sender",
+              name: "target",
               type: "address",
             },
-            {
-              internalType: "uint256",
-              name: "balance",
-              type: "uint256",
-            },
-            {
-              internalType: "uint256",
-              name: "needed",
-              type: "uint256",
-            },
           ],
-          name: "ERC20InsufficientBalance",
+          name: "AddressEmptyCode",
           type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "approver",
+              name: "account",
               type: "address",
             },
           ],
-          name: "ERC20InvalidApprover",
+          name: "AddressInsufficientBalance",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "FailedInnerCall",
           type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "receiver",
+              name: "owner",
               type: "address",
             },
           ],
-          name: "ERC20InvalidReceiver",
+          name: "OwnableInvalidOwner",
           type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "sender",
+              name: "account",
               type: "address",
             },
           ],
-          name: "ERC20InvalidSender",
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "ReentrancyGuardReentrantCall",
           type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "spender",
+              name: "token",
               type: "address",
             },
           ],
-          name: "ERC20InvalidSpender",
+          name: "SafeERC20FailedOperation",
           type: "error",
         },
         {
           anonymous: false,
           inputs: [
-            {
-              indexed: true,
-              internalType: "address",
-              name: "owner",
-              type: "address",
-            },
-            {
-              indexed: true,
-              internalType: "address",
-              name: "spender",
-              type: "address",
-            },
             {
               indexed: false,
               internalType: "uint256",
-              name: "value",
+              name: "duration",
               type: "uint256",
             },
           ],
-          name: "Approval",
+          name: "AuctionDurationUpdated",
           type: "event",
         },
         {
@@ -130,152 +113,133 @@ const deployedContracts = {
           inputs: [
             {
               indexed: true,
-              internalType: "address",
-              name: "from",
-              type: "address",
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
             },
             {
-              indexed: true,
-              internalType: "address",
-              name: "to",
-              type: "address",
+              indexed: false,
+              internalType: "uint256",
+              name: "reservePrice",
+              type: "uint256",
             },
             {
               indexed: false,
               internalType: "uint256",
-              name: "value",
+              name: "endTimestamp",
               type: "uint256",
             },
           ],
-          name: "Transfer",
+          name: "AuctionRestarted",
           type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
-              internalType: "address",
-              name: "owner",
-              type: "address",
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
             },
             {
+              indexed: true,
               internalType: "address",
-              name: "spender",
+              name: "buyer",
               type: "address",
             },
-          ],
-          name: "allowance",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "salePrice",
               type: "uint256",
             },
-          ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [
             {
-              internalType: "address",
-              name: "spender",
-              type: "address",
+              indexed: false,
+              internalType: "uint256",
+              name: "toPool",
+              type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "value",
+              name: "toInsurance",
               type: "uint256",
             },
-          ],
-          name: "approve",
-          outputs: [
             {
-              internalType: "bool",
-              name: "",
-              type: "bool",
+              indexed: false,
+              internalType: "uint256",
+              name: "toBorrower",
+              type: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "AuctionSettled",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
               internalType: "address",
-              name: "account",
+              name: "borrower",
               type: "address",
             },
-          ],
-          name: "balanceOf",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "startPrice",
               type: "uint256",
             },
-          ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "amount",
+              name: "reservePrice",
               type: "uint256",
             },
-          ],
-          name: "burn",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "decimals",
-          outputs: [
             {
-              internalType: "uint8",
-              name: "",
-              type: "uint8",
+              indexed: false,
+              internalType: "uint256",
+              name: "endTimestamp",
+              type: "uint256",
             },
           ],
-          stateMutability: "pure",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "faucet",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "AuctionStarted",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "to",
+              name: "previousOwner",
               type: "address",
             },
             {
-              internalType: "uint256",
-              name: "amount",
-              type: "uint256",
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
             },
           ],
-          name: "mint",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "OwnershipTransferred",
+          type: "event",
         },
         {
           inputs: [],
-          name: "name",
+          name: "MIN_AUCTION_DURATION",
           outputs: [
             {
-              internalType: "string",
+              internalType: "uint256",
               name: "",
-              type: "string",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
@@ -283,12 +247,12 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "symbol",
+          name: "asset",
           outputs: [
             {
-              internalType: "string",
+              internalType: "contract IERC20",
               name: "",
-              type: "string",
+              type: "address",
             },
           ],
           stateMutability: "view",
@@ -296,7 +260,7 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "totalSupply",
+          name: "auctionDuration",
           outputs: [
             {
               internalType: "uint256",
@@ -311,16 +275,24 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "address",
-              name: "to",
+              name: "manager",
               type: "address",
             },
+          ],
+          name: "authorizeManager",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
-              internalType: "uint256",
-              name: "value",
-              type: "uint256",
+              internalType: "address",
+              name: "",
+              type: "address",
             },
           ],
-          name: "transfer",
+          name: "authorizedManagers",
           outputs: [
             {
               internalType: "bool",
@@ -328,352 +300,419 @@ const deployedContracts = {
               type: "bool",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
         {
           inputs: [
             {
-              internalType: "address",
-              name: "from",
-              type: "address",
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
             },
             {
-              internalType: "address",
-              name: "to",
-              type: "address",
+              internalType: "uint256",
+              name: "maxPrice",
+              type: "uint256",
             },
+          ],
+          name: "buy",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "uint256",
-              name: "value",
+              name: "propertyId",
               type: "uint256",
             },
           ],
-          name: "transferFrom",
+          name: "currentPrice",
           outputs: [
             {
-              internalType: "bool",
+              internalType: "uint256",
               name: "",
-              type: "bool",
+              type: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
-      ],
-      inheritedFunctions: {
-        allowance: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        approve: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        balanceOf: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        decimals: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        name: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        symbol: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        totalSupply: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        transfer: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-        transferFrom: "@openzeppelin/contracts/token/ERC20/ERC20.sol",
-      },
-      deployedOnBlock: 204,
-    },
-    MortgageManager: {
-      address: "0x1780bCf4103D3F501463AD3414c7f4b654bb7aFd",
-      abi: [
         {
           inputs: [
             {
-              internalType: "address",
-              name: "_propertyNFT",
-              type: "address",
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
             },
+          ],
+          name: "getAuction",
+          outputs: [
             {
-              internalType: "address payable",
-              name: "_mortgagePool",
-              type: "address",
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "propertyId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "borrower",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "principalOwed",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "feesOwed",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "insuranceOwed",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "startPrice",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "reservePrice",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "startTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "endTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "buyer",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "salePrice",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum ForeclosureAuction.AuctionStatus",
+                  name: "status",
+                  type: "uint8",
+                },
+              ],
+              internalType: "struct ForeclosureAuction.Auction",
+              name: "",
+              type: "tuple",
             },
           ],
-          stateMutability: "nonpayable",
-          type: "constructor",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          inputs: [
+          inputs: [],
+          name: "getAuctionedProperties",
+          outputs: [
             {
-              internalType: "address",
-              name: "owner",
-              type: "address",
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
             },
           ],
-          name: "OwnableInvalidOwner",
-          type: "error",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          inputs: [
+          inputs: [],
+          name: "insuranceFund",
+          outputs: [
             {
-              internalType: "address",
-              name: "account",
+              internalType: "contract IInsuranceFund",
+              name: "",
               type: "address",
             },
           ],
-          name: "OwnableUnauthorizedAccount",
-          type: "error",
+          stateMutability: "view",
+          type: "function",
         },
         {
           inputs: [],
-          name: "ReentrancyGuardReentrantCall",
-          type: "error",
-        },
-        {
-          anonymous: false,
-          inputs: [
+          name: "mortgagePool",
+          outputs: [
             {
-              indexed: true,
-              internalType: "uint256",
-              name: "propertyId",
-              type: "uint256",
+              internalType: "contract MortgagePool",
+              name: "",
+              type: "address",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
             {
-              indexed: true,
               internalType: "address",
-              name: "borrower",
+              name: "",
               type: "address",
             },
           ],
-          name: "MortgageActivated",
-          type: "event",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "uint256",
               name: "propertyId",
               type: "uint256",
             },
             {
-              indexed: true,
-              internalType: "address",
-              name: "borrower",
-              type: "address",
+              internalType: "uint256",
+              name: "salePrice",
+              type: "uint256",
+            },
+          ],
+          name: "previewWaterfall",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "toPoolPrincipal",
+              type: "uint256",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "loanAmount",
+              name: "toPoolFees",
               type: "uint256",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "downPayment",
+              name: "toInsurance",
               type: "uint256",
             },
-          ],
-          name: "MortgageApplied",
-          type: "event",
-        },
-        {
-          anonymous: false,
-          inputs: [
             {
-              indexed: true,
               internalType: "uint256",
-              name: "propertyId",
+              name: "toBorrower",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "propertyNFT",
+          outputs: [
             {
-              indexed: true,
-              internalType: "address",
-              name: "borrower",
+              internalType: "contract PropertyNFT",
+              name: "",
               type: "address",
             },
           ],
-          name: "MortgageCompleted",
-          type: "event",
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "uint256",
               name: "propertyId",
               type: "uint256",
             },
             {
-              indexed: true,
-              internalType: "address",
-              name: "borrower",
-              type: "address",
+              internalType: "uint256",
+              name: "reservePrice",
+              type: "uint256",
             },
           ],
-          name: "MortgageDefaulted",
-          type: "event",
+          name: "restartAuction",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "address",
-              name: "previousOwner",
+              name: "manager",
               type: "address",
             },
+          ],
+          name: "revokeManager",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
-              indexed: true,
-              internalType: "address",
-              name: "newOwner",
-              type: "address",
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
             },
           ],
-          name: "OwnershipTransferred",
-          type: "event",
+          name: "setAuctionDuration",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "uint256",
               name: "propertyId",
               type: "uint256",
             },
             {
-              indexed: true,
               internalType: "address",
               name: "borrower",
               type: "address",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "amount",
+              name: "principalOwed",
               type: "uint256",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "newOwnershipBPS",
+              name: "feesOwed",
               type: "uint256",
             },
-          ],
-          name: "PaymentReceived",
-          type: "event",
-        },
-        {
-          anonymous: false,
-          inputs: [
             {
-              indexed: true,
               internalType: "uint256",
-              name: "propertyId",
+              name: "insuranceOwed",
               type: "uint256",
             },
-            {
-              indexed: true,
-              internalType: "address",
-              name: "borrower",
-              type: "address",
-            },
-          ],
-          name: "PropertyForeclosed",
-          type: "event",
-        },
-        {
-          inputs: [],
-          name: "BASIS_POINTS",
-          outputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "startPrice",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
+          name: "startAuction",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
-          inputs: [],
-          name: "DEFAULT_PERIOD",
-          outputs: [
+          inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
             },
           ],
-          stateMutability: "view",
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
-        {
-          inputs: [],
-          name: "GRACE_PERIOD",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "",
+      ],
+      inheritedFunctions: {
+        startAuction: "contracts/IForeclosureAuction.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 21,
+    },
+    IndexOracle: {
+      address: "0xa513E6E4b8f2a923D98304ec87F64353C4D5C853",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_indexRateBPS",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          stateMutability: "nonpayable",
+          type: "constructor",
         },
         {
-          inputs: [],
-          name: "LATE_FEE_BPS",
-          outputs: [
+          inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "owner",
+              type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "OwnableInvalidOwner",
+          type: "error",
         },
         {
-          inputs: [],
-          name: "SECONDS_PER_MONTH",
-          outputs: [
+          inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "account",
+              type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "propertyId",
+              name: "rateBPS",
               type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "durationMonths",
+              name: "timestamp",
               type: "uint256",
             },
           ],
-          name: "applyForMortgage",
-          outputs: [],
-          stateMutability: "payable",
-          type: "function",
+          name: "IndexRateUpdated",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "",
+              name: "previousOwner",
               type: "address",
             },
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
             },
           ],
-          name: "borrowerMortgages",
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "MAX_INDEX_BPS",
           outputs: [
             {
               internalType: "uint256",
@@ -685,24 +724,8 @@ const deployedContracts = {
           type: "function",
         },
         {
-          inputs: [
-            {
-              internalType: "uint256",
-              name: "principal",
-              type: "uint256",
-            },
-            {
-              internalType: "uint256",
-              name: "annualRateBPS",
-              type: "uint256",
-            },
-            {
-              internalType: "uint256",
-              name: "months",
-              type: "uint256",
-            },
-          ],
-          name: "calculateMonthlyPayment",
+          inputs: [],
+          name: "getIndexRate",
           outputs: [
             {
               internalType: "uint256",
@@ -710,25 +733,25 @@ const deployedContracts = {
               type: "uint256",
             },
           ],
-          stateMutability: "pure",
+          stateMutability: "view",
           type: "function",
         },
         {
-          inputs: [
+          inputs: [],
+          name: "indexRateBPS",
+          outputs: [
             {
               internalType: "uint256",
-              name: "propertyId",
+              name: "",
               type: "uint256",
             },
           ],
-          name: "checkDefault",
-          outputs: [],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
         {
           inputs: [],
-          name: "defaultInterestRateBPS",
+          name: "lastUpdated",
           outputs: [
             {
               internalType: "uint256",
@@ -740,258 +763,349 @@ const deployedContracts = {
           type: "function",
         },
         {
-          inputs: [
-            {
-              internalType: "address",
-              name: "borrower",
-              type: "address",
-            },
-          ],
-          name: "getBorrowerMortgages",
+          inputs: [],
+          name: "owner",
           outputs: [
             {
-              internalType: "uint256[]",
+              internalType: "address",
               name: "",
-              type: "uint256[]",
+              type: "address",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
               internalType: "uint256",
-              name: "propertyId",
+              name: "rateBPS",
               type: "uint256",
             },
           ],
-          name: "getMortgage",
-          outputs: [
-            {
-              components: [
-                {
-                  internalType: "uint256",
-                  name: "propertyId",
-                  type: "uint256",
-                },
-                {
-                  internalType: "address",
-                  name: "borrower",
-                  type: "address",
-                },
-                {
-                  internalType: "uint256",
-                  name: "propertyValue",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "downPayment",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "loanAmount",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "interestRateBPS",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "durationMonths",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "monthlyPayment",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "startTimestamp",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "lastPaymentTimestamp",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "totalPaid",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "ownershipSharesBPS",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "paymentsCount",
-                  type: "uint256",
-                },
-                {
-                  internalType: "enum MortgageManager.MortgageStatus",
-                  name: "status",
-                  type: "uint8",
-                },
-              ],
-              internalType: "struct MortgageManager.Mortgage",
-              name: "",
-              type: "tuple",
-            },
-          ],
-          stateMutability: "view",
+          name: "setIndexRate",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "propertyId",
-              type: "uint256",
-            },
-          ],
-          name: "getOwnershipPercentage",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
             },
           ],
-          stateMutability: "view",
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
+      ],
+      inheritedFunctions: {
+        getIndexRate: "contracts/IIndexOracle.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 15,
+    },
+    InsuranceFund: {
+      address: "0x8A791620dd6260079BF849Dc5567aDC3F2FdC318",
+      abi: [
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "propertyId",
-              type: "uint256",
+              internalType: "address",
+              name: "_mortgagePool",
+              type: "address",
             },
           ],
-          name: "isPaymentOverdue",
-          outputs: [
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
             {
-              internalType: "bool",
-              name: "",
-              type: "bool",
+              internalType: "address",
+              name: "target",
+              type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "AddressEmptyCode",
+          type: "error",
         },
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "propertyId",
-              type: "uint256",
+              internalType: "address",
+              name: "account",
+              type: "address",
             },
           ],
-          name: "makePayment",
-          outputs: [],
-          stateMutability: "payable",
-          type: "function",
+          name: "AddressInsufficientBalance",
+          type: "error",
         },
         {
           inputs: [],
-          name: "mortgagePool",
-          outputs: [
+          name: "FailedInnerCall",
+          type: "error",
+        },
+        {
+          inputs: [
             {
-              internalType: "contract MortgagePool",
-              name: "",
+              internalType: "address",
+              name: "owner",
               type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "OwnableInvalidOwner",
+          type: "error",
         },
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "account",
+              type: "address",
             },
           ],
-          name: "mortgages",
-          outputs: [
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "ReentrancyGuardReentrantCall",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "SafeERC20FailedOperation",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "propertyId",
+              name: "claimId",
               type: "uint256",
             },
             {
+              indexed: true,
               internalType: "address",
-              name: "borrower",
+              name: "manager",
               type: "address",
             },
             {
+              indexed: true,
               internalType: "uint256",
-              name: "propertyValue",
+              name: "loanId",
               type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "downPayment",
+              name: "loss",
               type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "loanAmount",
+              name: "covered",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "paid",
               type: "uint256",
             },
+          ],
+          name: "ClaimFiled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "interestRateBPS",
+              name: "coverageBPS",
               type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "durationMonths",
+              name: "targetCoverageRatioBPS",
+              type: "uint256",
+            },
+          ],
+          name: "CoverageTermsUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "manager",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+          ],
+          name: "CoverageUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "manager",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
               type: "uint256",
             },
+          ],
+          name: "PremiumPaid",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "monthlyPayment",
+              name: "rateBPS",
               type: "uint256",
             },
+          ],
+          name: "PremiumRateUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "startTimestamp",
+              name: "loanId",
               type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "lastPaymentTimestamp",
+              name: "amount",
               type: "uint256",
             },
+          ],
+          name: "RecoveryReceived",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "BASIS_POINTS",
+          outputs: [
             {
               internalType: "uint256",
-              name: "totalPaid",
+              name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_PREMIUM_RATE_BPS",
+          outputs: [
             {
               internalType: "uint256",
-              name: "ownershipSharesBPS",
+              name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MONTHS_PER_YEAR",
+          outputs: [
             {
               internalType: "uint256",
-              name: "paymentsCount",
+              name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "asset",
+          outputs: [
             {
-              internalType: "enum MortgageManager.MortgageStatus",
-              name: "status",
-              type: "uint8",
+              internalType: "contract IERC20",
+              name: "",
+              type: "address",
             },
           ],
           stateMutability: "view",
@@ -1001,34 +1115,8411 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "address",
-              name: "",
+              name: "manager",
               type: "address",
             },
+          ],
+          name: "authorizeManager",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "address",
               name: "",
               type: "address",
             },
+          ],
+          name: "authorizedManagers",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "claimCount",
+          outputs: [
             {
               internalType: "uint256",
               name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "coverageBPS",
+          outputs: [
             {
-              internalType: "bytes",
+              internalType: "uint256",
               name: "",
-              type: "bytes",
+              type: "uint256",
             },
           ],
-          name: "onERC721Received",
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "coverageRatioBPS",
           outputs: [
             {
-              internalType: "bytes4",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "loss",
+              type: "uint256",
+            },
+          ],
+          name: "fileClaim",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "claimId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "payout",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "claimId",
+              type: "uint256",
+            },
+          ],
+          name: "getClaim",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "address",
+                  name: "manager",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "loanId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "loss",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "covered",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "paid",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "filedTimestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct InsuranceFund.Claim",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "insuredPrincipal",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "insuredPrincipalOf",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "isSolvent",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "maxExposure",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "mortgagePool",
+          outputs: [
+            {
+              internalType: "contract MortgagePool",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "payPremium",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+          ],
+          name: "premiumFor",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "premium",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "premiumRateBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "receiveRecovery",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "reserves",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "manager",
+              type: "address",
+            },
+          ],
+          name: "revokeManager",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_coverageBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_targetCoverageRatioBPS",
+              type: "uint256",
+            },
+          ],
+          name: "setCoverageTerms",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "rateBPS",
+              type: "uint256",
+            },
+          ],
+          name: "setPremiumRate",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "targetCoverageRatioBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalClaimsPaid",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalPremiums",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalRecovered",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+          ],
+          name: "updateCoverage",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        fileClaim: "contracts/IInsuranceFund.sol",
+        payPremium: "contracts/IInsuranceFund.sol",
+        premiumFor: "contracts/IInsuranceFund.sol",
+        receiveRecovery: "contracts/IInsuranceFund.sol",
+        updateCoverage: "contracts/IInsuranceFund.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 19,
+    },
+    LoanProductRegistry: {
+      address: "0x2279B7A0a67DB372996a5FaB50D91eAA73d2eBe6",
+      abi: [
+        {
+          inputs: [],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "active",
+              type: "bool",
+            },
+          ],
+          name: "ProductUpdated",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "BASIS_POINTS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_LATE_FEE_BPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+          ],
+          name: "getProduct",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "minDownPaymentBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256[]",
+                  name: "allowedTerms",
+                  type: "uint256[]",
+                },
+                {
+                  internalType: "address",
+                  name: "rateModel",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "lateFeeBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "gracePeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "defaultPeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum LoanProductRegistry.ScheduleType",
+                  name: "scheduleType",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interestOnlyMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "balloonAmortizationMonths",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "uint256",
+                      name: "initialFixedMonths",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "resetIntervalMonths",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "marginBPS",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "perResetCapBPS",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "lifetimeCapBPS",
+                      type: "uint256",
+                    },
+                  ],
+                  internalType: "struct LoanProductRegistry.ArmConfig",
+                  name: "arm",
+                  type: "tuple",
+                },
+                {
+                  internalType: "bool",
+                  name: "active",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct LoanProductRegistry.LoanProduct",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getProducts",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "minDownPaymentBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256[]",
+                  name: "allowedTerms",
+                  type: "uint256[]",
+                },
+                {
+                  internalType: "address",
+                  name: "rateModel",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "lateFeeBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "gracePeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "defaultPeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum LoanProductRegistry.ScheduleType",
+                  name: "scheduleType",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interestOnlyMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "balloonAmortizationMonths",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "uint256",
+                      name: "initialFixedMonths",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "resetIntervalMonths",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "marginBPS",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "perResetCapBPS",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "lifetimeCapBPS",
+                      type: "uint256",
+                    },
+                  ],
+                  internalType: "struct LoanProductRegistry.ArmConfig",
+                  name: "arm",
+                  type: "tuple",
+                },
+                {
+                  internalType: "bool",
+                  name: "active",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct LoanProductRegistry.LoanProduct[]",
+              name: "result",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "durationMonths",
+              type: "uint256",
+            },
+          ],
+          name: "isTermAllowed",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "productCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "minDownPaymentBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256[]",
+                  name: "allowedTerms",
+                  type: "uint256[]",
+                },
+                {
+                  internalType: "address",
+                  name: "rateModel",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "lateFeeBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "gracePeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "defaultPeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum LoanProductRegistry.ScheduleType",
+                  name: "scheduleType",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interestOnlyMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "balloonAmortizationMonths",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "uint256",
+                      name: "initialFixedMonths",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "resetIntervalMonths",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "marginBPS",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "perResetCapBPS",
+                      type: "uint256",
+                    },
+                    {
+                      internalType: "uint256",
+                      name: "lifetimeCapBPS",
+                      type: "uint256",
+                    },
+                  ],
+                  internalType: "struct LoanProductRegistry.ArmConfig",
+                  name: "arm",
+                  type: "tuple",
+                },
+                {
+                  internalType: "bool",
+                  name: "active",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct LoanProductRegistry.LoanProduct",
+              name: "product",
+              type: "tuple",
+            },
+          ],
+          name: "setProduct",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "active",
+              type: "bool",
+            },
+          ],
+          name: "setProductActive",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 17,
+    },
+    MockUSDC: {
+      address: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+      abi: [
+        {
+          inputs: [],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [],
+          name: "ECDSAInvalidSignature",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "length",
+              type: "uint256",
+            },
+          ],
+          name: "ECDSAInvalidSignatureLength",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "s",
+              type: "bytes32",
+            },
+          ],
+          name: "ECDSAInvalidSignatureS",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "allowance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "needed",
+              type: "uint256",
+            },
+          ],
+          name: "ERC20InsufficientAllowance",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "needed",
+              type: "uint256",
+            },
+          ],
+          name: "ERC20InsufficientBalance",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "approver",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidApprover",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidReceiver",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidSender",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidSpender",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+          ],
+          name: "ERC2612ExpiredSignature",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "signer",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "ERC2612InvalidSigner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "currentNonce",
+              type: "uint256",
+            },
+          ],
+          name: "InvalidAccountNonce",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidShortString",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "str",
+              type: "string",
+            },
+          ],
+          name: "StringTooLong",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "Approval",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [],
+          name: "EIP712DomainChanged",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "Transfer",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "DOMAIN_SEPARATOR",
+          outputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+          ],
+          name: "allowance",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "approve",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "balanceOf",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "burn",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "decimals",
+          outputs: [
+            {
+              internalType: "uint8",
+              name: "",
+              type: "uint8",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "eip712Domain",
+          outputs: [
+            {
+              internalType: "bytes1",
+              name: "fields",
+              type: "bytes1",
+            },
+            {
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "version",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "chainId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "verifyingContract",
+              type: "address",
+            },
+            {
+              internalType: "bytes32",
+              name: "salt",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256[]",
+              name: "extensions",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "faucet",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "mint",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "name",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "nonces",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+            {
+              internalType: "uint8",
+              name: "v",
+              type: "uint8",
+            },
+            {
+              internalType: "bytes32",
+              name: "r",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "s",
+              type: "bytes32",
+            },
+          ],
+          name: "permit",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "symbol",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalSupply",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "transfer",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "transferFrom",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        allowance:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        approve:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        balanceOf:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        decimals:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        name: "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        symbol:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        totalSupply:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        transfer:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        transferFrom:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        DOMAIN_SEPARATOR:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        eip712Domain:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        nonces:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+        permit:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol",
+      },
+      deployedOnBlock: 3,
+    },
+    MortgageManager: {
+      address: "0x5FC8d32690cc91D4c39d9d3abcBD16989F875707",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_propertyNFT",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "_mortgagePool",
+              type: "address",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "target",
+              type: "address",
+            },
+          ],
+          name: "AddressEmptyCode",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "AddressInsufficientBalance",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "FailedInnerCall",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "ReentrancyGuardReentrantCall",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "SafeERC20FailedOperation",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "ApplicationExpired",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "annualDisbursements",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newMonthlyEscrow",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shortage",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "surplusRefunded",
+              type: "uint256",
+            },
+          ],
+          name: "EscrowAnalyzed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+          ],
+          name: "EscrowDeposited",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "payee",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "memo",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+          ],
+          name: "EscrowDisbursed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "accruedInterest",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "capitalized",
+              type: "bool",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "principalOutstanding",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newMonthlyPayment",
+              type: "uint256",
+            },
+          ],
+          name: "ForbearanceEnded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "servicer",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "months",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "capitalizeInterest",
+              type: "bool",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "endTimestamp",
+              type: "uint256",
+            },
+          ],
+          name: "ForbearanceGranted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "foreclosureAuction",
+              type: "address",
+            },
+          ],
+          name: "ForeclosureAuctionUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "indexOracle",
+              type: "address",
+            },
+          ],
+          name: "IndexOracleUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "insuranceFund",
+              type: "address",
+            },
+          ],
+          name: "InsuranceFundUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "servicer",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "oldRateBPS",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newRateBPS",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newDurationMonths",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newMonthlyPayment",
+              type: "uint256",
+            },
+          ],
+          name: "LoanModified",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "enum LoanProductRegistry.ScheduleType",
+              name: "scheduleType",
+              type: "uint8",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "maturityTimestamp",
+              type: "uint256",
+            },
+          ],
+          name: "MortgageActivated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "enum LoanProductRegistry.ScheduleType",
+              name: "scheduleType",
+              type: "uint8",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "loanAmount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "downPayment",
+              type: "uint256",
+            },
+          ],
+          name: "MortgageApplied",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "underwriter",
+              type: "address",
+            },
+          ],
+          name: "MortgageApproved",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "MortgageCompleted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "MortgageDefaulted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "underwriter",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "reason",
+              type: "string",
+            },
+          ],
+          name: "MortgageRejected",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "principalPaid",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "interestPaid",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "feesPaid",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "principalOutstanding",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newOwnershipBPS",
+              type: "uint256",
+            },
+          ],
+          name: "PaymentReceived",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "enum MortgageManager.PrepaymentMode",
+              name: "mode",
+              type: "uint8",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newMonthlyPayment",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newDurationMonths",
+              type: "uint256",
+            },
+          ],
+          name: "PrincipalPrepaid",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "productRegistry",
+              type: "address",
+            },
+          ],
+          name: "ProductRegistryUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "PropertyForeclosed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "propertyShares",
+              type: "address",
+            },
+          ],
+          name: "PropertySharesUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "rateModel",
+              type: "address",
+            },
+          ],
+          name: "RateModelUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "oldRateBPS",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newRateBPS",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newMonthlyPayment",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "nextResetTimestamp",
+              type: "uint256",
+            },
+          ],
+          name: "RateReset",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "servicer",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "authorized",
+              type: "bool",
+            },
+          ],
+          name: "ServicerUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "underwriter",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "authorized",
+              type: "bool",
+            },
+          ],
+          name: "UnderwriterUpdated",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "APPLICATION_EXPIRY",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "BASIS_POINTS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "ESCROW_ANALYSIS_INTERVAL",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "SECONDS_PER_MONTH",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "durationMonths",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "downPayment",
+              type: "uint256",
+            },
+          ],
+          name: "applyForMortgage",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "approveApplication",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "asset",
+          outputs: [
+            {
+              internalType: "contract IERC20",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "servicer",
+              type: "address",
+            },
+          ],
+          name: "authorizeServicer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "underwriter",
+              type: "address",
+            },
+          ],
+          name: "authorizeUnderwriter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "months",
+              type: "uint256",
+            },
+          ],
+          name: "calculateMonthlyPayment",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "checkDefault",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "defaultInterestRateBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "payee",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "memo",
+              type: "string",
+            },
+          ],
+          name: "disburseEscrow",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "endForbearance",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "expireApplication",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "foreclosureAuction",
+          outputs: [
+            {
+              internalType: "contract IForeclosureAuction",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getAmortizationSchedule",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "paymentNumber",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "payment",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "principal",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interest",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "remainingBalance",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageMath.AmortizationEntry[]",
+              name: "schedule",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getArmTerms",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "initialFixedMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "resetIntervalMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "marginBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "perResetCapBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "lifetimeCapBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "initialRateBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "nextResetTimestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageManager.ArmTerms",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "getBorrowerMortgages",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getEscrowAccount",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "balance",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "monthlyEscrow",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "annualTaxes",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "annualInsurance",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "lastAnalysisTimestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageManager.EscrowAccount",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getEscrowDisbursements",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "address",
+                  name: "payee",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "amount",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "memo",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "timestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageManager.EscrowDisbursement[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getLoanToValue",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getMortgage",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "propertyId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "borrower",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "productId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "propertyValue",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "downPayment",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "loanAmount",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interestRateBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "durationMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum LoanProductRegistry.ScheduleType",
+                  name: "scheduleType",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interestOnlyMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "amortizationMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "monthlyPayment",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "appliedTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "startTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "maturityTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "lastPaymentTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalPaid",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "principalOutstanding",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interestPaid",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "feesPaid",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "ownershipSharesBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "paymentsCount",
+                  type: "uint256",
+                },
+                {
+                  internalType: "enum MortgageManager.MortgageStatus",
+                  name: "status",
+                  type: "uint8",
+                },
+              ],
+              internalType: "struct MortgageManager.Mortgage",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getNextResetPreview",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "nextResetTimestamp",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "minRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "maxRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "minPayment",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "maxPayment",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getOwnershipPercentage",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getPaymentDue",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "scheduledPayment",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "escrowPayment",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "lateFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "insurancePremium",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getPayoffQuote",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "payoffAmount",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "accruedInterest",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getPendingApplications",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getServicingTerms",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "lateFeeBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "gracePeriod",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "defaultPeriod",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageManager.ServicingTerms",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "getWorkout",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "forbearanceStart",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "forbearanceEnd",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "capitalizeInterest",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint256",
+                  name: "deferredInterest",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "originalRateBPS",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "originalDurationMonths",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "originalMonthlyPayment",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "modifiedTimestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageManager.Workout",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "months",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "capitalizeInterest",
+              type: "bool",
+            },
+          ],
+          name: "grantForbearance",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "indexOracle",
+          outputs: [
+            {
+              internalType: "contract IIndexOracle",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "insuranceFund",
+          outputs: [
+            {
+              internalType: "contract IInsuranceFund",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "isAdjustable",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "isApplicationExpired",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "isPastMaturity",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "isPaymentOverdue",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "makePayment",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "newRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "remainingMonths",
+              type: "uint256",
+            },
+          ],
+          name: "modifyLoan",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "mortgagePool",
+          outputs: [
+            {
+              internalType: "contract MortgagePool",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes",
+              name: "",
+              type: "bytes",
+            },
+          ],
+          name: "onERC721Received",
+          outputs: [
+            {
+              internalType: "bytes4",
+              name: "",
+              type: "bytes4",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "payoff",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+            {
+              internalType: "uint8",
+              name: "v",
+              type: "uint8",
+            },
+            {
+              internalType: "bytes32",
+              name: "r",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "s",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes",
+              name: "data",
+              type: "bytes",
+            },
+          ],
+          name: "permitAndCall",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              internalType: "enum MortgageManager.PrepaymentMode",
+              name: "mode",
+              type: "uint8",
+            },
+          ],
+          name: "prepayPrincipal",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "productRegistry",
+          outputs: [
+            {
+              internalType: "contract LoanProductRegistry",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "propertyNFT",
+          outputs: [
+            {
+              internalType: "contract PropertyNFT",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "propertyShares",
+          outputs: [
+            {
+              internalType: "contract IPropertyShares",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "productId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "downPayment",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "durationMonths",
+              type: "uint256",
+            },
+          ],
+          name: "quoteInterestRate",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "rateModel",
+          outputs: [
+            {
+              internalType: "contract IRateModel",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "reason",
+              type: "string",
+            },
+          ],
+          name: "rejectApplication",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "resetRate",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "servicer",
+              type: "address",
+            },
+          ],
+          name: "revokeServicer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "underwriter",
+              type: "address",
+            },
+          ],
+          name: "revokeUnderwriter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualTaxes",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualInsurance",
+              type: "uint256",
+            },
+          ],
+          name: "runEscrowAnalysis",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "servicers",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "rateBPS",
+              type: "uint256",
+            },
+          ],
+          name: "setDefaultInterestRate",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_foreclosureAuction",
+              type: "address",
+            },
+          ],
+          name: "setForeclosureAuction",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_indexOracle",
+              type: "address",
+            },
+          ],
+          name: "setIndexOracle",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_insuranceFund",
+              type: "address",
+            },
+          ],
+          name: "setInsuranceFund",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_productRegistry",
+              type: "address",
+            },
+          ],
+          name: "setProductRegistry",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_propertyShares",
+              type: "address",
+            },
+          ],
+          name: "setPropertyShares",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_rateModel",
+              type: "address",
+            },
+          ],
+          name: "setRateModel",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalActiveMortgages",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalEscrowBalances",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalEscrowed",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "underwriters",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        getOwnershipPercentage: "contracts/ILienholder.sol",
+        getPayoffQuote: "contracts/ILienholder.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 11,
+    },
+    MortgageMath: {
+      address: "0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "months",
+              type: "uint256",
+            },
+          ],
+          name: "calculateMonthlyPayment",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "payment",
+              type: "uint256",
+            },
+          ],
+          name: "calculatePaymentBreakdown",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "interest",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "durationMonths",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "interestOnlyMonths",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "amortizationMonths",
+              type: "uint256",
+            },
+          ],
+          name: "calculateSchedule",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "paymentNumber",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "payment",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "principal",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "interest",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "remainingBalance",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgageMath.AmortizationEntry[]",
+              name: "schedule",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "annualRateBPS",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "payment",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "maxPayments",
+              type: "uint256",
+            },
+          ],
+          name: "countRemainingPayments",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "count",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {},
+      deployedOnBlock: 9,
+    },
+    MortgagePool: {
+      address: "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "contract IERC20",
+              name: "_asset",
+              type: "address",
+            },
+            {
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "symbol",
+              type: "string",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "target",
+              type: "address",
+            },
+          ],
+          name: "AddressEmptyCode",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "AddressInsufficientBalance",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "allowance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "needed",
+              type: "uint256",
+            },
+          ],
+          name: "ERC20InsufficientAllowance",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "needed",
+              type: "uint256",
+            },
+          ],
+          name: "ERC20InsufficientBalance",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "approver",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidApprover",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidReceiver",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidSender",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+          ],
+          name: "ERC20InvalidSpender",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "max",
+              type: "uint256",
+            },
+          ],
+          name: "ERC4626ExceededMaxDeposit",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "max",
+              type: "uint256",
+            },
+          ],
+          name: "ERC4626ExceededMaxMint",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "max",
+              type: "uint256",
+            },
+          ],
+          name: "ERC4626ExceededMaxRedeem",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "max",
+              type: "uint256",
+            },
+          ],
+          name: "ERC4626ExceededMaxWithdraw",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "FailedInnerCall",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "MathOverflowedMulDiv",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "ReentrancyGuardReentrantCall",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "SafeERC20FailedOperation",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "Approval",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "index",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "sharePrice",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "seniorSharePrice",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "totalInterestEarned",
+              type: "uint256",
+            },
+          ],
+          name: "CheckpointRecorded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "Deposit",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "recovery",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "fees",
+              type: "uint256",
+            },
+          ],
+          name: "ForeclosureProceedsReceived",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "insurer",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "InsurancePayoutReceived",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "InterestCapitalized",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "toSenior",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "toJunior",
+              type: "uint256",
+            },
+          ],
+          name: "InterestDistributed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "manager",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "loss",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "juniorLoss",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "seniorLoss",
+              type: "uint256",
+            },
+          ],
+          name: "LossRealized",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "recipient",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "MortgageFunded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "interest",
+              type: "uint256",
+            },
+          ],
+          name: "MortgageRepayment",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "recovery",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "toSenior",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "toJunior",
+              type: "uint256",
+            },
+          ],
+          name: "RecoveryRecorded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "caller",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "SeniorDeposit",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "targetAPYBPS",
+              type: "uint256",
+            },
+          ],
+          name: "SeniorTargetAPYUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "SeniorWithdraw",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "Transfer",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "Withdraw",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          name: "WithdrawalClaimed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "enum MortgagePool.Tranche",
+              name: "tranche",
+              type: "uint8",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "WithdrawalRequested",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          name: "WithdrawalSettled",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "BASIS_POINTS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "CHECKPOINT_INTERVAL",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_SENIOR_TARGET_APY",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_SETTLEMENTS_PER_CALL",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "SECONDS_PER_YEAR",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "activeMortgages",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+          ],
+          name: "allowance",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "spender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "approve",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "asset",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "authorizeBorrower",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "insurer",
+              type: "address",
+            },
+          ],
+          name: "authorizeInsurer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "source",
+              type: "address",
+            },
+          ],
+          name: "authorizeRecoverySource",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "authorizedBorrowers",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "availableLiquidity",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "balanceOf",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "capitalizeInterest",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "checkpoint",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "checkpointCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+          ],
+          name: "claimWithdrawal",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "claimableAssets",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "convertToAssets",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "convertToSeniorAssets",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          name: "convertToSeniorShares",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          name: "convertToShares",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "cumulativeLiquiditySeconds",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "cumulativeLossRatioBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "decimals",
+          outputs: [
+            {
+              internalType: "uint8",
+              name: "",
+              type: "uint8",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "deposit",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "depositSenior",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+            {
+              internalType: "uint8",
+              name: "v",
+              type: "uint8",
+            },
+            {
+              internalType: "bytes32",
+              name: "r",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "s",
+              type: "bytes32",
+            },
+          ],
+          name: "depositWithPermit",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "estimatedAPY",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+          ],
+          name: "estimatedWaitTime",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "firstFundingTimestamp",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "recipient",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "fundMortgage",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "fromIndex",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "count",
+              type: "uint256",
+            },
+          ],
+          name: "getCheckpoints",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "timestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "sharePrice",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "seniorSharePrice",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalInterestEarned",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "cumulativeLiquiditySeconds",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct MortgagePool.Checkpoint[]",
+              name: "page",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+          ],
+          name: "getQueuePosition",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "position",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "assetsAhead",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+          ],
+          name: "getWithdrawalRequest",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "address",
+                  name: "owner",
+                  type: "address",
+                },
+                {
+                  internalType: "enum MortgagePool.Tranche",
+                  name: "tranche",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "shares",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "assets",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "requestedTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "settledTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "claimed",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct MortgagePool.WithdrawalRequest",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "getWithdrawalRequests",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "insurers",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "juniorRatioBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "lastLiquidityUpdate",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "lastSeniorAccrual",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "maxDeposit",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "maxMint",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "maxRedeem",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "maxWithdraw",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "mint",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "name",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "nextRequestToSettle",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+            {
+              internalType: "bytes",
+              name: "",
+              type: "bytes",
+            },
+          ],
+          name: "onERC1155BatchReceived",
+          outputs: [
+            {
+              internalType: "bytes4",
+              name: "",
+              type: "bytes4",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes",
+              name: "",
+              type: "bytes",
+            },
+          ],
+          name: "onERC1155Received",
+          outputs: [
+            {
+              internalType: "bytes4",
+              name: "",
+              type: "bytes4",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "pendingSeniorInterest",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          name: "previewDeposit",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "previewMint",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "previewRedeem",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          name: "previewWithdraw",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "processWithdrawalQueue",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "queuedSeniorShares",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "queuedShares",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "rateWeightedPrincipal",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "ratedPrincipal",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "loss",
+              type: "uint256",
+            },
+          ],
+          name: "realizeLoss",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "window",
+              type: "uint256",
+            },
+          ],
+          name: "realizedAPY",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "recovery",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "fees",
+              type: "uint256",
+            },
+          ],
+          name: "receiveForeclosureProceeds",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "receiveInsurancePayout",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "interest",
+              type: "uint256",
+            },
+          ],
+          name: "receiveMortgagePayment",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "recoverySources",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "redeem",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "redeemSenior",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "requestSeniorWithdrawal",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "shares",
+              type: "uint256",
+            },
+          ],
+          name: "requestWithdrawal",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "requestId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+          ],
+          name: "revokeBorrower",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "insurer",
+              type: "address",
+            },
+          ],
+          name: "revokeInsurer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "source",
+              type: "address",
+            },
+          ],
+          name: "revokeRecoverySource",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "seniorAssets",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "seniorInterestOwed",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "seniorShares",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "seniorTargetAPYBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "targetAPYBPS",
+              type: "uint256",
+            },
+          ],
+          name: "setSeniorTargetAPY",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes4",
+              name: "interfaceId",
+              type: "bytes4",
+            },
+          ],
+          name: "supportsInterface",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "symbol",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalAssets",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalInterestEarned",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalLiquidity",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalLossesAbsorbed",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalPrincipalFunded",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalPrincipalRepaid",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalRecoveries",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalSeniorShares",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalSupply",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "trailingAPYs",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "apy7d",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "apy30d",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "apy90d",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "transfer",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "transferFrom",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "unrecoveredSeniorLosses",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "loanId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "rateBPS",
+              type: "uint256",
+            },
+          ],
+          name: "updateLoanRate",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "weightedAverageRateBPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "assets",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "withdraw",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "withdrawalRequestCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        allowance: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        approve: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        asset: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        balanceOf: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        convertToAssets:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        convertToShares:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        decimals: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        deposit: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        maxDeposit:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        maxMint: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        maxRedeem: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        maxWithdraw:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        mint: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        name: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        previewDeposit:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        previewMint:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        previewRedeem:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        previewWithdraw:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        redeem: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        symbol: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        totalAssets:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        totalSupply:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        transfer: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        transferFrom:
+          "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        withdraw: "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol",
+        onERC1155BatchReceived:
+          "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol",
+        onERC1155Received:
+          "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol",
+        supportsInterface:
+          "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 7,
+    },
+    PropertyNFT: {
+      address: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
+      abi: [
+        {
+          inputs: [],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "ERC721IncorrectOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "ERC721InsufficientApproval",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "approver",
+              type: "address",
+            },
+          ],
+          name: "ERC721InvalidApprover",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+          ],
+          name: "ERC721InvalidOperator",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "ERC721InvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "ERC721InvalidReceiver",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "ERC721InvalidSender",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "ERC721NonexistentToken",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "approved",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "Approval",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
+            },
+          ],
+          name: "ApprovalForAll",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "lender",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "lienIndex",
+              type: "uint256",
+            },
+          ],
+          name: "LienRecorded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "lender",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "lienIndex",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "bytes32",
+              name: "releaseDocumentHash",
+              type: "bytes32",
+            },
+          ],
+          name: "LienReleased",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "appraiser",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "previousValue",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newValue",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "bytes32",
+              name: "reportHash",
+              type: "bytes32",
+            },
+          ],
+          name: "PropertyAppraised",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "timestamp",
+              type: "uint256",
+            },
+          ],
+          name: "PropertyListed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "propertyAddress",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "valueUSD",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "totalShares",
+              type: "uint256",
+            },
+          ],
+          name: "PropertyMinted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "lienholder",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+          ],
+          name: "PropertySeized",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "propertyShares",
+              type: "address",
+            },
+          ],
+          name: "PropertySharesUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "PropertyUnlisted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousAdmin",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newAdmin",
+              type: "address",
+            },
+          ],
+          name: "RoleAdminTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "seller",
+              type: "address",
+            },
+          ],
+          name: "SellerRecorded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "Transfer",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "VALUE_DECIMALS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "appraisers",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "approve",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "appraiser",
+              type: "address",
+            },
+          ],
+          name: "authorizeAppraiser",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "minter",
+              type: "address",
+            },
+          ],
+          name: "authorizeMinter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "balanceOf",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "currentValue",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "getAppraisals",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "value",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bytes32",
+                  name: "reportHash",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "address",
+                  name: "appraiser",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "timestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct PropertyNFT.Appraisal[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "getApproved",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "getLiens",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "address",
+                  name: "lender",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "principal",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "recordedTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "releasedTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bytes32",
+                  name: "releaseDocumentHash",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "bool",
+                  name: "foreclosed",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct PropertyNFT.Lien[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "getProperty",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "propertyAddress",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "valueUSD",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalShares",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "imageURI",
+                  type: "string",
+                },
+                {
+                  internalType: "string",
+                  name: "description",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "bedrooms",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "bathrooms",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isListed",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint256",
+                  name: "listedTimestamp",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct PropertyNFT.Property",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "hasActiveLien",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+          ],
+          name: "isApprovedForAll",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "lienholders",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "listProperty",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "string",
+              name: "propertyAddress",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "valueUSD",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "totalShares",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "imageURI",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "description",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "bedrooms",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "bathrooms",
+              type: "uint256",
+            },
+          ],
+          name: "mintProperty",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "minters",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "name",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "ownerOf",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "lienholder",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "principal",
+              type: "uint256",
+            },
+          ],
+          name: "placeLien",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "properties",
+          outputs: [
+            {
+              internalType: "string",
+              name: "propertyAddress",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "valueUSD",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "totalShares",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "imageURI",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "description",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "bedrooms",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "bathrooms",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "isListed",
+              type: "bool",
+            },
+            {
+              internalType: "uint256",
+              name: "listedTimestamp",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "propertyShares",
+          outputs: [
+            {
+              internalType: "contract IPropertyShares",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "seller",
+              type: "address",
+            },
+          ],
+          name: "recordSeller",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes32",
+              name: "releaseDocumentHash",
+              type: "bytes32",
+            },
+          ],
+          name: "releaseLien",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "appraiser",
+              type: "address",
+            },
+          ],
+          name: "revokeAppraiser",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "minter",
+              type: "address",
+            },
+          ],
+          name: "revokeMinter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "roleAdmin",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "safeTransferFrom",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes",
+              name: "data",
+              type: "bytes",
+            },
+          ],
+          name: "safeTransferFrom",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+          ],
+          name: "seize",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "sellers",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
+            },
+          ],
+          name: "setApprovalForAll",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_propertyShares",
+              type: "address",
+            },
+          ],
+          name: "setPropertyShares",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes32",
+              name: "reportHash",
+              type: "bytes32",
+            },
+          ],
+          name: "submitAppraisal",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes4",
+              name: "interfaceId",
+              type: "bytes4",
+            },
+          ],
+          name: "supportsInterface",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "symbol",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "tokenURI",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalProperties",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "transferFrom",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newAdmin",
+              type: "address",
+            },
+          ],
+          name: "transferRoleAdmin",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "unlistProperty",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        approve: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        balanceOf: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        getApproved: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        isApprovedForAll: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        name: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        ownerOf: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        safeTransferFrom: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        setApprovalForAll: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        supportsInterface: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        symbol: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        tokenURI: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        transferFrom: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 5,
+    },
+    PropertyOnboarding: {
+      address: "0xA51c1fc2f0D1a1b8494Ed1FE312d7C3a78Ed91C0",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_propertyNFT",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "_custodian",
+              type: "address",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "submissionId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "seller",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "propertyAddress",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "valueUSD",
+              type: "uint256",
+            },
+            {
+              components: [
+                {
+                  internalType: "bytes32",
+                  name: "titleDeedHash",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "bytes32",
+                  name: "inspectionHash",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "bytes32",
+                  name: "surveyHash",
+                  type: "bytes32",
+                },
+              ],
+              indexed: false,
+              internalType: "struct PropertyOnboarding.Documents",
+              name: "documents",
+              type: "tuple",
+            },
+          ],
+          name: "PropertySubmitted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "submissionId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "reviewer",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "SubmissionApproved",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "submissionId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "reviewer",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "reason",
+              type: "string",
+            },
+          ],
+          name: "SubmissionRejected",
+          type: "event",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "submissionId",
+              type: "uint256",
+            },
+          ],
+          name: "approveSubmission",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "reviewer",
+              type: "address",
+            },
+          ],
+          name: "authorizeReviewer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "custodian",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getPendingSubmissions",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "seller",
+              type: "address",
+            },
+          ],
+          name: "getSellerSubmissions",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "submissionId",
+              type: "uint256",
+            },
+          ],
+          name: "getSubmission",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "address",
+                  name: "seller",
+                  type: "address",
+                },
+                {
+                  internalType: "string",
+                  name: "propertyAddress",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "valueUSD",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "totalShares",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "imageURI",
+                  type: "string",
+                },
+                {
+                  internalType: "string",
+                  name: "description",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "bedrooms",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "bathrooms",
+                  type: "uint256",
+                },
+                {
+                  components: [
+                    {
+                      internalType: "bytes32",
+                      name: "titleDeedHash",
+                      type: "bytes32",
+                    },
+                    {
+                      internalType: "bytes32",
+                      name: "inspectionHash",
+                      type: "bytes32",
+                    },
+                    {
+                      internalType: "bytes32",
+                      name: "surveyHash",
+                      type: "bytes32",
+                    },
+                  ],
+                  internalType: "struct PropertyOnboarding.Documents",
+                  name: "documents",
+                  type: "tuple",
+                },
+                {
+                  internalType: "enum PropertyOnboarding.SubmissionStatus",
+                  name: "status",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint256",
+                  name: "submittedTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "reviewer",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "reviewedTimestamp",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "propertyId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "string",
+                  name: "rejectionReason",
+                  type: "string",
+                },
+              ],
+              internalType: "struct PropertyOnboarding.Submission",
               name: "",
-              type: "bytes4",
+              type: "tuple",
             },
           ],
-          stateMutability: "pure",
+          stateMutability: "view",
           type: "function",
         },
         {
@@ -1057,506 +9548,501 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
-        {
-          inputs: [],
-          name: "renounceOwnership",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
-        },
         {
           inputs: [
             {
               internalType: "uint256",
-              name: "rateBPS",
+              name: "submissionId",
               type: "uint256",
             },
+            {
+              internalType: "string",
+              name: "reason",
+              type: "string",
+            },
           ],
-          name: "setDefaultInterestRate",
+          name: "rejectSubmission",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [],
-          name: "totalActiveMortgages",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
-            },
-          ],
-          stateMutability: "view",
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "newOwner",
+              name: "",
               type: "address",
             },
           ],
-          name: "transferOwnership",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
-        },
-      ],
-      inheritedFunctions: {
-        owner: "@openzeppelin/contracts/access/Ownable.sol",
-        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
-        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
-      },
-      deployedOnBlock: 194,
-    },
-    MortgagePool: {
-      address: "0x821f3361D454cc98b7555221A06Be563a7E2E0A6",
-      abi: [
-        {
-          inputs: [],
-          stateMutability: "nonpayable",
-          type: "constructor",
-        },
-        {
-          inputs: [
+          name: "reviewers",
+          outputs: [
             {
-              internalType: "address",
-              name: "owner",
-              type: "address",
+              internalType: "bool",
+              name: "",
+              type: "bool",
             },
           ],
-          name: "OwnableInvalidOwner",
-          type: "error",
+          stateMutability: "view",
+          type: "function",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "account",
+              name: "reviewer",
               type: "address",
             },
           ],
-          name: "OwnableUnauthorizedAccount",
-          type: "error",
+          name: "revokeReviewer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
           inputs: [],
-          name: "ReentrancyGuardReentrantCall",
-          type: "error",
-        },
-        {
-          anonymous: false,
-          inputs: [
-            {
-              indexed: true,
-              internalType: "address",
-              name: "borrower",
-              type: "address",
-            },
+          name: "submissionCount",
+          outputs: [
             {
-              indexed: false,
               internalType: "uint256",
-              name: "amount",
+              name: "",
               type: "uint256",
             },
           ],
-          name: "InsurancePayout",
-          type: "event",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
-              internalType: "address",
-              name: "provider",
-              type: "address",
+              internalType: "string",
+              name: "propertyAddress",
+              type: "string",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "amount",
+              name: "valueUSD",
               type: "uint256",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "shares",
+              name: "totalShares",
               type: "uint256",
             },
-          ],
-          name: "LiquidityDeposited",
-          type: "event",
-        },
-        {
-          anonymous: false,
-          inputs: [
             {
-              indexed: true,
-              internalType: "address",
-              name: "provider",
-              type: "address",
+              internalType: "string",
+              name: "imageURI",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "description",
+              type: "string",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "amount",
+              name: "bedrooms",
               type: "uint256",
             },
             {
-              indexed: false,
               internalType: "uint256",
-              name: "shares",
+              name: "bathrooms",
               type: "uint256",
             },
-          ],
-          name: "LiquidityWithdrawn",
-          type: "event",
-        },
-        {
-          anonymous: false,
-          inputs: [
             {
-              indexed: true,
-              internalType: "address",
-              name: "borrower",
-              type: "address",
+              components: [
+                {
+                  internalType: "bytes32",
+                  name: "titleDeedHash",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "bytes32",
+                  name: "inspectionHash",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "bytes32",
+                  name: "surveyHash",
+                  type: "bytes32",
+                },
+              ],
+              internalType: "struct PropertyOnboarding.Documents",
+              name: "documents",
+              type: "tuple",
             },
+          ],
+          name: "submitProperty",
+          outputs: [
             {
-              indexed: false,
               internalType: "uint256",
-              name: "amount",
+              name: "submissionId",
               type: "uint256",
             },
           ],
-          name: "MortgageFunded",
-          type: "event",
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: false,
-              internalType: "uint256",
-              name: "principal",
-              type: "uint256",
-            },
-            {
-              indexed: false,
-              internalType: "uint256",
-              name: "interest",
-              type: "uint256",
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
             },
           ],
-          name: "MortgageRepayment",
-          type: "event",
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 25,
+    },
+    PropertyShares: {
+      address: "0xB7f8BC63BbcaD18155201308C8f3540b07f84F5e",
+      abi: [
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "address",
-              name: "previousOwner",
+              name: "_propertyNFT",
               type: "address",
             },
             {
-              indexed: true,
               internalType: "address",
-              name: "newOwner",
+              name: "_mortgagePool",
               type: "address",
             },
           ],
-          name: "OwnershipTransferred",
-          type: "event",
+          stateMutability: "nonpayable",
+          type: "constructor",
         },
         {
-          inputs: [],
-          name: "BASIS_POINTS",
-          outputs: [
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
             {
               internalType: "uint256",
-              name: "",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "needed",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "ERC1155InsufficientBalance",
+          type: "error",
         },
         {
-          inputs: [],
-          name: "INSURANCE_RATE",
-          outputs: [
+          inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "approver",
+              type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "ERC1155InvalidApprover",
+          type: "error",
         },
         {
-          inputs: [],
-          name: "activeMortgages",
-          outputs: [
+          inputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "idsLength",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "valuesLength",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "ERC1155InvalidArrayLength",
+          type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "borrower",
+              name: "operator",
               type: "address",
             },
           ],
-          name: "authorizeBorrower",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "ERC1155InvalidOperator",
+          type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "",
+              name: "receiver",
               type: "address",
             },
           ],
-          name: "authorizedBorrowers",
-          outputs: [
-            {
-              internalType: "bool",
-              name: "",
-              type: "bool",
-            },
-          ],
-          stateMutability: "view",
-          type: "function",
+          name: "ERC1155InvalidReceiver",
+          type: "error",
         },
         {
-          inputs: [],
-          name: "availableLiquidity",
-          outputs: [
+          inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "sender",
+              type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "ERC1155InvalidSender",
+          type: "error",
         },
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "amount",
-              type: "uint256",
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
             },
           ],
-          name: "coverDefault",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "depositLiquidity",
-          outputs: [],
-          stateMutability: "payable",
-          type: "function",
+          name: "ERC1155MissingApprovalForAll",
+          type: "error",
         },
         {
-          inputs: [],
-          name: "estimatedAPY",
-          outputs: [
+          inputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              internalType: "address",
+              name: "owner",
+              type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "OwnableInvalidOwner",
+          type: "error",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "borrower",
+              name: "account",
               type: "address",
             },
-            {
-              internalType: "uint256",
-              name: "amount",
-              type: "uint256",
-            },
           ],
-          name: "fundMortgage",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "provider",
+              name: "account",
               type: "address",
             },
-          ],
-          name: "getShareValue",
-          outputs: [
             {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "ApprovalForAll",
+          type: "event",
         },
         {
-          inputs: [],
-          name: "insuranceReserve",
-          outputs: [
+          anonymous: false,
+          inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "",
+              name: "propertyId",
               type: "uint256",
             },
-          ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "",
+              name: "borrower",
               type: "address",
             },
-          ],
-          name: "lpDepositTimestamp",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "equityShares",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "financedShares",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "EquityUpdated",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "",
+              name: "previousOwner",
               type: "address",
             },
-          ],
-          name: "lpShares",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
-            },
-          ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "owner",
-          outputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "",
+              name: "newOwner",
               type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "OwnershipTransferred",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "uint256",
-              name: "principal",
+              name: "propertyId",
               type: "uint256",
             },
             {
+              indexed: false,
               internalType: "uint256",
-              name: "interest",
+              name: "shares",
               type: "uint256",
             },
           ],
-          name: "receiveMortgagePayment",
-          outputs: [],
-          stateMutability: "payable",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "renounceOwnership",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "SharesRetired",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "borrower",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
               type: "address",
             },
+            {
+              indexed: false,
+              internalType: "uint256[]",
+              name: "ids",
+              type: "uint256[]",
+            },
+            {
+              indexed: false,
+              internalType: "uint256[]",
+              name: "values",
+              type: "uint256[]",
+            },
           ],
-          name: "revokeBorrower",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "TransferBatch",
+          type: "event",
         },
         {
-          inputs: [],
-          name: "totalInterestEarned",
-          outputs: [
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
             {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "id",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "value",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "TransferSingle",
+          type: "event",
         },
         {
-          inputs: [],
-          name: "totalLiquidity",
-          outputs: [
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "string",
+              name: "value",
+              type: "string",
+            },
             {
+              indexed: true,
               internalType: "uint256",
-              name: "",
+              name: "id",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "URI",
+          type: "event",
         },
         {
           inputs: [],
-          name: "totalShares",
+          name: "BASIS_POINTS",
           outputs: [
             {
               internalType: "uint256",
@@ -1571,11 +10057,11 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "address",
-              name: "newOwner",
+              name: "manager",
               type: "address",
             },
           ],
-          name: "transferOwnership",
+          name: "authorizeManager",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -1583,320 +10069,278 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "shares",
-              type: "uint256",
+              internalType: "address",
+              name: "",
+              type: "address",
             },
           ],
-          name: "withdrawLiquidity",
-          outputs: [],
-          stateMutability: "nonpayable",
+          name: "authorizedManagers",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
           type: "function",
         },
-        {
-          stateMutability: "payable",
-          type: "receive",
-        },
-      ],
-      inheritedFunctions: {
-        owner: "@openzeppelin/contracts/access/Ownable.sol",
-        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
-        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
-      },
-      deployedOnBlock: 192,
-    },
-    PropertyNFT: {
-      address: "0x02df3a3F960393F5B349E40A599FEda91a7cc1A7",
-      abi: [
-        {
-          inputs: [],
-          stateMutability: "nonpayable",
-          type: "constructor",
-        },
         {
           inputs: [
             {
               internalType: "address",
-              name: "sender",
+              name: "account",
               type: "address",
             },
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "id",
               type: "uint256",
             },
-            {
-              internalType: "address",
-              name: "owner",
-              type: "address",
-            },
           ],
-          name: "ERC721IncorrectOwner",
-          type: "error",
-        },
-        {
-          inputs: [
-            {
-              internalType: "address",
-              name: "operator",
-              type: "address",
-            },
+          name: "balanceOf",
+          outputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "",
               type: "uint256",
             },
           ],
-          name: "ERC721InsufficientApproval",
-          type: "error",
+          stateMutability: "view",
+          type: "function",
         },
         {
           inputs: [
             {
-              internalType: "address",
-              name: "approver",
-              type: "address",
+              internalType: "address[]",
+              name: "accounts",
+              type: "address[]",
             },
-          ],
-          name: "ERC721InvalidApprover",
-          type: "error",
-        },
-        {
-          inputs: [
             {
-              internalType: "address",
-              name: "operator",
-              type: "address",
+              internalType: "uint256[]",
+              name: "ids",
+              type: "uint256[]",
             },
           ],
-          name: "ERC721InvalidOperator",
-          type: "error",
-        },
-        {
-          inputs: [
+          name: "balanceOfBatch",
+          outputs: [
             {
-              internalType: "address",
-              name: "owner",
-              type: "address",
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
             },
           ],
-          name: "ERC721InvalidOwner",
-          type: "error",
+          stateMutability: "view",
+          type: "function",
         },
         {
           inputs: [
             {
-              internalType: "address",
-              name: "receiver",
-              type: "address",
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
             },
           ],
-          name: "ERC721InvalidReceiver",
-          type: "error",
-        },
-        {
-          inputs: [
+          name: "exists",
+          outputs: [
             {
-              internalType: "address",
-              name: "sender",
-              type: "address",
+              internalType: "bool",
+              name: "",
+              type: "bool",
             },
           ],
-          name: "ERC721InvalidSender",
-          type: "error",
+          stateMutability: "view",
+          type: "function",
         },
         {
           inputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "propertyId",
               type: "uint256",
             },
-          ],
-          name: "ERC721NonexistentToken",
-          type: "error",
-        },
-        {
-          inputs: [
-            {
-              internalType: "address",
-              name: "owner",
-              type: "address",
-            },
-          ],
-          name: "OwnableInvalidOwner",
-          type: "error",
-        },
-        {
-          inputs: [
             {
               internalType: "address",
               name: "account",
               type: "address",
             },
           ],
-          name: "OwnableUnauthorizedAccount",
-          type: "error",
-        },
-        {
-          anonymous: false,
-          inputs: [
-            {
-              indexed: true,
-              internalType: "address",
-              name: "owner",
-              type: "address",
-            },
-            {
-              indexed: true,
-              internalType: "address",
-              name: "approved",
-              type: "address",
-            },
+          name: "holdsAllShares",
+          outputs: [
             {
-              indexed: true,
-              internalType: "uint256",
-              name: "tokenId",
-              type: "uint256",
+              internalType: "bool",
+              name: "",
+              type: "bool",
             },
           ],
-          name: "Approval",
-          type: "event",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "address",
-              name: "owner",
+              name: "account",
               type: "address",
             },
             {
-              indexed: true,
               internalType: "address",
               name: "operator",
               type: "address",
             },
+          ],
+          name: "isApprovedForAll",
+          outputs: [
             {
-              indexed: false,
               internalType: "bool",
-              name: "approved",
+              name: "",
               type: "bool",
             },
           ],
-          name: "ApprovalForAll",
-          type: "event",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          anonymous: false,
-          inputs: [
+          inputs: [],
+          name: "mortgagePool",
+          outputs: [
             {
-              indexed: true,
               internalType: "address",
-              name: "previousOwner",
+              name: "",
               type: "address",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
             {
-              indexed: true,
               internalType: "address",
-              name: "newOwner",
+              name: "",
               type: "address",
             },
           ],
-          name: "OwnershipTransferred",
-          type: "event",
+          stateMutability: "view",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "uint256",
-              name: "tokenId",
+              name: "propertyId",
               type: "uint256",
             },
             {
-              indexed: false,
-              internalType: "uint256",
-              name: "timestamp",
-              type: "uint256",
+              internalType: "address",
+              name: "account",
+              type: "address",
             },
           ],
-          name: "PropertyListed",
-          type: "event",
-        },
-        {
-          anonymous: false,
-          inputs: [
+          name: "ownershipBPS",
+          outputs: [
             {
-              indexed: true,
               internalType: "uint256",
-              name: "tokenId",
+              name: "",
               type: "uint256",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "propertyNFT",
+          outputs: [
             {
-              indexed: false,
-              internalType: "string",
-              name: "propertyAddress",
-              type: "string",
+              internalType: "contract PropertyNFT",
+              name: "",
+              type: "address",
             },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
-              indexed: false,
               internalType: "uint256",
-              name: "valueUSD",
+              name: "propertyId",
               type: "uint256",
             },
             {
-              indexed: false,
-              internalType: "uint256",
-              name: "totalShares",
-              type: "uint256",
+              internalType: "address",
+              name: "borrower",
+              type: "address",
             },
           ],
-          name: "PropertyMinted",
-          type: "event",
+          name: "retire",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
-              internalType: "uint256",
-              name: "tokenId",
-              type: "uint256",
+              internalType: "address",
+              name: "manager",
+              type: "address",
             },
           ],
-          name: "PropertyUnlisted",
-          type: "event",
+          name: "revokeManager",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
-          anonymous: false,
           inputs: [
             {
-              indexed: true,
               internalType: "address",
               name: "from",
               type: "address",
             },
             {
-              indexed: true,
               internalType: "address",
               name: "to",
               type: "address",
             },
             {
-              indexed: true,
-              internalType: "uint256",
-              name: "tokenId",
-              type: "uint256",
+              internalType: "uint256[]",
+              name: "ids",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "values",
+              type: "uint256[]",
+            },
+            {
+              internalType: "bytes",
+              name: "data",
+              type: "bytes",
             },
           ],
-          name: "Transfer",
-          type: "event",
+          name: "safeBatchTransferFrom",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
         },
         {
           inputs: [
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
             {
               internalType: "address",
               name: "to",
@@ -1904,11 +10348,21 @@ const deployedContracts = {
             },
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "id",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
               type: "uint256",
             },
+            {
+              internalType: "bytes",
+              name: "data",
+              type: "bytes",
+            },
           ],
-          name: "approve",
+          name: "safeTransferFrom",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -1917,11 +10371,42 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "address",
-              name: "owner",
+              name: "operator",
               type: "address",
             },
+            {
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
+            },
           ],
-          name: "balanceOf",
+          name: "setApprovalForAll",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes4",
+              name: "interfaceId",
+              type: "bytes4",
+            },
+          ],
+          name: "supportsInterface",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalSupply",
           outputs: [
             {
               internalType: "uint256",
@@ -1936,77 +10421,114 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "id",
               type: "uint256",
             },
           ],
-          name: "getApproved",
+          name: "totalSupply",
           outputs: [
             {
-              internalType: "address",
+              internalType: "uint256",
               name: "",
-              type: "address",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "propertyId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "borrower",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "equityBPS",
               type: "uint256",
             },
           ],
-          name: "getProperty",
+          name: "updateEquity",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "propertyId",
+              type: "uint256",
+            },
+          ],
+          name: "uri",
           outputs: [
             {
-              components: [
-                {
-                  internalType: "string",
-                  name: "propertyAddress",
-                  type: "string",
-                },
-                {
-                  internalType: "uint256",
-                  name: "valueUSD",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "totalShares",
-                  type: "uint256",
-                },
-                {
-                  internalType: "string",
-                  name: "imageURI",
-                  type: "string",
-                },
-                {
-                  internalType: "string",
-                  name: "description",
-                  type: "string",
-                },
-                {
-                  internalType: "bool",
-                  name: "isListed",
-                  type: "bool",
-                },
-                {
-                  internalType: "uint256",
-                  name: "listedTimestamp",
-                  type: "uint256",
-                },
-              ],
-              internalType: "struct PropertyNFT.Property",
+              internalType: "string",
               name: "",
-              type: "tuple",
+              type: "string",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
+      ],
+      inheritedFunctions: {
+        holdsAllShares: "contracts/IPropertyShares.sol",
+        retire: "contracts/IPropertyShares.sol",
+        updateEquity: "contracts/IPropertyShares.sol",
+        balanceOf:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        balanceOfBatch:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        exists:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        isApprovedForAll:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        safeBatchTransferFrom:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        safeTransferFrom:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        setApprovalForAll:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        supportsInterface:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        totalSupply:
+          "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        uri: "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 23,
+    },
+    RateModel: {
+      address: "0x0165878A594ca255338adfa4d48449f69242Eb8F",
+      abi: [
+        {
+          inputs: [],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
         {
           inputs: [
             {
@@ -2014,70 +10536,95 @@ const deployedContracts = {
               name: "owner",
               type: "address",
             },
+          ],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [
             {
               internalType: "address",
-              name: "operator",
+              name: "account",
               type: "address",
             },
           ],
-          name: "isApprovedForAll",
-          outputs: [
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
-              internalType: "bool",
-              name: "",
-              type: "bool",
+              indexed: false,
+              internalType: "uint256",
+              name: "rateBPS",
+              type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "BaseRateUpdated",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "tokenId",
+              name: "tierCount",
               type: "uint256",
             },
           ],
-          name: "listProperty",
-          outputs: [],
-          stateMutability: "nonpayable",
-          type: "function",
+          name: "LtvTiersUpdated",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
             {
+              indexed: true,
               internalType: "address",
-              name: "to",
+              name: "previousOwner",
               type: "address",
             },
             {
-              internalType: "string",
-              name: "propertyAddress",
-              type: "string",
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
             },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "valueUSD",
+              name: "tierCount",
               type: "uint256",
             },
+          ],
+          name: "TermTiersUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "totalShares",
+              name: "slopeBPS",
               type: "uint256",
             },
-            {
-              internalType: "string",
-              name: "imageURI",
-              type: "string",
-            },
-            {
-              internalType: "string",
-              name: "description",
-              type: "string",
-            },
           ],
-          name: "mintProperty",
+          name: "UtilizationSlopeUpdated",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "BASIS_POINTS",
           outputs: [
             {
               internalType: "uint256",
@@ -2085,17 +10632,17 @@ const deployedContracts = {
               type: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
         {
           inputs: [],
-          name: "name",
+          name: "MAX_RATE_BPS",
           outputs: [
             {
-              internalType: "string",
+              internalType: "uint256",
               name: "",
-              type: "string",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
@@ -2103,31 +10650,37 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "owner",
+          name: "baseRateBPS",
           outputs: [
             {
-              internalType: "address",
+              internalType: "uint256",
               name: "",
-              type: "address",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
         {
-          inputs: [
-            {
-              internalType: "uint256",
-              name: "tokenId",
-              type: "uint256",
-            },
-          ],
-          name: "ownerOf",
+          inputs: [],
+          name: "getLtvTiers",
           outputs: [
             {
-              internalType: "address",
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "maxValue",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "premiumBPS",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct RateModel.RateTier[]",
               name: "",
-              type: "address",
+              type: "tuple[]",
             },
           ],
           stateMutability: "view",
@@ -2137,45 +10690,25 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "ltvBPS",
               type: "uint256",
             },
-          ],
-          name: "properties",
-          outputs: [
-            {
-              internalType: "string",
-              name: "propertyAddress",
-              type: "string",
-            },
             {
               internalType: "uint256",
-              name: "valueUSD",
+              name: "termMonths",
               type: "uint256",
             },
             {
               internalType: "uint256",
-              name: "totalShares",
+              name: "utilizationBPS",
               type: "uint256",
             },
-            {
-              internalType: "string",
-              name: "imageURI",
-              type: "string",
-            },
-            {
-              internalType: "string",
-              name: "description",
-              type: "string",
-            },
-            {
-              internalType: "bool",
-              name: "isListed",
-              type: "bool",
-            },
+          ],
+          name: "getRate",
+          outputs: [
             {
               internalType: "uint256",
-              name: "listedTimestamp",
+              name: "rateBPS",
               type: "uint256",
             },
           ],
@@ -2184,58 +10717,69 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "renounceOwnership",
-          outputs: [],
-          stateMutability: "nonpayable",
+          name: "getTermTiers",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "maxValue",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "premiumBPS",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct RateModel.RateTier[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
           type: "function",
         },
         {
           inputs: [
             {
-              internalType: "address",
-              name: "from",
-              type: "address",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
             },
+          ],
+          name: "ltvTiers",
+          outputs: [
             {
-              internalType: "address",
-              name: "to",
-              type: "address",
+              internalType: "uint256",
+              name: "maxValue",
+              type: "uint256",
             },
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "premiumBPS",
               type: "uint256",
             },
           ],
-          name: "safeTransferFrom",
-          outputs: [],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
         {
-          inputs: [
-            {
-              internalType: "address",
-              name: "from",
-              type: "address",
-            },
+          inputs: [],
+          name: "owner",
+          outputs: [
             {
               internalType: "address",
-              name: "to",
+              name: "",
               type: "address",
             },
-            {
-              internalType: "uint256",
-              name: "tokenId",
-              type: "uint256",
-            },
-            {
-              internalType: "bytes",
-              name: "data",
-              type: "bytes",
-            },
           ],
-          name: "safeTransferFrom",
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "renounceOwnership",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -2243,17 +10787,12 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "address",
-              name: "operator",
-              type: "address",
-            },
-            {
-              internalType: "bool",
-              name: "approved",
-              type: "bool",
+              internalType: "uint256",
+              name: "rateBPS",
+              type: "uint256",
             },
           ],
-          name: "setApprovalForAll",
+          name: "setBaseRate",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -2261,88 +10800,74 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "bytes4",
-              name: "interfaceId",
-              type: "bytes4",
+              internalType: "uint256[]",
+              name: "maxLtvBPS",
+              type: "uint256[]",
             },
-          ],
-          name: "supportsInterface",
-          outputs: [
             {
-              internalType: "bool",
-              name: "",
-              type: "bool",
+              internalType: "uint256[]",
+              name: "premiumsBPS",
+              type: "uint256[]",
             },
           ],
-          stateMutability: "view",
+          name: "setLtvTiers",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
-          inputs: [],
-          name: "symbol",
-          outputs: [
+          inputs: [
             {
-              internalType: "string",
-              name: "",
-              type: "string",
+              internalType: "uint256[]",
+              name: "maxTermMonths",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "premiumsBPS",
+              type: "uint256[]",
             },
           ],
-          stateMutability: "view",
+          name: "setTermTiers",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "slopeBPS",
               type: "uint256",
             },
           ],
-          name: "tokenURI",
-          outputs: [
-            {
-              internalType: "string",
-              name: "",
-              type: "string",
-            },
-          ],
-          stateMutability: "view",
+          name: "setUtilizationSlope",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
-          inputs: [],
-          name: "totalProperties",
-          outputs: [
+          inputs: [
             {
               internalType: "uint256",
               name: "",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [
-            {
-              internalType: "address",
-              name: "from",
-              type: "address",
-            },
+          name: "termTiers",
+          outputs: [
             {
-              internalType: "address",
-              name: "to",
-              type: "address",
+              internalType: "uint256",
+              name: "maxValue",
+              type: "uint256",
             },
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "premiumBPS",
               type: "uint256",
             },
           ],
-          name: "transferFrom",
-          outputs: [],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
         {
@@ -2359,40 +10884,29 @@ const deployedContracts = {
           type: "function",
         },
         {
-          inputs: [
+          inputs: [],
+          name: "utilizationSlopeBPS",
+          outputs: [
             {
               internalType: "uint256",
-              name: "tokenId",
+              name: "",
               type: "uint256",
             },
           ],
-          name: "unlistProperty",
-          outputs: [],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
           type: "function",
         },
       ],
       inheritedFunctions: {
-        approve: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        balanceOf: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        getApproved: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        isApprovedForAll: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        name: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        ownerOf: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        safeTransferFrom: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        setApprovalForAll: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        supportsInterface: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        symbol: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        tokenURI: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
-        transferFrom: "@openzeppelin/contracts/token/ERC721/ERC721.sol",
+        getRate: "contracts/IRateModel.sol",
         owner: "@openzeppelin/contracts/access/Ownable.sol",
         renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
         transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
       },
-      deployedOnBlock: 190,
+      deployedOnBlock: 13,
     },
     YourContract: {
-      address: "0x413b1AfCa96a3df5A686d8BFBF93d30688a7f7D9",
+      address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
       abi: [
         {
           inputs: [
@@ -2533,7 +11047,7 @@ const deployedContracts = {
         },
       ],
       inheritedFunctions: {},
-      deployedOnBlock: 188,
+      deployedOnBlock: 1,
     },
   },
 } as const;
@@ -0,0 +1,97 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useBlockNumber, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { AbiFunctionReturnType, ContractAbi } from "~~/utils/scaffold-eth/contract";
+
+type PropertyData = AbiFunctionReturnType<ContractAbi<"PropertyNFT">, "getProperty">;
+type MortgageData = AbiFunctionReturnType<ContractAbi<"MortgageManager">, "getMortgage">;
+
+export type CatalogProperty = PropertyData & {
+  id: bigint;
+  mortgage?: MortgageData; // Zeroed (status None) until someone applies
+};
+
+export type CatalogFilters = {
+  listedOnly?: boolean;
+  minPrice?: bigint;
+  maxPrice?: bigint;
+  minBedrooms?: number;
+};
+
+/**
+ * Apply catalog filters; prices are compared against the latest appraised value
+ */
+export const filterCatalog = (properties: CatalogProperty[], filters: CatalogFilters) =>
+  properties.filter(
+    property =>
+      (!filters.listedOnly || property.isListed) &&
+      (filters.minPrice === undefined || property.valueUSD >= filters.minPrice) &&
+      (filters.maxPrice === undefined || property.valueUSD <= filters.maxPrice) &&
+      (filters.minBedrooms === undefined || Number(property.bedrooms) >= filters.minBedrooms),
+  );
+
+/**
+ * Every minted property read from PropertyNFT, joined with its mortgage from MortgageManager.
+ * Reads are batched into one multicall and refreshed on each new block.
+ */
+export const usePropertyCatalog = (filters: CatalogFilters = {}) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: propertyNFT } = useDeployedContractInfo({ contractName: "PropertyNFT" });
+  const { data: mortgageManager } = useDeployedContractInfo({ contractName: "MortgageManager" });
+
+  const { data: totalProperties } = useScaffoldReadContract({
+    contractName: "PropertyNFT",
+    functionName: "totalProperties",
+  });
+
+  const ids = Array.from({ length: Number(totalProperties ?? 0) }, (_, idx) => BigInt(idx));
+
+  const { data, isLoading, queryKey } = useReadContracts({
+    contracts:
+      propertyNFT && mortgageManager
+        ? ids.flatMap(id => [
+            {
+              chainId: targetNetwork.id,
+              address: propertyNFT.address,
+              abi: propertyNFT.abi,
+              functionName: "getProperty",
+              args: [id],
+            },
+            {
+              chainId: targetNetwork.id,
+              address: mortgageManager.address,
+              abi: mortgageManager.abi,
+              functionName: "getMortgage",
+              args: [id],
+            },
+          ])
+        : [],
+    query: {
+      enabled: !!propertyNFT && !!mortgageManager && ids.length > 0,
+    },
+  });
+
+  const queryClient = useQueryClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockNumber]);
+
+  // Results alternate property, mortgage for each ID
+  const results = data as readonly { result?: unknown }[] | undefined;
+  const allProperties: CatalogProperty[] = ids.flatMap((id, idx) => {
+    const property = results?.[idx * 2]?.result as PropertyData | undefined;
+    if (!property) return [];
+    return [{ ...property, id, mortgage: results?.[idx * 2 + 1]?.result as MortgageData | undefined }];
+  });
+
+  return {
+    properties: filterCatalog(allProperties, filters),
+    allProperties,
+    totalProperties,
+    isLoading: isLoading || totalProperties === undefined,
+  };
+};
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Address, Hex, erc20Abi, parseAbi, parseSignature } from "viem";
+import { useAccount, usePublicClient, useSignTypedData, useWriteContract } from "wagmi";
+import {
+  useDeployedContractInfo,
+  useScaffoldReadContract,
+  useTargetNetwork,
+  useTransactor,
+} from "~~/hooks/scaffold-eth";
+import { ContractName } from "~~/utils/scaffold-eth/contract";
+
+// EIP-2612 nonces plus the ERC-5267 domain, both exposed by OpenZeppelin's ERC20Permit
+const permitAbi = parseAbi([
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+]);
+
+// Seconds a signed permit stays usable
+const PERMIT_LIFETIME = 60 * 60;
+
+/** Arguments shared by the permit entry points: value, deadline, v, r, s */
+export type PermitArgs = readonly [bigint, bigint, number, Hex, Hex];
+
+/**
+ * Gets a protocol contract allowed to pull the pool's asset (USDC) from the connected account,
+ * either with a signed permit or with a separate approve transaction
+ */
+export const useUSDCApproval = (spenderName: ContractName) => {
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: spender } = useDeployedContractInfo({ contractName: spenderName });
+  const { data: token } = useScaffoldReadContract({ contractName: "MortgagePool", functionName: "asset" });
+
+  const { signTypedDataAsync } = useSignTypedData();
+  const { writeContractAsync } = useWriteContract();
+  const writeTx = useTransactor();
+  const [isApproving, setIsApproving] = useState(false);
+
+  const getContext = async () => {
+    if (!address || !publicClient || !spender || !token) {
+      throw new Error(`${spenderName} or the pool asset is not available`);
+    }
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [address, spender.address],
+    });
+    return { owner: address, client: publicClient, spender: spender.address, token, allowance };
+  };
+
+  const approve = async (token: Address, spender: Address, amount: bigint) => {
+    setIsApproving(true);
+    try {
+      await writeTx(() =>
+        writeContractAsync({
+          address: token,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [spender, amount],
+        }),
+      );
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  /** Approves the missing amount with a transaction, for calls that have no permit variant */
+  const ensureAllowance = async (amount: bigint) => {
+    const { spender, token, allowance } = await getContext();
+    if (allowance >= amount) return;
+    await approve(token, spender, amount);
+  };
+
+  /**
+   * Signs a permit for `amount`, to hand to depositWithPermit or permitAndCall.
+   * Returns undefined when the allowance already covers the amount, or when the
+   * token has no permit support and an approve transaction was sent instead.
+   */
+  const signPermit = async (amount: bigint): Promise<PermitArgs | undefined> => {
+    const { owner, client, spender, token, allowance } = await getContext();
+    if (allowance >= amount) return undefined;
+
+    let domain: readonly [Hex, string, string, bigint, Address, Hex, readonly bigint[]];
+    let nonce: bigint;
+    try {
+      [domain, nonce] = await Promise.all([
+        client.readContract({ address: token, abi: permitAbi, functionName: "eip712Domain" }),
+        client.readContract({ address: token, abi: permitAbi, functionName: "nonces", args: [owner] }),
+      ]);
+    } catch {
+      await approve(token, spender, amount);
+      return undefined;
+    }
+
+    const [, name, version, chainId, verifyingContract] = domain;
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_LIFETIME);
+
+    setIsApproving(true);
+    try {
+      const signature = await signTypedDataAsync({
+        domain: { name, version, chainId, verifyingContract },
+        types: {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "Permit",
+        message: { owner, spender, value: amount, nonce, deadline },
+      });
+      const { r, s, v, yParity } = parseSignature(signature);
+      return [amount, deadline, Number(v ?? BigInt(yParity + 27)), r, s];
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return { ensureAllowance, signPermit, isApproving };
+};
@@ -0,0 +1,25 @@
+import { formatUnits, parseUnits } from "viem";
+
+// The pool asset (MockUSDC) uses 6 decimals like real USDC; pool shares inherit them
+export const USDC_DECIMALS = 6;
+
+/**
+ * Format a USDC amount for display, e.g. 1234567890n -> "1,234.57"
+ */
+export const formatUSDC = (amount: bigint, maximumFractionDigits = 2) =>
+  Number(formatUnits(amount, USDC_DECIMALS)).toLocaleString(undefined, { maximumFractionDigits });
+
+/**
+ * Parse user input into USDC base units; throws on malformed input like viem's parseUnits
+ */
+export const parseUSDC = (amount: string) => parseUnits(amount, USDC_DECIMALS);
+
+/**
+ * Parse a positive decimal amount typed into a form, e.g. "1250.5" -> 1250500000n.
+ * Empty, zero or malformed input (like "1e5") yields undefined instead of throwing, so it is safe during render.
+ */
+export const tryParseUSDC = (amount: string) => {
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(amount.trim())) return undefined;
+  const parsed = parseUSDC(amount.trim());
+  return parsed > BigInt(0) ? parsed : undefined;
+};